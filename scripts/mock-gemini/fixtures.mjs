@@ -0,0 +1,79 @@
+// Canned, schema-conforming payloads for each kind of request the app makes.
+
+export const scenarioFixtures = [
+  {
+    title: "The Data Breach Dilemma",
+    description:
+      "A security researcher reports that customer records were exposed for three weeks. Only part of the impact is confirmed and the quarterly earnings call is in two days.",
+    keyDecision: "Go public with the breach now, or wait for the forensic report?",
+  },
+  {
+    title: "The Launch Deadline",
+    description:
+      "Your flagship release is scheduled for Monday, but QA has found an intermittent bug that corrupts a small fraction of user data. Marketing has already paid for the launch campaign.",
+    keyDecision: "Ship on schedule with a known defect, or delay the launch?",
+  },
+  {
+    title: "The Star Performer",
+    description:
+      "Your top salesperson is responsible for a third of revenue and has received two harassment complaints. Both complainants want the matter kept confidential.",
+    keyDecision: "Open a formal investigation now, or handle it quietly?",
+  },
+  {
+    title: "The Supplier Shortcut",
+    description:
+      "A new supplier can cut costs by 20%, but an NGO report links them to unsafe working conditions. The board expects margin improvement this year.",
+    keyDecision: "Sign with the cheaper supplier, or keep the current contract?",
+  },
+  {
+    title: "The Layoff Leak",
+    description:
+      "Plans for a 10% workforce reduction have leaked on an internal forum before leadership approved them. Rumours are spreading and morale is dropping fast.",
+    keyDecision: "Confirm the plan immediately, or deny it until it is final?",
+  },
+];
+
+export const openingPromptFixture =
+  "It is 8:00 AM and your phone has not stopped buzzing. The situation you feared has arrived, and every stakeholder is waiting on your team. The decision in front of you cannot wait until the afternoon. What is the very first thing your team does?";
+
+export const hostLineFixtures = [
+  "The board has just asked for your recommendation within the hour. What will you tell them?",
+  "A key customer has heard rumours and is threatening to leave. How do you respond?",
+  "Your legal team warns that the decision you are leaning towards carries real liability. Do you change course?",
+  "The media has just published a story about the situation. What is your public statement?",
+  "New data suggests the problem is twice as large as you thought. What do you do next?",
+];
+
+export const analysisFixture = {
+  // Findings cite the team's first answer, which every analyzable transcript has
+  keyStrengths: [
+    {
+      text: "Moved quickly to gather facts before committing to a course of action.",
+      evidence: [{ entryIndex: 1, quote: "" }],
+    },
+    {
+      text: "Explicitly weighed the impact on customers alongside the business impact.",
+      evidence: [{ entryIndex: 1, quote: "" }],
+    },
+  ],
+  growthAreas: [
+    {
+      text: "Converged on the first proposal without exploring alternatives.",
+      evidence: [{ entryIndex: 1, quote: "" }],
+    },
+    {
+      text: "Did not assign clear owners to the follow-up actions.",
+      evidence: [{ entryIndex: 1, quote: "" }],
+    },
+  ],
+  actionableFeedback:
+    "Before committing, ask every member to name one alternative and one risk. Then close each discussion by stating who owns which next step and by when.",
+  heatmapData: {
+    Decisiveness: 8,
+    "Ethical Focus": 7,
+    "Data-Driven": 6,
+    "Long-Term Thinking": 5,
+    "Bias for Action": 8,
+    Collaboration: 6,
+  },
+};
@@ -0,0 +1,236 @@
+// A local stand-in for the Gemini REST API.
+//
+// Speaks the `generateContent` and `streamGenerateContent` (alt=sse) wire
+// formats so the app can run end to end without a real key:
+//
+//   npm run mock:gemini
+//   LLM_PROVIDER=gemini GOOGLE_GEMINI_API_KEY=test \
+//     GEMINI_API_BASE_URL=http://localhost:8787/v1beta npm run dev
+//
+// Failure modes can be scripted, either for every request with
+// MOCK_GEMINI_MODE, or as a queue consumed one request at a time:
+//
+//   curl -X POST localhost:8787/__mock/script -d '{"queue":["error","ok"]}'
+//
+// Modes: ok, error, rate-limit, truncated, safety, blocked.
+
+import http from "node:http";
+import {
+  analysisFixture,
+  hostLineFixtures,
+  openingPromptFixture,
+  scenarioFixtures,
+} from "./fixtures.mjs";
+
+const port = Number(process.env.MOCK_GEMINI_PORT ?? 8787);
+const defaultMode = process.env.MOCK_GEMINI_MODE ?? "ok";
+const modes = ["ok", "error", "rate-limit", "truncated", "safety", "blocked"];
+
+let queue = [];
+const requestLog = [];
+
+// --- Fixture selection ---
+
+/** Picks the payload for a request from the shape of its response schema. */
+function buildResponseText(payload) {
+  const schema = payload.generationConfig?.responseSchema;
+  const prompt = payload.contents?.[0]?.parts?.map((p) => p.text).join("") ?? "";
+
+  if (!schema) {
+    const teamTurns = (prompt.match(/^TEAM( \(.*?\))?:/gm) ?? []).length;
+    return hostLineFixtures[teamTurns % hostLineFixtures.length];
+  }
+  if (schema.type === "ARRAY" && schema.items?.properties?.keyDecision) {
+    const count = schema.minItems ?? 10;
+    const scenarios = Array.from({ length: count }, (_, i) => {
+      const fixture = scenarioFixtures[i % scenarioFixtures.length];
+      const round = Math.floor(i / scenarioFixtures.length);
+      const item = round === 0 ? fixture : { ...fixture, title: `${fixture.title} (${round + 1})` };
+      // Fills in whatever the request asked for (type, difficulty, ...)
+      return conformTo(schema.items, item);
+    });
+    return JSON.stringify(scenarios);
+  }
+  if (schema.properties?.openingPrompt) {
+    return JSON.stringify(conformTo(schema, { openingPrompt: openingPromptFixture }));
+  }
+  if (schema.properties?.heatmapData) {
+    return JSON.stringify(conformTo(schema, analysisFixture));
+  }
+  return JSON.stringify(conformTo(schema, undefined));
+}
+
+/**
+ * Fills a fixture out against the schema, so schema additions (new metrics,
+ * new fields) still get a valid value instead of breaking the mock.
+ */
+function conformTo(schema, value, key = "value") {
+  if (schema.enum?.length) {
+    return schema.enum.includes(value) ? value : schema.enum[0];
+  }
+  switch (schema.type) {
+    case "OBJECT": {
+      const result = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        result[name] = conformTo(property, value?.[name], name);
+      }
+      return result;
+    }
+    case "ARRAY": {
+      const min = schema.minItems ?? 2;
+      const max = schema.maxItems ?? Infinity;
+      const items = Array.isArray(value) ? value.slice(0, max) : [];
+      while (items.length < Math.max(min, 1) && items.length < max) items.push(undefined);
+      return items.map((item, i) => conformTo(schema.items ?? { type: "STRING" }, item, `${key} ${i + 1}`));
+    }
+    case "NUMBER":
+    case "INTEGER": {
+      if (typeof value === "number") return value;
+      const range = schema.description?.match(/(\d+)\s*-\s*(\d+)/);
+      return range ? Math.round(Number(range[1]) + (Number(range[2]) - Number(range[1])) * 0.7) : 7;
+    }
+    case "BOOLEAN":
+      return typeof value === "boolean" ? value : false;
+    default:
+      return typeof value === "string" ? value : `Mock ${key}`;
+  }
+}
+
+// --- Wire format ---
+
+function candidateResponse(text, finishReason = "STOP") {
+  return {
+    candidates: [
+      {
+        content: { role: "model", parts: [{ text }] },
+        finishReason,
+        index: 0,
+        safetyRatings: [],
+      },
+    ],
+    usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+  };
+}
+
+function respond(res, mode, payload) {
+  switch (mode) {
+    case "error":
+      return sendJson(res, 500, {
+        error: { code: 500, message: "Mock internal error", status: "INTERNAL" },
+      });
+    case "rate-limit":
+      return sendJson(res, 429, {
+        error: { code: 429, message: "Resource has been exhausted", status: "RESOURCE_EXHAUSTED" },
+      });
+    case "truncated": {
+      const text = buildResponseText(payload);
+      return sendJson(res, 200, candidateResponse(text.slice(0, Math.ceil(text.length / 2)), "MAX_TOKENS"));
+    }
+    case "safety":
+      return sendJson(res, 200, {
+        candidates: [
+          {
+            finishReason: "SAFETY",
+            index: 0,
+            safetyRatings: [{ category: "HARM_CATEGORY_HARASSMENT", probability: "HIGH", blocked: true }],
+          },
+        ],
+      });
+    case "blocked":
+      return sendJson(res, 200, { promptFeedback: { blockReason: "SAFETY", safetyRatings: [] } });
+    default:
+      return sendJson(res, 200, candidateResponse(buildResponseText(payload)));
+  }
+}
+
+/**
+ * `streamGenerateContent?alt=sse`: the same payloads, sent as SSE events.
+ * A successful reply is split into a few chunks with a short delay.
+ */
+async function respondStream(res, mode, payload) {
+  if (mode === "error" || mode === "rate-limit") {
+    return respond(res, mode, payload);
+  }
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  const send = (body) => res.write(`data: ${JSON.stringify(body)}\r\n\r\n`);
+
+  if (mode === "safety" || mode === "blocked") {
+    const captured = { writeHead() {}, end: (body) => send(JSON.parse(body)) };
+    respond(captured, mode, payload);
+    return res.end();
+  }
+
+  const text = buildResponseText(payload);
+  const chunks = text.match(/(\S+\s*){1,4}/g) ?? [text];
+  const count = mode === "truncated" ? Math.ceil(chunks.length / 2) : chunks.length;
+  for (let i = 0; i < count; i++) {
+    const last = i === count - 1;
+    const body = candidateResponse(chunks[i], mode === "truncated" ? "MAX_TOKENS" : "STOP");
+    if (!last) delete body.candidates[0].finishReason;
+    send(body);
+    await new Promise((resolve) => setTimeout(resolve, 40));
+  }
+  res.end();
+}
+
+// --- Server ---
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : {};
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${port}`);
+
+  try {
+    if (req.method === "POST" && url.pathname === "/__mock/script") {
+      const { queue: next } = await readJson(req);
+      const invalid = (next ?? []).filter((mode) => !modes.includes(mode));
+      if (!Array.isArray(next) || invalid.length > 0) {
+        return sendJson(res, 400, { error: `queue must be an array of: ${modes.join(", ")}` });
+      }
+      queue = [...next];
+      return sendJson(res, 200, { queue });
+    }
+    if (req.method === "POST" && url.pathname === "/__mock/reset") {
+      queue = [];
+      requestLog.length = 0;
+      return sendJson(res, 200, { ok: true });
+    }
+    if (req.method === "GET" && url.pathname === "/__mock/requests") {
+      return sendJson(res, 200, requestLog);
+    }
+
+    const match = url.pathname.match(/^\/v1beta\/models\/([^/:]+):(generateContent|streamGenerateContent)$/);
+    if (req.method !== "POST" || !match) {
+      return sendJson(res, 404, { error: { code: 404, message: "Not found", status: "NOT_FOUND" } });
+    }
+    if (!url.searchParams.get("key")) {
+      return sendJson(res, 403, {
+        error: { code: 403, message: "Method doesn't allow unregistered callers", status: "PERMISSION_DENIED" },
+      });
+    }
+
+    const payload = await readJson(req);
+    const mode = queue.shift() ?? defaultMode;
+    requestLog.push({ model: match[1], mode, payload });
+    console.log(`[mock-gemini] ${match[1]}:${match[2]} -> ${mode}`);
+    if (match[2] === "streamGenerateContent") {
+      return respondStream(res, mode, payload);
+    }
+    return respond(res, mode, payload);
+  } catch (error) {
+    return sendJson(res, 400, { error: { code: 400, message: String(error), status: "INVALID_ARGUMENT" } });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[mock-gemini] listening on http://localhost:${port}/v1beta (mode: ${defaultMode})`);
+});
@@ -5,18 +5,10 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
-
+import { ParticipantInsights } from "@/components/participant-insights";
+import { PersonaHandlingList } from "@/components/persona-handling";
 // This is the shape of the analysis data
-type HeatmapData = {
-  [key: string]: number; // e.g., "Decisiveness": 8
-};
-type Analysis = {
-  overallScore: number;
-  keyStrengths: string[];
-  growthAreas: string[];
-  actionableFeedback: string;
-  heatmapData: HeatmapData;
-};
+import { Analysis, HeatmapData } from "@/lib/types";
 
 /**
  * A simple component to render the heatmap using shadcn Card components.
@@ -169,6 +161,28 @@ export default function AnalysisPage() {
         <TeamHeatmap data={analysis.heatmapData} />
       </div>
 
+      {analysis.participants && analysis.participants.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-semibold">Team Members</h2>
+            <div className="text-sm text-muted-foreground">Influence 1-10</div>
+          </div>
+          <Separator className="my-4" />
+          <ParticipantInsights participants={analysis.participants} />
+        </div>
+      )}
+
+      {analysis.personas && analysis.personas.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-semibold">Stakeholders</h2>
+            <div className="text-sm text-muted-foreground">How each was handled, 1-10</div>
+          </div>
+          <Separator className="my-4" />
+          <PersonaHandlingList personas={analysis.personas} />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
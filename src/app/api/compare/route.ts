@@ -0,0 +1,170 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { getLlmProvider, ResponseSchema } from '@/lib/llm';
+import { BIAS_TYPES } from '@/lib/simulation/biases';
+import {
+  divergentPathDecisions,
+  listMetrics,
+  parseCompareIds,
+  toComparedSimulations,
+} from '@/lib/simulation/comparison';
+import { formatTranscript } from '@/lib/simulation/host';
+import { getSimulationRepository, NotFoundError } from '@/lib/storage';
+import { ComparedSimulation, DivergentDecision, Simulation, SimulationComparison } from '@/lib/types';
+
+// The team's side of each transcript is capped so six long sessions still
+// fit in one prompt.
+const MAX_TEAM_TEXT = 4000;
+
+// Divergent decisions are only asked for when no authored path gives them.
+function buildResponseSchema(labels: string[], askForDecisions: boolean): ResponseSchema {
+  const schema: ResponseSchema = {
+    type: 'OBJECT',
+    properties: {
+      narrative: {
+        type: 'STRING',
+        description:
+          'Two short paragraphs on what distinguished the simulations: how they decided, what they prioritised and why their scores differ. Refer to them by label.',
+      },
+    },
+    required: ['narrative'],
+  };
+  if (askForDecisions) {
+    schema.properties!.decisions = {
+      type: 'ARRAY',
+      description: 'Up to 4 key decisions the teams made differently.',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          point: { type: 'STRING', description: 'The decision they faced, in a few words.' },
+          choices: {
+            type: 'ARRAY',
+            description: 'What each simulation chose.',
+            items: {
+              type: 'OBJECT',
+              properties: {
+                simulation: { type: 'STRING', enum: labels },
+                choice: { type: 'STRING', description: 'What they chose, in a few words.' },
+              },
+              required: ['simulation', 'choice'],
+            },
+            minItems: labels.length,
+            maxItems: labels.length,
+          },
+        },
+        required: ['point', 'choices'],
+      },
+      maxItems: 4,
+    };
+    schema.required!.push('decisions');
+  }
+  return schema;
+}
+
+function getSystemInstruction(): string {
+  return `
+    You are 'Lead Analyst-AI', comparing several runs of a team decision-making simulation.
+    Each simulation has a label (A, B, ...), its scores and findings, and what the team said.
+    They may be different teams facing the same scenario, or the same team over time.
+
+    Explain what distinguished them: the decisions that went different ways, how each team reasoned, and what drove the gaps in their scores.
+    Be specific and cite the labels; do not just restate the numbers.
+
+    You MUST return your comparison in the requested JSON format. Do not add *any* other text.
+  `;
+}
+
+function describeSimulation(simulation: Simulation, compared: ComparedSimulation): string {
+  const { analysis, biases = [] } = simulation;
+  const teamText = formatTranscript(simulation.transcript.filter((e) => e.role === 'team'));
+  return `
+    SIMULATION ${compared.label} (${compared.scenarioTitle}; ${compared.domain}, team of ${compared.teamSize}, ${compared.createdAt.slice(0, 10)}):
+    - Overall score: ${compared.overallScore}/100
+    - Metrics: ${Object.entries(compared.heatmapData).map(([name, score]) => `${name} ${score}/10`).join(', ')}
+    - Strengths: ${analysis?.keyStrengths.join('; ')}
+    - Growth areas: ${analysis?.growthAreas.join('; ')}
+    - Biases: ${biases.map((b) => `${BIAS_TYPES[b.type].label} (${b.confidence}%)`).join(', ') || 'none detected'}
+    WHAT THE TEAM SAID:
+    ${teamText.slice(0, MAX_TEAM_TEXT).split('\n').join('\n    ')}
+  `;
+}
+
+// --- POST /api/compare ---
+// Compares 2-6 analyzed simulations: their scores side by side, the
+// decisions where they diverged and a narrative of what set them apart.
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as Record<string, unknown>;
+
+    // 1. Validate the request
+    const { ids, errors } = parseCompareIds(body.ids);
+    if (!ids) {
+      return NextResponse.json({ error: 'Invalid comparison request', details: errors }, { status: 400 });
+    }
+
+    // 2. Load the simulations, which must all have been analyzed
+    const repository = getSimulationRepository();
+    const simulations: Simulation[] = [];
+    for (const id of ids) {
+      const simulation = await repository.get(id);
+      if (!simulation) throw new NotFoundError('simulations', id);
+      simulations.push(simulation);
+    }
+    const unanalyzed = simulations.filter((s) => !s.analysis).map((s) => s.id);
+    if (unanalyzed.length > 0) {
+      return NextResponse.json(
+        { error: 'Only analyzed simulations can be compared', details: unanalyzed.map((id) => `${id} has no analysis yet`) },
+        { status: 400 }
+      );
+    }
+
+    // 3. What can be worked out without the model
+    const compared = toComparedSimulations(simulations);
+    const pathDecisions = divergentPathDecisions(simulations);
+
+    // 4. Ask the model for the narrative (and the decisions, for improvised sessions)
+    const labels = compared.map((c) => c.label);
+    const result = await getLlmProvider().generateJson<{
+      narrative: string;
+      decisions?: { point: string; choices: { simulation: string; choice: string }[] }[];
+    }>({
+      systemInstruction: getSystemInstruction(),
+      prompt: `
+    COMPARE THESE SIMULATIONS:
+${simulations.map((s, i) => describeSimulation(s, compared[i])).join('')}${pathDecisions.length > 0 ? `
+    DIVERGENT DECISIONS (authored scenario):
+    ${pathDecisions
+      .map((d) => `- ${d.point}: ${d.choices.map((c, i) => `${labels[i]} chose ${c.choice}`).join('; ')}`)
+      .join('\n    ')}
+` : ''}
+    Provide your comparison in the structured JSON format.
+  `,
+      temperature: 0.4,
+      maxOutputTokens: 4096,
+      schema: buildResponseSchema(labels, pathDecisions.length === 0),
+    });
+
+    // Labels back to ids; a simulation the model skipped shows no choice
+    const decisions: DivergentDecision[] =
+      pathDecisions.length > 0
+        ? pathDecisions
+        : (result.decisions ?? []).map((d) => ({
+            point: d.point,
+            choices: compared.map((c) => ({
+              simulationId: c.id,
+              choice: d.choices.find((choice) => choice.simulation === c.label)?.choice ?? '—',
+            })),
+          }));
+
+    const comparison: SimulationComparison = {
+      simulations: compared,
+      metrics: listMetrics(compared),
+      decisions,
+      narrative: result.narrative,
+    };
+    return NextResponse.json(comparison);
+
+  } catch (error) {
+    return errorResponse(error, '/api/compare');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPath } from '@/lib/simulation/graph';
+import { getSimulationRepository } from '@/lib/storage';
+import { Simulation, SimulationDetail } from '@/lib/types';
+
+// Firestore document ids cannot contain '/', and auto ids are 20 characters.
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+// --- Transform the stored simulation to match frontend types ---
+function toDetail(simulation: Simulation): SimulationDetail {
+  return {
+    ...simulation,
+    transcript: simulation.transcript.map((entry) => ({
+      ...entry,
+      // Map 'team' to 'user' as required by the frontend
+      role: entry.role === 'team' ? 'user' : entry.role,
+    })),
+    path: getPath(simulation),
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+
+  if (!id) {
+    return NextResponse.json({ error: 'Missing simulation ID' }, { status: 400 });
+  }
+  if (!ID_PATTERN.test(id)) {
+    return NextResponse.json({ error: 'Invalid simulation ID' }, { status: 400 });
+  }
+
+  try {
+    const simulation = await getSimulationRepository().get(id);
+
+    if (!simulation) {
+      return NextResponse.json({ error: 'Simulation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(toDetail(simulation));
+
+  } catch (error) {
+    console.error('Error fetching simulation:', error);
+    let errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    // Check for auth errors specifically (gRPC PERMISSION_DENIED / UNAUTHENTICATED)
+    const code = (error as { code?: unknown }).code;
+    if (code === 'permission-denied' || code === 'unauthenticated' || code === 7 || code === 16) {
+      errorMessage = 'Server authentication error. Check your Firebase Admin SDK credentials and .env.local file.';
+    }
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -1,78 +1,107 @@
 import { NextResponse } from 'next/server';
-
-// --- Configuration ---
-// We check for the API key as your original code did.
-if (!process.env.GOOGLE_GEMINI_API_KEY) {
-  throw new Error("Missing GOOGLE_GEMINI_API_KEY environment variable");
-}
-
-// Use the API key from environment variables.
-const apiKey = process.env.GOOGLE_GEMINI_API_KEY;
-// Use the model specified in my instructions for this kind of task.
-const modelName = "gemini-2.5-flash-preview-09-2025"; 
-const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${apiKey}`;
-
-// Safety settings as plain JSON, no SDK import needed.
-const safetySettings = [
-  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
-];
-
-// Define the precise JSON schema we want Gemini to return.
-// This ensures we get a list of 10 scenarios in a format the frontend can render.
-const responseSchema = {
-  type: "ARRAY",
-  description: "A list of 5j scenario objects.",
-  items: {
-    type: "OBJECT",
-    properties: {
-      "title": { 
-        type: "STRING",
-        description: "A short, catchy title for the scenario (e.g., 'The Data Breach Dilemma')." 
-      },
-      "description": { 
-        type: "STRING",
-        description: "A 2-3 sentence summary of the dilemma the team faces."
-      },
-      "keyDecision": { 
-        type: "STRING",
-        description: "The primary, high-stakes decision the team must make (e.g., 'Go public with the breach now, or wait for more information?')."
+import { getLlmProvider, LlmError, ResponseSchema } from '@/lib/llm';
+import { parseGenerationOptions, SCENARIO_TYPES, TIME_HORIZONS } from '@/lib/simulation/generation';
+import { GeneratedScenario, GenerationOptions, ScenarioDifficulty } from '@/lib/types';
+
+// Define the precise JSON schema we want the model to return.
+// This ensures we get exactly `count` scenarios in a format the frontend can
+// render, tagged with the type and difficulty that were asked for.
+function buildResponseSchema(options: GenerationOptions): ResponseSchema {
+  const scenarioTypes = options.scenarioTypes.length > 0 ? options.scenarioTypes : Object.keys(SCENARIO_TYPES);
+
+  return {
+    type: "ARRAY",
+    description: `A list of ${options.count} scenario objects.`,
+    items: {
+      type: "OBJECT",
+      properties: {
+        "title": { 
+          type: "STRING",
+          description: "A short, catchy title for the scenario (e.g., 'The Data Breach Dilemma')." 
+        },
+        "description": { 
+          type: "STRING",
+          description: "A 2-3 sentence summary of the dilemma the team faces."
+        },
+        "keyDecision": { 
+          type: "STRING",
+          description: "The primary, high-stakes decision the team must make (e.g., 'Go public with the breach now, or wait for more information?')."
+        },
+        "scenarioType": {
+          type: "STRING",
+          description: "The kind of dilemma this scenario presents.",
+          enum: scenarioTypes,
+        },
+        "difficulty": {
+          type: "STRING",
+          description: "How hard the dilemma is to navigate.",
+          enum: [options.difficulty],
+        },
+        "stakeholders": {
+          type: "ARRAY",
+          items: { type: "STRING" },
+          description: options.stakeholders.length > 0
+            ? `The stakeholders affected, drawn from: ${options.stakeholders.join(", ")}.`
+            : "The 2-4 stakeholders most affected by the decision.",
+        },
       },
+      required: ["title", "description", "keyDecision", "scenarioType", "difficulty", "stakeholders"]
     },
-    required: ["title", "description", "keyDecision"]
-  },
-  minItems: 10,
-  maxItems: 10
-};
+    minItems: options.count,
+    maxItems: options.count
+  };
+}
 
 // --- Prompting Logic ---
 
+// What each difficulty means to the model.
+const DIFFICULTY_GUIDANCE: Record<ScenarioDifficulty, string> = {
+  easy: "A clear dilemma with a small number of trade-offs; suitable for teams new to simulations.",
+  medium: "Several competing trade-offs and incomplete information.",
+  hard: "Deeply ambiguous, with conflicting stakeholder demands, time pressure and no option free of serious downside.",
+};
+
 /**
  * Creates the system instruction based on the context you provided.
  * This tells the AI its role and the overall goal.
  */
-function getSystemInstruction(): string {
+function getSystemInstruction(count: number): string {
   return `
     You are 'ScenarioGen-Pro', an expert designer of corporate training simulators.
-    Your task is to analyze a team's domain and size, then generate a list of 10 compelling, scenario-based simulators.
+    Your task is to analyze a team's domain and size, then generate a list of ${count} compelling, scenario-based simulators.
 
     CONTEXT:
     - PROBLEM: The goal is to create a digital simulator that places teams in real-world ethical or strategic dilemmas to study how they make decisions under pressure.
     - IDEAS: These scenarios must have multiple decision paths. They will be used to understand and improve how teams make decisions collectively.
     - GOAL: The scenarios should be complex, with no easy or obvious right answer, forcing the team to collaborate, reason, and confront potential biases.
 
-    You MUST return your response as a JSON array of 10 objects, matching the provided schema. Do not include any other text, markdown, or explanation—just the valid JSON array.
+    Follow every requirement in the user's request (difficulty, scenario types, time horizon, stakeholders, company context, excluded topics).
+
+    You MUST return your response as a JSON array of ${count} objects, matching the provided schema. Do not include any other text, markdown, or explanation—just the valid JSON array.
   `;
 }
 
 /**
  * Creates the user-specific prompt.
  */
-function buildUserPrompt(teamSize: number, domain: string): string {
+function buildUserPrompt(teamSize: number, domain: string, options: GenerationOptions): string {
+  const requirements = [
+    `- Difficulty: ${options.difficulty}. ${DIFFICULTY_GUIDANCE[options.difficulty]}`,
+    options.scenarioTypes.length > 0 &&
+      `- Scenario types: only ${options.scenarioTypes.map((type) => SCENARIO_TYPES[type]).join(", ")} dilemmas.`,
+    options.timeHorizon && `- Time horizon: ${TIME_HORIZONS[options.timeHorizon]}.`,
+    options.stakeholders.length > 0 &&
+      `- Stakeholders to involve: ${options.stakeholders.join(", ")}.`,
+    options.companyContext && `- Company context: ${options.companyContext}`,
+    options.excludedTopics.length > 0 &&
+      `- Do NOT include scenarios about: ${options.excludedTopics.join(", ")}.`,
+  ].filter(Boolean);
+
   return `
-    Generate 10 unique scenarios for a team of ${teamSize} people in the ${domain} domain.
+    Generate ${options.count} unique scenarios for a team of ${teamSize} people in the ${domain} domain.
+
+    REQUIREMENTS:
+    ${requirements.join("\n    ")}
   `;
 }
 
@@ -81,7 +110,8 @@ function buildUserPrompt(teamSize: number, domain: string): string {
 export async function POST(request: Request) {
   try {
     // 1. Parse the incoming request body
-    const { teamSize, domain } = (await request.json()) as { teamSize?: number, domain?: string };
+    const body = (await request.json()) as Record<string, unknown>;
+    const { teamSize, domain } = body as { teamSize?: number, domain?: string };
 
     // 2. Validate the inputs
     if (!teamSize || typeof teamSize !== 'number' || teamSize <= 0) {
@@ -90,60 +120,30 @@ export async function POST(request: Request) {
     if (!domain || typeof domain !== 'string' || domain.trim() === '') {
       return NextResponse.json({ error: "Invalid 'domain' provided. Must be a non-empty string." }, { status: 400 });
     }
-
-    const systemInstruction = getSystemInstruction();
-    const userPrompt = buildUserPrompt(teamSize, domain);
-
-    // 3. Construct the payload for the Gemini API
-    const payload = {
-      contents: [{ parts: [{ text: userPrompt }] }],
-      systemInstruction: {
-        parts: [{ text: systemInstruction }]
-      },
-      generationConfig: {
-        temperature: 0.8, // Increased for more creative scenarios
-        maxOutputTokens: 8192, // Ample space for 10 detailed scenarios
-        responseMimeType: "application/json",
-        responseSchema: responseSchema
-      },
-      safetySettings,
-    };
-
-    // 4. Make the API call using fetch
-    const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-    });
-
-    if (!response.ok) {
-        const errorBody = await response.text();
-        console.error("Error from Gemini API:", errorBody);
-        return NextResponse.json({ error: `Gemini API error: ${response.statusText}`, details: errorBody }, { status: response.status });
+    const { options, errors } = parseGenerationOptions(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid generation options provided.", details: errors }, { status: 400 });
     }
 
-    const result = await response.json();
-    
-    // 5. Extract the generated text
-    const candidate = result.candidates?.[0];
-    if (!candidate || !candidate.content?.parts?.[0]?.text) {
-      console.error("Invalid response structure from Gemini:", result);
-      return NextResponse.json({ error: "Invalid response structure from AI model" }, { status: 500 });
-    }
+    const systemInstruction = getSystemInstruction(options.count);
+    const userPrompt = buildUserPrompt(teamSize, domain, options);
 
-    // 6. Parse the JSON string from the AI
-    // The 'text' part *is* the JSON string we asked for.
-    const scenariosJson = candidate.content.parts[0].text;
-    const scenarios = JSON.parse(scenariosJson); // Parse the string into a real JSON array
+    // 3. Ask the model for the scenario list
+    const scenarios = await getLlmProvider().generateJson<GeneratedScenario[]>({
+      systemInstruction,
+      prompt: userPrompt,
+      temperature: 0.8, // Increased for more creative scenarios
+      maxOutputTokens: 8192, // Ample space for 20 detailed scenarios
+      schema: buildResponseSchema(options),
+    });
 
-    // 7. Send the structured JSON array to the frontend
+    // 4. Send the structured JSON array to the frontend
     return NextResponse.json(scenarios);
 
   } catch (error) {
     console.error("Error in API route:", error);
-    if (error instanceof SyntaxError) {
-        // This catches errors from JSON.parse()
-        return NextResponse.json({ error: "Failed to parse AI response as JSON." }, { status: 500 });
+    if (error instanceof LlmError) {
+        return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
     }
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
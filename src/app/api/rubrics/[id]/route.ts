@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { DEFAULT_RUBRIC, parseRubricDraft } from '@/lib/simulation/rubrics';
+import { ConflictError, findRubric, getRubricRepository, NotFoundError } from '@/lib/storage';
+
+// --- GET /api/rubrics/:id ---
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const rubric = await findRubric(id);
+    if (!rubric) throw new NotFoundError('rubrics', id);
+    return NextResponse.json(rubric);
+
+  } catch (error) {
+    return errorResponse(error, '/api/rubrics/:id');
+  }
+}
+
+// --- PATCH /api/rubrics/:id ---
+// Edits the fields that were sent. Analyses already made keep their scores;
+// new ones use the edited metrics.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (id === DEFAULT_RUBRIC.id) {
+      throw new ConflictError('The default rubric cannot be edited. Copy it instead.');
+    }
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseRubricDraft(body, true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid rubric provided.", details: errors }, { status: 400 });
+    }
+
+    const rubric = await getRubricRepository().update(id, draft);
+    return NextResponse.json(rubric);
+
+  } catch (error) {
+    return errorResponse(error, '/api/rubrics/:id');
+  }
+}
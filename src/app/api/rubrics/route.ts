@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { DEFAULT_RUBRIC, parseRubricDraft } from '@/lib/simulation/rubrics';
+import { getRubricRepository } from '@/lib/storage';
+import { RubricDraft } from '@/lib/types';
+
+// --- GET /api/rubrics ---
+// The built-in default first, then the saved rubrics, most recently
+// updated first.
+export async function GET() {
+  try {
+    const rubrics = await getRubricRepository().list();
+    return NextResponse.json([DEFAULT_RUBRIC, ...rubrics]);
+
+  } catch (error) {
+    return errorResponse(error, '/api/rubrics');
+  }
+}
+
+// --- POST /api/rubrics ---
+// Saves a new rubric. Copies of the default are made by sending its metrics.
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseRubricDraft(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid rubric provided.", details: errors }, { status: 400 });
+    }
+
+    const rubric = await getRubricRepository().create(draft as RubricDraft);
+    return NextResponse.json(rubric, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/rubrics');
+  }
+}
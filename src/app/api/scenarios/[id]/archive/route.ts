@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { getScenarioRepository } from '@/lib/storage';
+
+// --- POST /api/scenarios/:id/archive ---
+// Hides a scenario from the picker; `{ "archived": false }` restores it.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { archived = true } = (await request.json().catch(() => ({}))) as { archived?: boolean };
+
+    if (typeof archived !== 'boolean') {
+      return NextResponse.json({ error: "Invalid 'archived' provided. Must be a boolean." }, { status: 400 });
+    }
+
+    const scenario = await getScenarioRepository().setArchived(id, archived);
+    return NextResponse.json(scenario);
+
+  } catch (error) {
+    return errorResponse(error, '/api/scenarios/:id/archive');
+  }
+}
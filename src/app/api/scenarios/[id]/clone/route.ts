@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { toDraft } from '@/lib/simulation/library';
+import { getScenarioRepository, NotFoundError } from '@/lib/storage';
+
+// --- POST /api/scenarios/:id/clone ---
+// Copies a scenario into a new, unarchived library entry to be edited.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const repository = getScenarioRepository();
+
+    // 1. Load the original
+    const original = await repository.get(id);
+    if (!original) throw new NotFoundError('scenarios', id);
+
+    // 2. Save the copy, remembering where it came from
+    const draft = toDraft(original);
+    const copy = await repository.create({ ...draft, title: `${draft.title} (copy)` }, id);
+    return NextResponse.json(copy, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/scenarios/:id/clone');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { parseScenarioDraft } from '@/lib/simulation/library';
+import { checkPersonasAllowed } from '@/lib/simulation/personas';
+import { findRubric, getScenarioRepository, NotFoundError } from '@/lib/storage';
+
+// --- GET /api/scenarios/:id ---
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const scenario = await getScenarioRepository().get(id);
+    if (!scenario) throw new NotFoundError('scenarios', id);
+    return NextResponse.json(scenario);
+
+  } catch (error) {
+    return errorResponse(error, '/api/scenarios/:id');
+  }
+}
+
+// --- PATCH /api/scenarios/:id ---
+// Edits the fields that were sent. Simulations already run keep their copy.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseScenarioDraft(body, true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid scenario provided.", details: errors }, { status: 400 });
+    }
+    if (draft.rubricId && !(await findRubric(draft.rubricId))) {
+      throw new NotFoundError('rubrics', draft.rubricId);
+    }
+    const existing = await getScenarioRepository().get(id);
+    if (!existing) throw new NotFoundError('scenarios', id);
+    const problems = checkPersonasAllowed({ ...existing, ...draft });
+    if (problems.length > 0) {
+      return NextResponse.json({ error: "Invalid scenario provided.", details: problems }, { status: 400 });
+    }
+
+    const scenario = await getScenarioRepository().update(id, draft);
+    return NextResponse.json(scenario);
+
+  } catch (error) {
+    return errorResponse(error, '/api/scenarios/:id');
+  }
+}
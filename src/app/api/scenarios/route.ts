@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { parseScenarioDraft } from '@/lib/simulation/library';
+import { findRubric, getScenarioRepository, NotFoundError } from '@/lib/storage';
+import { ScenarioDraft } from '@/lib/types';
+
+// --- GET /api/scenarios ---
+// The library, most recently updated first. `?archived=include` adds
+// archived scenarios.
+export async function GET(request: NextRequest) {
+  try {
+    const includeArchived = request.nextUrl.searchParams.get('archived') === 'include';
+    const scenarios = await getScenarioRepository().list({ includeArchived });
+    return NextResponse.json(scenarios);
+
+  } catch (error) {
+    return errorResponse(error, '/api/scenarios');
+  }
+}
+
+// --- POST /api/scenarios ---
+// Saves a scenario (generated or authored) to the library.
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseScenarioDraft(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid scenario provided.", details: errors }, { status: 400 });
+    }
+    if (draft.rubricId && !(await findRubric(draft.rubricId))) {
+      throw new NotFoundError('rubrics', draft.rubricId);
+    }
+
+    const scenario = await getScenarioRepository().create(draft as ScenarioDraft);
+    return NextResponse.json(scenario, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/scenarios');
+  }
+}
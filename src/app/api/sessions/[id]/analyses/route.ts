@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { getSimulationRepository } from '@/lib/storage';
+
+// --- GET /api/sessions/:id/analyses ---
+// The simulation's analysis history, newest first, for the version picker
+// and diff on the report page. Analyses made before versioning aren't in it.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const repository = getSimulationRepository();
+    if (!(await repository.get(id))) {
+      return NextResponse.json({ error: 'Simulation not found' }, { status: 404 });
+    }
+    return NextResponse.json(await repository.listAnalyses(id));
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/analyses');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { parseDebriefAnswers } from '@/lib/simulation/ending';
+import { submitDebrief } from '@/lib/simulation/sessions';
+
+// --- POST /api/sessions/:id/debrief ---
+// Stores the team's answers to the debrief questions (one string per
+// question, blank to skip it) and completes the simulation.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { answers: body } = (await request.json()) as { answers?: unknown };
+
+    const { answers, errors } = parseDebriefAnswers(body ?? []);
+    if (!answers) {
+      return NextResponse.json({ error: "Invalid 'answers' provided.", details: errors }, { status: 400 });
+    }
+
+    const simulation = await submitDebrief(id, answers);
+    return NextResponse.json(simulation);
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/debrief');
+  }
+}
@@ -0,0 +1,47 @@
+import { EVENT_STREAM_HEADERS, errorResponse } from '@/lib/api';
+import { watchSimulation } from '@/lib/simulation/room-feed';
+import { formatEvent } from '@/lib/sse';
+import { getSimulationRepository, NotFoundError } from '@/lib/storage';
+
+// --- GET /api/sessions/:id/events ---
+// Keeps every device in a room in sync. Sends `simulation { simulation }`
+// on connect and whenever the transcript, participants or status change, and
+// closes once the session is over, debrief included.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let id: string;
+  try {
+    ({ id } = await params);
+    if (!(await getSimulationRepository().get(id))) throw new NotFoundError('simulations', id);
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/events');
+  }
+
+  const encoder = new TextEncoder();
+  // Set once the client disconnects or the room is over; the stream can't
+  // be written to after that
+  let closed = false;
+  let unwatch = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      unwatch = watchSimulation(id, {
+        update(simulation) {
+          if (!closed) controller.enqueue(encoder.encode(formatEvent('simulation', { simulation })));
+        },
+        end() {
+          if (closed) return;
+          closed = true;
+          controller.close();
+        },
+      });
+    },
+    cancel() {
+      closed = true;
+      unwatch();
+    },
+  });
+
+  return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { finishSession } from '@/lib/simulation/sessions';
+
+// --- POST /api/sessions/:id/finish ---
+// Ends the simulation: the host closes it and the team moves on to the
+// debrief (POST /api/sessions/:id/debrief), after which it can be analyzed.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const simulation = await finishSession(id);
+    return NextResponse.json(simulation);
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/finish');
+  }
+}
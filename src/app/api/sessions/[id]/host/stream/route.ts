@@ -0,0 +1,20 @@
+import { errorResponse, turnStreamResponse } from '@/lib/api';
+import { streamHostReply } from '@/lib/simulation/sessions';
+
+// --- POST /api/sessions/:id/host/stream ---
+// The facilitator hands the room's discussion to the host. Streams the reply
+// like /turns/stream.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let turn;
+  try {
+    const { id } = await params;
+    turn = await streamHostReply(id, request.signal);
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/host/stream');
+  }
+
+  return turnStreamResponse(turn, request.signal, '/api/sessions/:id/host/stream');
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { postMessage } from '@/lib/simulation/sessions';
+
+// --- POST /api/sessions/:id/messages ---
+// A room member's message, recorded under their name. The member is known by
+// the token their device was given when they joined. The host doesn't reply.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { token, content } = (await request.json()) as { token?: string; content?: string };
+
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: "Invalid 'token' provided. Must be a string." }, { status: 400 });
+    }
+    if (!content || typeof content !== 'string' || content.trim() === '') {
+      return NextResponse.json({ error: "Invalid 'content' provided. Must be a non-empty string." }, { status: 400 });
+    }
+
+    const simulation = await postMessage(id, token, content.trim());
+    return NextResponse.json(simulation, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/messages');
+  }
+}
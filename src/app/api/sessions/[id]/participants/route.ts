@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { addSpeaker } from '@/lib/simulation/sessions';
+
+const MAX_NAME_LENGTH = 40;
+
+// --- POST /api/sessions/:id/participants ---
+// Adds a speaker to the room from the facilitator's screen, so turns typed
+// on their behalf can be attributed. Returns the simulation and participant.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { name } = (await request.json()) as { name?: string };
+
+    if (!name || typeof name !== 'string' || name.trim() === '' || name.trim().length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Invalid 'name' provided. Must be 1-${MAX_NAME_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const added = await addSpeaker(id, name.trim());
+    return NextResponse.json(added, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/participants');
+  }
+}
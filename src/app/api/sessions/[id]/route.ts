@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { getSimulationRepository } from '@/lib/storage';
+
+// --- GET /api/sessions/:id ---
+// Returns the stored simulation so an interview can be resumed.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const simulation = await getSimulationRepository().get(id);
+
+    if (!simulation) {
+      return NextResponse.json({ error: 'Simulation not found' }, { status: 404 });
+    }
+    return NextResponse.json(simulation);
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id');
+  }
+}
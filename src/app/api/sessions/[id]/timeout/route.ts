@@ -0,0 +1,21 @@
+import { errorResponse, turnStreamResponse } from '@/lib/api';
+import { expireTimer } from '@/lib/simulation/sessions';
+
+// --- POST /api/sessions/:id/timeout ---
+// Called by the interview page when a clock reaches zero. The server checks
+// the deadline itself (409 if it hasn't passed) and streams the host's
+// reaction like /turns/stream.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let turn;
+  try {
+    const { id } = await params;
+    turn = await expireTimer(id, request.signal);
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/timeout');
+  }
+
+  return turnStreamResponse(turn, request.signal, '/api/sessions/:id/timeout');
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { takeTurn } from '@/lib/simulation/sessions';
+
+// --- POST /api/sessions/:id/turns ---
+// Appends the team's response and the host's reply, returning the simulation.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { content = '', optionId, participantId } = (await request.json()) as {
+      content?: string;
+      optionId?: string;
+      participantId?: string;
+    };
+
+    // Picking an option at a choice node needs no text of its own.
+    if (typeof content !== 'string' || (content.trim() === '' && !optionId)) {
+      return NextResponse.json({ error: "Invalid 'content' provided. Must be a non-empty string." }, { status: 400 });
+    }
+    if (optionId !== undefined && typeof optionId !== 'string') {
+      return NextResponse.json({ error: "Invalid 'optionId' provided. Must be a string." }, { status: 400 });
+    }
+    if (participantId !== undefined && typeof participantId !== 'string') {
+      return NextResponse.json({ error: "Invalid 'participantId' provided. Must be a string." }, { status: 400 });
+    }
+
+    const simulation = await takeTurn(id, { content: content.trim(), optionId, participantId });
+    return NextResponse.json(simulation);
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/turns');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, turnStreamResponse } from '@/lib/api';
+import { streamTurn } from '@/lib/simulation/sessions';
+
+// --- POST /api/sessions/:id/turns/stream ---
+// Same as /turns, but answers with server-sent events (see `turnStreamResponse`).
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let turn;
+  try {
+    const { id } = await params;
+    const { content = '', optionId, participantId } = (await request.json()) as {
+      content?: string;
+      optionId?: string;
+      participantId?: string;
+    };
+
+    // Picking an option at a choice node needs no text of its own.
+    if (typeof content !== 'string' || (content.trim() === '' && !optionId)) {
+      return NextResponse.json({ error: "Invalid 'content' provided. Must be a non-empty string." }, { status: 400 });
+    }
+    if (optionId !== undefined && typeof optionId !== 'string') {
+      return NextResponse.json({ error: "Invalid 'optionId' provided. Must be a string." }, { status: 400 });
+    }
+    if (participantId !== undefined && typeof participantId !== 'string') {
+      return NextResponse.json({ error: "Invalid 'participantId' provided. Must be a string." }, { status: 400 });
+    }
+
+    turn = await streamTurn(id, { content: content.trim(), optionId, participantId }, request.signal);
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/:id/turns/stream');
+  }
+
+  return turnStreamResponse(turn, request.signal, '/api/sessions/:id/turns/stream');
+}
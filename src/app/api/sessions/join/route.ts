@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { joinSession } from '@/lib/simulation/sessions';
+
+const MAX_NAME_LENGTH = 40;
+
+// --- POST /api/sessions/join ---
+// Joins a live room by its code. Returns the simulation, the new
+// participant and their token, which the member's device sends with each
+// message. No other response includes the token.
+export async function POST(request: Request) {
+  try {
+    const { code, name } = (await request.json()) as { code?: string; name?: string };
+
+    if (!code || typeof code !== 'string' || code.trim() === '') {
+      return NextResponse.json({ error: "Invalid 'code' provided. Must be a non-empty string." }, { status: 400 });
+    }
+    if (!name || typeof name !== 'string' || name.trim() === '' || name.trim().length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Invalid 'name' provided. Must be 1-${MAX_NAME_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const joined = await joinSession(code, name.trim());
+    return NextResponse.json(joined, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions/join');
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { parseDebriefQuestions, parseEndConditions } from '@/lib/simulation/ending';
+import { validateScenarioGraph } from '@/lib/simulation/graph';
+import { toScenario } from '@/lib/simulation/library';
+import { checkPersonasAllowed, parsePersonas } from '@/lib/simulation/personas';
+import { parseScenarioTiming } from '@/lib/simulation/timing';
+import { startSession } from '@/lib/simulation/sessions';
+import { ConflictError, findRubric, getScenarioRepository, getTeamRepository, NotFoundError } from '@/lib/storage';
+import { Scenario } from '@/lib/types';
+
+// --- POST /api/sessions ---
+// Creates a simulation and returns it with the host's opening prompt.
+// The scenario is either sent inline or picked from the library by `scenarioId`.
+// With `teamId`, the simulation joins that team's profile.
+export async function POST(request: Request) {
+  try {
+    const { teamSize, domain, scenarioId, teamId, scenario: inlineScenario } = (await request.json()) as {
+      teamSize?: number;
+      domain?: string;
+      scenario?: Scenario;
+      scenarioId?: string;
+      teamId?: string;
+    };
+    let scenario = inlineScenario;
+
+    if (!teamSize || typeof teamSize !== 'number' || teamSize <= 0) {
+      return NextResponse.json({ error: "Invalid 'teamSize' provided. Must be a positive number." }, { status: 400 });
+    }
+    if (!domain || typeof domain !== 'string' || domain.trim() === '') {
+      return NextResponse.json({ error: "Invalid 'domain' provided. Must be a non-empty string." }, { status: 400 });
+    }
+    if (teamId !== undefined) {
+      if (typeof teamId !== 'string') {
+        return NextResponse.json({ error: "Invalid 'teamId' provided. Must be a string." }, { status: 400 });
+      }
+      if (!(await getTeamRepository().get(teamId))) throw new NotFoundError('teams', teamId);
+    }
+    if (scenarioId !== undefined) {
+      if (typeof scenarioId !== 'string') {
+        return NextResponse.json({ error: "Invalid 'scenarioId' provided. Must be a string." }, { status: 400 });
+      }
+      const saved = await getScenarioRepository().get(scenarioId);
+      if (!saved) throw new NotFoundError('scenarios', scenarioId);
+      if (saved.archived) throw new ConflictError('Scenario is archived');
+      scenario = toScenario(saved);
+    }
+    if (!scenario || !scenario.title || !scenario.description || !scenario.keyDecision) {
+      return NextResponse.json({ error: "Invalid 'scenario' provided." }, { status: 400 });
+    }
+    if (scenario.graph) {
+      const problems = validateScenarioGraph(scenario.graph);
+      if (problems.length > 0) {
+        return NextResponse.json({ error: "Invalid 'scenario.graph' provided.", details: problems }, { status: 400 });
+      }
+    }
+
+    if (scenario.timing !== undefined) {
+      const { timing, errors } = parseScenarioTiming(scenario.timing);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: "Invalid 'scenario.timing' provided.", details: errors }, { status: 400 });
+      }
+      scenario = { ...scenario, timing };
+      // Without a clock the session is untimed
+      if (!timing) delete scenario.timing;
+    }
+    if (scenario.personas !== undefined) {
+      const { personas, errors } = parsePersonas(scenario.personas);
+      errors.push(...checkPersonasAllowed({ graph: scenario.graph, personas }));
+      if (errors.length > 0) {
+        return NextResponse.json({ error: "Invalid 'scenario.personas' provided.", details: errors }, { status: 400 });
+      }
+      scenario = { ...scenario, personas };
+    }
+    if (scenario.endConditions !== undefined) {
+      const { endConditions, errors } = parseEndConditions(scenario.endConditions);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: "Invalid 'scenario.endConditions' provided.", details: errors }, { status: 400 });
+      }
+      scenario = { ...scenario, endConditions };
+    }
+    if (scenario.debriefQuestions !== undefined) {
+      const { questions, errors } = parseDebriefQuestions(scenario.debriefQuestions);
+      if (errors.length > 0) {
+        return NextResponse.json({ error: "Invalid 'scenario.debriefQuestions' provided.", details: errors }, { status: 400 });
+      }
+      scenario = { ...scenario, debriefQuestions: questions };
+    }
+    if (scenario.rubricId !== undefined) {
+      if (typeof scenario.rubricId !== 'string') {
+        return NextResponse.json({ error: "Invalid 'scenario.rubricId' provided. Must be a string." }, { status: 400 });
+      }
+      if (!(await findRubric(scenario.rubricId))) throw new NotFoundError('rubrics', scenario.rubricId);
+    }
+
+    const simulation = await startSession({ teamSize, domain, scenario, scenarioId, teamId });
+    return NextResponse.json(simulation, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/sessions');
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { DEFAULT_SKILL_FRAMEWORK, parseSkillFrameworkDraft } from '@/lib/simulation/skills';
+import { ConflictError, findSkillFramework, getSkillFrameworkRepository, NotFoundError } from '@/lib/storage';
+
+// --- GET /api/skill-frameworks/:id ---
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const framework = await findSkillFramework(id);
+    if (!framework) throw new NotFoundError('skillFrameworks', id);
+    return NextResponse.json(framework);
+
+  } catch (error) {
+    return errorResponse(error, '/api/skill-frameworks/:id');
+  }
+}
+
+// --- PATCH /api/skill-frameworks/:id ---
+// Edits the fields that were sent. Nothing is stored per skill, so WorkDNA
+// profiles follow the edited framework straight away.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (id === DEFAULT_SKILL_FRAMEWORK.id) {
+      throw new ConflictError('The default skill framework cannot be edited. Copy it instead.');
+    }
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseSkillFrameworkDraft(body, true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid skill framework provided.", details: errors }, { status: 400 });
+    }
+
+    const framework = await getSkillFrameworkRepository().update(id, draft);
+    return NextResponse.json(framework);
+
+  } catch (error) {
+    return errorResponse(error, '/api/skill-frameworks/:id');
+  }
+}
+
+// --- DELETE /api/skill-frameworks/:id ---
+// WorkDNA profiles keep no copy of a framework, so they simply stop
+// offering it.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (id === DEFAULT_SKILL_FRAMEWORK.id) {
+      throw new ConflictError('The default skill framework cannot be deleted.');
+    }
+    await getSkillFrameworkRepository().remove(id);
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/skill-frameworks/:id');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { DEFAULT_SKILL_FRAMEWORK, parseSkillFrameworkDraft } from '@/lib/simulation/skills';
+import { getSkillFrameworkRepository } from '@/lib/storage';
+import { SkillFrameworkDraft } from '@/lib/types';
+
+// --- GET /api/skill-frameworks ---
+// The built-in default first, then the saved frameworks, most recently
+// updated first.
+export async function GET() {
+  try {
+    const frameworks = await getSkillFrameworkRepository().list();
+    return NextResponse.json([DEFAULT_SKILL_FRAMEWORK, ...frameworks]);
+
+  } catch (error) {
+    return errorResponse(error, '/api/skill-frameworks');
+  }
+}
+
+// --- POST /api/skill-frameworks ---
+// Saves a new framework. Copies and imported files are sent the same way.
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseSkillFrameworkDraft(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid skill framework provided.", details: errors }, { status: 400 });
+    }
+
+    const framework = await getSkillFrameworkRepository().create(draft as SkillFrameworkDraft);
+    return NextResponse.json(framework, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/skill-frameworks');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { DEFAULT_RUBRIC } from '@/lib/simulation/rubrics';
+import { buildTeamProfile } from '@/lib/simulation/teams';
+import {
+  getRubricRepository,
+  getScenarioRepository,
+  getSimulationRepository,
+  getTeamRepository,
+  NotFoundError,
+} from '@/lib/storage';
+
+// --- GET /api/teams/:id/profile ---
+// The team's scores over time, metric trends, recurring growth areas and
+// the next scenario to run, from its analyzed simulations.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const team = await getTeamRepository().get(id);
+    if (!team) throw new NotFoundError('teams', id);
+
+    const [simulations, library, rubrics] = await Promise.all([
+      getSimulationRepository().listByTeam(id),
+      getScenarioRepository().list(),
+      getRubricRepository().list(),
+    ]);
+    return NextResponse.json(buildTeamProfile(team, simulations, library, [DEFAULT_RUBRIC, ...rubrics]));
+
+  } catch (error) {
+    return errorResponse(error, '/api/teams/:id/profile');
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { parseTeamDraft } from '@/lib/simulation/teams';
+import { getTeamRepository, NotFoundError } from '@/lib/storage';
+
+// --- GET /api/teams/:id ---
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const team = await getTeamRepository().get(id);
+    if (!team) throw new NotFoundError('teams', id);
+    return NextResponse.json(team);
+
+  } catch (error) {
+    return errorResponse(error, '/api/teams/:id');
+  }
+}
+
+// --- PATCH /api/teams/:id ---
+// Edits the fields that were sent. Past simulations keep the team size they
+// were run with.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseTeamDraft(body, true);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid team provided.", details: errors }, { status: 400 });
+    }
+
+    const team = await getTeamRepository().update(id, draft);
+    return NextResponse.json(team);
+
+  } catch (error) {
+    return errorResponse(error, '/api/teams/:id');
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { buildWorkDna } from '@/lib/simulation/skills';
+import { findSkillFramework, getSimulationRepository, getTeamRepository, NotFoundError } from '@/lib/storage';
+
+// --- GET /api/teams/:id/workdna ---
+// The team's skill levels from its analyzed simulations, or one member's
+// with `?member=<name>`. `?framework=<id>` picks the skill framework; the
+// default otherwise.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const team = await getTeamRepository().get(id);
+    if (!team) throw new NotFoundError('teams', id);
+
+    // 1. Resolve the member, matching names the way the team editor does
+    const query = new URL(request.url).searchParams;
+    const name = query.get('member')?.trim();
+    const member = name ? team.members.find((m) => m.name.toLowerCase() === name.toLowerCase()) : undefined;
+    if (name && !member) throw new NotFoundError('members', name);
+
+    // 2. Load the framework
+    const frameworkId = query.get('framework') ?? undefined;
+    const framework = await findSkillFramework(frameworkId);
+    if (!framework) throw new NotFoundError('skillFrameworks', frameworkId!);
+
+    // 3. Work out the skills
+    const simulations = await getSimulationRepository().listByTeam(id);
+    return NextResponse.json(buildWorkDna(team, simulations, framework, member?.name));
+
+  } catch (error) {
+    return errorResponse(error, '/api/teams/:id/workdna');
+  }
+}
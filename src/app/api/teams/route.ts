@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api';
+import { parseTeamDraft } from '@/lib/simulation/teams';
+import { getTeamRepository } from '@/lib/storage';
+import { TeamDraft } from '@/lib/types';
+
+// --- GET /api/teams ---
+// Every team, alphabetical by name.
+export async function GET() {
+  try {
+    return NextResponse.json(await getTeamRepository().list());
+
+  } catch (error) {
+    return errorResponse(error, '/api/teams');
+  }
+}
+
+// --- POST /api/teams ---
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as Record<string, unknown>;
+
+    const { draft, errors } = parseTeamDraft(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: "Invalid team provided.", details: errors }, { status: 400 });
+    }
+
+    const team = await getTeamRepository().create(draft as TeamDraft);
+    return NextResponse.json(team, { status: 201 });
+
+  } catch (error) {
+    return errorResponse(error, '/api/teams');
+  }
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Bar,
+  BarChart,
+  Legend,
+  PolarAngleAxis,
+  PolarGrid,
+  PolarRadiusAxis,
+  Radar,
+  RadarChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ArrowLeft, XCircle } from 'lucide-react';
+import { ComparedSimulation, SimulationComparison } from '@/lib/types';
+
+// One colour per simulation, in label order (A, B, ...)
+const SERIES_COLORS = ['#2563eb', '#d97706', '#16a34a', '#dc2626', '#7c3aed', '#0891b2'];
+
+// --- Compare Page Component ---
+// Reads the simulations to compare from `?ids=a,b,c` (set by the dashboard).
+function ComparePageContent() {
+  const searchParams = useSearchParams();
+  const ids = (searchParams.get('ids') ?? '').split(',').filter(Boolean);
+  const idsKey = ids.join(',');
+
+  const [comparison, setComparison] = useState<SimulationComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchComparison() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const response = await fetch('/api/compare', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids: idsKey.split(',').filter(Boolean) }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.details?.join('; ') || data?.error || 'Failed to compare simulations');
+        }
+        setComparison(data as SimulationComparison);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchComparison();
+  }, [idsKey]);
+
+  // --- Helper Functions ---
+
+  // One row per metric with a column per simulation label, for both charts
+  const toChartData = ({ simulations, metrics }: SimulationComparison) =>
+    metrics.map((metric) => ({
+      metric,
+      ...Object.fromEntries(simulations.map((s) => [s.label, s.heatmapData[metric] ?? 0])),
+    }));
+
+  // Deltas are against the first simulation picked (A)
+  const renderDelta = (value: number | undefined, baseline: number | undefined) => {
+    if (value === undefined || baseline === undefined || value === baseline) return null;
+    const delta = Math.round((value - baseline) * 10) / 10;
+    return (
+      <span className={`ml-1 text-xs ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+        {delta > 0 ? `+${delta}` : delta}
+      </span>
+    );
+  };
+
+  // --- Render Functions ---
+
+  const renderSimulations = (simulations: ComparedSimulation[]) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">Compare Simulations</CardTitle>
+        <CardDescription>Deltas are shown against simulation A.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {simulations.map((s, i) => (
+          <div key={s.id} className="rounded-md border p-3 space-y-1 text-sm">
+            <div className="flex items-center gap-2">
+              <span
+                className="inline-flex h-6 w-6 items-center justify-center rounded-full text-white font-bold"
+                style={{ backgroundColor: SERIES_COLORS[i] }}
+              >
+                {s.label}
+              </span>
+              <a href={`/dashboard/simulations/${s.id}`} className="font-medium hover:underline">
+                {s.scenarioTitle}
+              </a>
+            </div>
+            <div className="text-muted-foreground">
+              {s.domain} · team of {s.teamSize} · {new Date(s.createdAt).toLocaleDateString()}
+            </div>
+            <div className="font-bold">
+              {s.overallScore} / 100
+              {renderDelta(s.overallScore, simulations[0].overallScore)}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+
+  const renderCharts = (data: SimulationComparison) => {
+    const chartData = toChartData(data);
+    const rubrics = new Set(data.simulations.map((s) => s.rubricId));
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Performance Metrics</CardTitle>
+          <CardDescription>
+            Scores from 1 (Low) to 10 (High)
+            {rubrics.size > 1 && ' — scored against different rubrics, so unshared metrics show as 0'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-6 lg:grid-cols-2">
+          <div className="h-[360px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <RadarChart data={chartData} outerRadius="70%">
+                <PolarGrid />
+                <PolarAngleAxis dataKey="metric" fontSize={11} />
+                <PolarRadiusAxis domain={[0, 10]} tickCount={6} fontSize={10} />
+                {data.simulations.map((s, i) => (
+                  <Radar
+                    key={s.id}
+                    name={s.label}
+                    dataKey={s.label}
+                    stroke={SERIES_COLORS[i]}
+                    fill={SERIES_COLORS[i]}
+                    fillOpacity={0.15}
+                  />
+                ))}
+                <Legend />
+                <Tooltip />
+              </RadarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="h-[360px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical" margin={{ left: 40 }}>
+                <XAxis type="number" domain={[0, 10]} />
+                <YAxis type="category" dataKey="metric" width={110} fontSize={11} />
+                {data.simulations.map((s, i) => (
+                  <Bar key={s.id} dataKey={s.label} fill={SERIES_COLORS[i]} />
+                ))}
+                <Legend />
+                <Tooltip />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderDeltas = ({ simulations, metrics }: SimulationComparison) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>Score Deltas</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metric</TableHead>
+              {simulations.map((s) => (
+                <TableHead key={s.id}>{s.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell className="font-medium">Overall (/100)</TableCell>
+              {simulations.map((s) => (
+                <TableCell key={s.id} className="font-bold">
+                  {s.overallScore}
+                  {renderDelta(s.overallScore, simulations[0].overallScore)}
+                </TableCell>
+              ))}
+            </TableRow>
+            {metrics.map((metric) => (
+              <TableRow key={metric}>
+                <TableCell>{metric}</TableCell>
+                {simulations.map((s) => (
+                  <TableCell key={s.id}>
+                    {s.heatmapData[metric] ?? '–'}
+                    {renderDelta(s.heatmapData[metric], simulations[0].heatmapData[metric])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+
+  const renderDecisions = ({ simulations, decisions }: SimulationComparison) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>Divergent Decisions</CardTitle>
+        <CardDescription>Where the simulations went different ways</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {decisions.length === 0 ? (
+          <p className="text-muted-foreground">They made the same decisions throughout.</p>
+        ) : (
+          decisions.map((decision, i) => (
+            <div key={i} className="space-y-1">
+              <div className="font-medium">{decision.point}</div>
+              <ul className="space-y-1">
+                {decision.choices.map((choice) => {
+                  const index = simulations.findIndex((s) => s.id === choice.simulationId);
+                  return (
+                    <li key={choice.simulationId} className="flex items-start gap-2">
+                      <Badge style={{ backgroundColor: SERIES_COLORS[index] }}>
+                        {simulations[index]?.label}
+                      </Badge>
+                      <span>{choice.choice}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderNarrative = (narrative: string) => (
+    <Card className="bg-gradient-to-br from-primary/10 to-transparent">
+      <CardHeader>
+        <CardTitle>What Set Them Apart</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {narrative.split(/\n+/).map((paragraph, i) => (
+          <p key={i}>{paragraph}</p>
+        ))}
+      </CardContent>
+    </Card>
+  );
+
+  // --- Main Return ---
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <a href="/dashboard">
+          <ArrowLeft /> Dashboard
+        </a>
+      </Button>
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-[360px] w-full" />
+        </div>
+      ) : error || !comparison ? (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <XCircle /> Error
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>Could not compare simulations: {error}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {renderSimulations(comparison.simulations)}
+          {renderNarrative(comparison.narrative)}
+          {renderCharts(comparison)}
+          <div className="grid gap-6 lg:grid-cols-2">
+            {renderDeltas(comparison)}
+            {renderDecisions(comparison)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense fallback={<Skeleton className="m-8 h-32" />}>
+      <ComparePageContent />
+    </Suspense>
+  );
+}
@@ -19,14 +19,18 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { XCircle, Loader2, ListTree } from 'lucide-react';
+import { XCircle, Loader2, ListTree, PlayCircle, GitCompare } from 'lucide-react';
+import { MAX_COMPARED, MIN_COMPARED } from '@/lib/simulation/comparison';
 
 // --- Type Definitions ---
 interface Simulation {
   id: string;
   teamSize: number;
   domain: string;
-  status: 'pending' | 'analyzed' | 'error';
+  scenario?: {
+    title: string;
+  };
+  status: 'pending' | 'debriefing' | 'completed' | 'analyzed' | 'error';
   analysis?: {
     overallScore: number; // We only need the score on this page
   };
@@ -38,6 +42,8 @@ export default function DashboardPage() {
   const [simulations, setSimulations] = useState<Simulation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Analyzed simulations ticked for the compare page, in the order picked
+  const [selected, setSelected] = useState<string[]>([]);
 
   // Fetch all simulations on component mount
   useEffect(() => {
@@ -61,6 +67,12 @@ export default function DashboardPage() {
     fetchSimulations();
   }, []);
 
+  const toggleSelected = (id: string) => {
+    setSelected((current) =>
+      current.includes(id) ? current.filter((s) => s !== id) : [...current, id]
+    );
+  };
+
   // --- Render Functions ---
 
   const renderLoading = () => (
@@ -99,16 +111,31 @@ export default function DashboardPage() {
 
   const renderTable = () => (
     <Card>
-      <CardHeader>
-        <CardTitle>Simulation Dashboard</CardTitle>
-        <CardDescription>
-          Review all completed team simulations and their performance analysis.
-        </CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Simulation Dashboard</CardTitle>
+          <CardDescription>
+            Review all completed team simulations and their performance analysis.
+            Tick {MIN_COMPARED}-{MAX_COMPARED} analyzed simulations to compare them.
+          </CardDescription>
+        </div>
+        {selected.length >= MIN_COMPARED ? (
+          <Button asChild size="sm">
+            <a href={`/dashboard/compare?ids=${selected.join(',')}`}>
+              <GitCompare /> Compare ({selected.length})
+            </a>
+          </Button>
+        ) : (
+          <Button size="sm" disabled>
+            <GitCompare /> Compare
+          </Button>
+        )}
       </CardHeader>
       <CardContent>
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-8" />
               <TableHead className="w-[200px]">Simulation ID</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Domain</TableHead>
@@ -120,12 +147,31 @@ export default function DashboardPage() {
           <TableBody>
             {simulations.map((sim) => (
               <TableRow key={sim.id}>
-                <TableCell className="font-medium truncate max-w-[200px]">{sim.id}</TableCell>
+                <TableCell>
+                  <input
+                    type="checkbox"
+                    aria-label={`Compare ${sim.id}`}
+                    checked={selected.includes(sim.id)}
+                    onChange={() => toggleSelected(sim.id)}
+                    disabled={
+                      !sim.analysis ||
+                      (!selected.includes(sim.id) && selected.length >= MAX_COMPARED)
+                    }
+                  />
+                </TableCell>
+                <TableCell className="font-medium truncate max-w-[200px]">
+                  {sim.id}
+                  {sim.scenario && (
+                    <div className="text-xs font-normal text-muted-foreground truncate">
+                      {sim.scenario.title}
+                    </div>
+                  )}
+                </TableCell>
                 <TableCell>
                   <Badge 
                     variant={
                       sim.status === 'analyzed' ? 'default' : 
-                      sim.status === 'pending' ? 'secondary' : 'destructive'
+                      sim.status === 'pending' || sim.status === 'debriefing' ? 'secondary' : 'destructive'
                     }
                     className="capitalize"
                   >
@@ -142,12 +188,22 @@ export default function DashboardPage() {
                   )}
                 </TableCell>
                 <TableCell className="text-right">
-                  {/* This button now links to the analysis detail page under /dashboard/simulations/[id] */}
-                  <Button asChild variant="outline" size="sm" disabled={!sim.analysis}>
-                    <a href={`/dashboard/simulations/${sim.id}`} target="_blank" rel="noopener noreferrer">
-                      View Analysis
-                    </a>
-                  </Button>
+                  {sim.status === 'pending' || sim.status === 'debriefing' ? (
+                    // Pending simulations can be picked up where the team left off,
+                    // and ended ones still need their debrief
+                    <Button asChild size="sm">
+                      <a href={`/interview/${sim.id}`}>
+                        <PlayCircle /> Resume
+                      </a>
+                    </Button>
+                  ) : (
+                    // This button links to the analysis detail page under /dashboard/simulations/[id]
+                    <Button asChild variant="outline" size="sm" disabled={!sim.analysis}>
+                      <a href={`/dashboard/simulations/${sim.id}`} target="_blank" rel="noopener noreferrer">
+                        View Analysis
+                      </a>
+                    </Button>
+                  )}
                 </TableCell>
               </TableRow>
             ))}
@@ -14,6 +14,13 @@ import {
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { AnalysisVersions } from '@/components/analysis-versions';
+import { ParticipantInsights } from '@/components/participant-insights';
+import { PersonaHandlingList } from '@/components/persona-handling';
+import { WorldPanel } from '@/components/world-panel';
+import { BIAS_TYPES } from '@/lib/simulation/biases';
+import { END_REASONS } from '@/lib/simulation/ending';
+import { formatDuration } from '@/lib/simulation/timing';
 // Recharts for charts
 import {
   ResponsiveContainer,
@@ -24,48 +31,27 @@ import {
   Tooltip,
 } from 'recharts';
 // Lucide Icons
-import { XCircle, Loader2, Bot, User } from 'lucide-react';
+import { XCircle, Loader2, Bot, Megaphone, User } from 'lucide-react';
 
-// --- Type Definitions (from your original file) ---
-interface HeatmapData {
-  Decisiveness: number;
-  'Ethical Focus': number;
-  'Data-Driven': number;
-  'Long-Term Thinking': number;
-  'Bias for Action': number;
-  Collaboration: number;
-  [key: string]: number;
-}
-
-interface Analysis {
-  overallScore: number;
-  keyStrengths: string[];
-  growthAreas: string[];
-  actionableFeedback: string;
-  heatmapData: HeatmapData;
-}
-
-interface TranscriptEntry {
-  role: 'user' | 'model' | 'host';
-  content: string;
-}
-
-// This type MUST match the JSON response from your API route
-interface Simulation {
-  id: string;
-  teamSize: number;
-  domain: string;
-  status: 'pending' | 'analyzed' | 'error';
-  transcript: TranscriptEntry[];
-  analysis?: Analysis;
-  createdAt?: string; // API route serializes this to an ISO string
-}
+// --- Type Definitions ---
+// Shared with the /api/details route, which maps 'team' to 'user'.
+import {
+  Analysis,
+  Evidence,
+  HeatmapData,
+  SimulationDetail as Simulation,
+  SimulationDetailEntry as TranscriptEntry,
+} from '@/lib/types';
 
 // --- Detail Page Component ---
 export default function SimulationDetailPage() {
   const [simulation, setSimulation] = useState<Simulation | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The finding that was clicked, and the transcript entries it cites
+  const [highlight, setHighlight] = useState<{ finding: string; entries: number[] } | null>(null);
+  // Bumped after a re-analysis to fetch the new version
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Get route parameters from Next.js
   const params = useParams();
@@ -83,7 +69,8 @@ export default function SimulationDetailPage() {
 
     async function fetchSimulation() {
       try {
-        setIsLoading(true);
+        // A reload keeps the page in place rather than showing the skeleton
+        if (reloadKey === 0) setIsLoading(true);
         setError(null);
         
         // This is where it calls your API route from the Canvas
@@ -117,7 +104,7 @@ export default function SimulationDetailPage() {
     }
 
     fetchSimulation();
-  }, [simulationId]); // This dependency array is correct.
+  }, [simulationId, reloadKey]);
 
   // --- Helper Functions ---
   const formatHeatmapData = (data: HeatmapData) => {
@@ -127,6 +114,19 @@ export default function SimulationDetailPage() {
     }));
   };
 
+  // Highlights the turns behind a finding and scrolls to the first; a
+  // second click clears it.
+  const showEvidence = (finding: string, evidence: Evidence[] = []) => {
+    if (highlight?.finding === finding || evidence.length === 0) {
+      setHighlight(null);
+      return;
+    }
+    setHighlight({ finding, entries: evidence.map((e) => e.entryIndex) });
+    document
+      .getElementById(`entry-${evidence[0].entryIndex}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   // --- UI Render Sub-Components ---
 
   const renderLoading = () => (
@@ -157,6 +157,87 @@ export default function SimulationDetailPage() {
     </Card>
   );
 
+  const renderScenario = (simulation: Simulation) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{simulation.scenario?.title ?? 'Scenario'}</CardTitle>
+        {simulation.scenario && (
+          <CardDescription>{simulation.scenario.keyDecision}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {simulation.scenario && (
+          <p className="text-sm text-muted-foreground">
+            {simulation.scenario.description}
+          </p>
+        )}
+        {simulation.path.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold">Decision Path</h4>
+            <ol className="list-decimal list-inside text-sm space-y-1">
+              {simulation.path.map((step, i) => {
+                const node = simulation.scenario.graph?.nodes.find((n) => n.id === step.nodeId);
+                const option = node?.options?.find((o) => o.id === step.optionId);
+                return (
+                  <li key={i}>
+                    <span className="font-mono text-muted-foreground">{step.nodeId}</span>
+                    {' → '}
+                    {option ? option.label : <em>free-text answer</em>}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+        {simulation.world && (
+          <div className="space-y-2">
+            <h4 className="font-semibold">Final State</h4>
+            <WorldPanel world={simulation.world} />
+          </div>
+        )}
+        {simulation.statusHistory.length > 0 && (
+          <ol className="flex flex-wrap gap-2">
+            {simulation.statusHistory.map((change, i) => (
+              <li key={i}>
+                <Badge variant="outline" className="capitalize">
+                  {change.status}
+                  <span className="ml-1 text-muted-foreground">
+                    {new Date(change.at).toLocaleString()}
+                  </span>
+                </Badge>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  // How the session ended and what the team said in the debrief
+  const renderEnding = ({ ending, debrief = [] }: Simulation) => ending && (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Ending & Debrief</CardTitle>
+        <CardDescription>{END_REASONS[ending.reason]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm whitespace-pre-line">{ending.narrative}</p>
+        {debrief.length > 0 ? (
+          <dl className="space-y-3">
+            {debrief.map(({ question, answer }, i) => (
+              <div key={i}>
+                <dt className="font-semibold text-sm">{question}</dt>
+                <dd className="text-sm text-muted-foreground whitespace-pre-line">{answer}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-sm text-muted-foreground">No debrief answers were recorded.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   const renderTranscript = (transcript: TranscriptEntry[]) => (
     <Card>
       <CardHeader>
@@ -166,20 +247,25 @@ export default function SimulationDetailPage() {
         {transcript.map((entry, index) => (
           <div
             key={index}
-            className={`flex items-start gap-3 ${
+            id={`entry-${index}`}
+            className={`flex items-start gap-3 rounded-lg transition-colors ${
               entry.role === 'user' ? 'justify-end' : ''
-            }`}
+            } ${highlight?.entries.includes(index) ? 'bg-yellow-100 ring-2 ring-yellow-400 p-1' : ''}`}
           >
             {/* Icon */}
             <div
               className={`flex-shrink-0 rounded-full h-8 w-8 flex items-center justify-center ${
                 entry.role === 'user'
                   ? 'bg-primary text-primary-foreground'
-                  : 'bg-muted text-muted-foreground'
+                  : entry.role === 'persona'
+                    ? 'bg-amber-100 text-amber-800'
+                    : 'bg-muted text-muted-foreground'
               }`}
             >
               {entry.role === 'user' ? (
                 <User size={16} />
+              ) : entry.role === 'persona' ? (
+                <Megaphone size={16} />
               ) : (
                 <Bot size={16} />
               )}
@@ -189,14 +275,23 @@ export default function SimulationDetailPage() {
               className={`max-w-[75%] rounded-lg p-3 ${
                 entry.role === 'user'
                   ? 'bg-primary text-primary-foreground'
-                  : 'bg-muted'
+                  : entry.role === 'persona'
+                    ? 'bg-amber-50 border border-amber-200'
+                    : 'bg-muted'
               }`}
             >
               <p className="text-sm font-bold capitalize">
                 {/* Note: Your API already maps 'team' to 'user' */}
-                {entry.role === 'user' ? 'Team' : 'Host'}
+                {entry.role === 'host' ? 'Host' : entry.speaker ?? 'Team'}
               </p>
               <p className="text-sm whitespace-pre-wrap">{entry.content}</p>
+              {(entry.timedOut || entry.latencyMs !== undefined) && (
+                <p className="text-xs opacity-70 mt-1">
+                  {entry.timedOut
+                    ? 'Time ran out'
+                    : `Answered after ${formatDuration(entry.latencyMs!)}`}
+                </p>
+              )}
             </div>
           </div>
         ))}
@@ -204,96 +299,183 @@ export default function SimulationDetailPage() {
     </Card>
   );
 
+  // A strength or growth area with the quotes behind it; clicking it
+  // highlights the quoted turns in the transcript.
+  const renderFinding = (finding: string, text: string, evidence: Evidence[] = []) => (
+    <li
+      key={finding}
+      onClick={() => showEvidence(finding, evidence)}
+      className={`${evidence.length > 0 ? 'cursor-pointer' : ''} ${
+        highlight?.finding === finding ? 'font-semibold' : ''
+      }`}
+    >
+      {text}
+      {evidence.map((e) => (
+        <blockquote key={e.entryIndex} className="mt-1 border-l-2 pl-2 text-xs italic text-muted-foreground">
+          &ldquo;{e.quote}&rdquo; <span className="not-italic font-mono">#{e.entryIndex}</span>
+        </blockquote>
+      ))}
+    </li>
+  );
+
+  // Left out for analyses made before the bias pass existed.
+  const renderBiases = ({ biases }: Simulation) => biases && (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Cognitive Biases</CardTitle>
+        <CardDescription>Decision traps the team fell into, with how sure the analyst is</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {biases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No biases detected.</p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            {biases.map((bias) => (
+              <div key={bias.type} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{BIAS_TYPES[bias.type].label}</span>
+                  <Badge variant={bias.confidence >= 70 ? 'destructive' : 'secondary'}>
+                    {bias.confidence}% confidence
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">{BIAS_TYPES[bias.type].description}</p>
+                <ul>{renderFinding(`bias-${bias.type}`, bias.explanation, bias.evidence)}</ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   const renderAnalysisDetail = (analysis: Analysis) => (
-    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-      {/* Column 1: Score & Feedback */}
-      <div className="lg:col-span-1 space-y-6">
-        <Card className="bg-gradient-to-br from-primary/10 to-transparent">
-          <CardHeader>
-            <CardTitle>Overall Score</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-6xl font-bold text-primary">
-              {analysis.overallScore}
-              <span className="text-3xl text-muted-foreground">/100</span>
-            </p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardHeader>
-            <CardTitle>Actionable Feedback</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground">
-              {analysis.actionableFeedback}
-            </p>
-          </CardContent>
-        </Card>
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Column 1: Score & Feedback */}
+        <div className="lg:col-span-1 space-y-6">
+          <Card className="bg-gradient-to-br from-primary/10 to-transparent">
+            <CardHeader>
+              <CardTitle>Overall Score</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-6xl font-bold text-primary">
+                {analysis.overallScore}
+                <span className="text-3xl text-muted-foreground">/100</span>
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Actionable Feedback</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                {analysis.actionableFeedback}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Column 2: Strengths & Weaknesses */}
+        <div className="lg:col-span-1 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-green-600">Key Strengths</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="list-disc pl-5 space-y-2 text-sm">
+                {analysis.keyStrengths.map((item, i) =>
+                  renderFinding(`strength-${i}`, item, analysis.evidence?.keyStrengths[i]?.evidence)
+                )}
+              </ul>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-amber-600">Growth Areas</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="list-disc pl-5 space-y-2 text-sm">
+                {analysis.growthAreas.map((item, i) =>
+                  renderFinding(`growth-${i}`, item, analysis.evidence?.growthAreas[i]?.evidence)
+                )}
+              </ul>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Column 3: Heatmap Chart */}
+        <div className="lg:col-span-1">
+          <Card>
+            <CardHeader>
+              <CardTitle>Performance Metrics</CardTitle>
+              <CardDescription>Scores from 1 (Low) to 10 (High)</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={formatHeatmapData(analysis.heatmapData)}
+                    layout="vertical"
+                    margin={{ left: 20 }}
+                  >
+                    <XAxis type="number" domain={[0, 10]} />
+                    <YAxis
+                      type="category"
+                      dataKey="name"
+                      width={100}
+                      dx={-5}
+                      style={{ fontSize: '12px' }}
+                    />
+                    <Tooltip />
+                    <Bar
+                      dataKey="Score"
+                      fill="hsl(var(--primary))"
+                      radius={[0, 4, 4, 0]}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              {/* The turns each score rests on */}
+              {analysis.evidence && (
+                <ul className="mt-4 space-y-2 text-sm">
+                  {Object.entries(analysis.heatmapData).map(([metric, score]) =>
+                    renderFinding(`metric-${metric}`, `${metric}: ${score}/10`, analysis.evidence?.heatmapData[metric])
+                  )}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
       </div>
 
-      {/* Column 2: Strengths & Weaknesses */}
-      <div className="lg:col-span-1 space-y-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-green-600">Key Strengths</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <ul className="list-disc pl-5 space-y-2 text-sm">
-              {analysis.keyStrengths.map((item, i) => (
-                <li key={i}>{item}</li>
-              ))}
-            </ul>
-          </CardContent>
-        </Card>
+      {/* Per-member breakdown, when turns were attributed */}
+      {analysis.participants && analysis.participants.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle className="text-amber-600">Growth Areas</CardTitle>
+            <CardTitle>Team Members</CardTitle>
+            <CardDescription>
+              Share of the discussion, influence (1-10) and how each member behaved
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <ul className="list-disc pl-5 space-y-2 text-sm">
-              {analysis.growthAreas.map((item, i) => (
-                <li key={i}>{item}</li>
-              ))}
-            </ul>
+            <ParticipantInsights participants={analysis.participants} />
           </CardContent>
         </Card>
-      </div>
+      )}
 
-      {/* Column 3: Heatmap Chart */}
-      <div className="lg:col-span-1">
+      {/* Stakeholder personas who spoke */}
+      {analysis.personas && analysis.personas.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Performance Metrics</CardTitle>
-            <CardDescription>Scores from 1 (Low) to 10 (High)</CardDescription>
+            <CardTitle>Stakeholders</CardTitle>
+            <CardDescription>How the team handled each persona (1-10)</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="h-[300px] w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart
-                  data={formatHeatmapData(analysis.heatmapData)}
-                  layout="vertical"
-                  margin={{ left: 20 }}
-                >
-                  <XAxis type="number" domain={[0, 10]} />
-                  <YAxis
-                    type="category"
-                    dataKey="name"
-                    width={100}
-                    dx={-5}
-                    style={{ fontSize: '12px' }}
-                  />
-                  <Tooltip />
-                  <Bar
-                    dataKey="Score"
-                    fill="hsl(var(--primary))"
-                    radius={[0, 4, 4, 0]}
-                  />
-                </BarChart>
-              </ResponsiveContainer>
-            </div>
+            <PersonaHandlingList personas={analysis.personas} />
           </CardContent>
         </Card>
-      </div>
+      )}
     </div>
   );
 
@@ -331,17 +513,44 @@ export default function SimulationDetailPage() {
                 <Badge variant="secondary">
                   Team Size: <span className="ml-1">{simulation.teamSize}</span>
                 </Badge>
+                <Badge variant="secondary" className="capitalize">
+                  {simulation.status}
+                </Badge>
               </div>
             </CardHeader>
           </Card>
 
+          {/* --- Scenario & Status History --- */}
+          {renderScenario(simulation)}
+
           {/* --- Transcript --- */}
           {simulation.transcript && renderTranscript(simulation.transcript)}
 
+          {/* --- Ending & Debrief --- */}
+          {renderEnding(simulation)}
+
           {/* --- Analysis Section --- */}
           <div className="mt-6">
             {simulation.analysis ? (
-              renderAnalysisDetail(simulation.analysis)
+              <>
+                {renderAnalysisDetail(simulation.analysis)}
+                {renderBiases(simulation)}
+                <Card className="mt-6">
+                  <CardHeader>
+                    <CardTitle>Analysis Versions</CardTitle>
+                    <CardDescription>
+                      Re-run the analysis with the latest prompts and rubric, and compare versions
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <AnalysisVersions
+                      simulationId={simulation.id}
+                      currentVersion={simulation.analysisVersion}
+                      onReanalyzed={() => setReloadKey((key) => key + 1)}
+                    />
+                  </CardContent>
+                </Card>
+              </>
             ) : (
               <Card>
                 <CardHeader>
@@ -0,0 +1,666 @@
+"use client";
+import React, { useState, useEffect, useRef } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+    Card,
+    CardHeader,
+    CardDescription,
+    CardContent,
+    CardTitle,
+    CardFooter, // Added CardFooter
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/loading-spinner";
+import { WorldPanel } from "@/components/world-panel";
+
+import { loadParticipant, RoomMember } from "@/lib/room";
+import { END_REASONS } from "@/lib/simulation/ending";
+import { getCurrentNode } from "@/lib/simulation/graph";
+import { CLOCK_GRACE_MS, formatDuration, getDeadlines } from "@/lib/simulation/timing";
+import { readEventStream } from "@/lib/sse";
+import { Participant, Simulation, TranscriptEntry } from "@/lib/types";
+
+// The unsent response is kept per simulation so a reload doesn't lose it.
+const draftKey = (id: string) => `interview-draft:${id}`;
+
+export default function InterviewPage() {
+    const params = useParams();
+    const router = useRouter(); // For navigating to analysis
+    // Ensure 'id' is a single string. Handle array or undefined cases.
+    const simulationDocId = Array.isArray(params.id) ? params.id[0] : params.id;
+    
+    // The server owns the simulation; we mirror what it returns.
+    const [simulation, setSimulation] = useState<Simulation | null>(null);
+    const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+    
+    // State for the interview flow
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [userResponse, setUserResponse] = useState<string>("");
+
+    // The host's reply while it is still streaming in
+    const [streamingText, setStreamingText] = useState<string | null>(null);
+    const turnAbortRef = useRef<AbortController | null>(null);
+    // While our own write is in flight, live updates would undo the optimistic entry
+    const busyRef = useRef(false);
+
+    // Set when this device joined as a room member
+    const [participant, setParticipant] = useState<RoomMember | null>(null);
+    // Facilitator only: who the typed response is from (null = the whole team)
+    const [speakerId, setSpeakerId] = useState<string | null>(null);
+    const [newSpeakerName, setNewSpeakerName] = useState("");
+
+    // Facilitator only: the team's answers to the debrief questions, in order
+    const [debriefAnswers, setDebriefAnswers] = useState<string[]>([]);
+
+    // Ticks once a second while a clock is running
+    const [now, setNow] = useState(() => Date.now());
+    // The deadline we already reported, so each one fires once
+    const expiredRef = useRef<number | null>(null);
+
+    // Ref for the scrollable transcript area
+    const scrollAreaRef = useRef<HTMLDivElement>(null);
+
+    // Cancel an in-flight turn when navigating away; the server saves nothing.
+    useEffect(() => () => turnAbortRef.current?.abort(), []);
+
+    const applySimulation = (next: Simulation) => {
+        setSimulation(next);
+        setTranscript(next.transcript);
+    };
+
+    useEffect(() => {
+        // Load the saved scenario and transcript, and restore the draft
+        if (!simulationDocId) return;
+
+        const loadSimulation = async () => {
+            try {
+                setLoading(true);
+                setError(null);
+
+                const res = await fetch(`/api/sessions/${simulationDocId}`);
+                const data = await res.json();
+                if (!res.ok) throw new Error(data?.error || "Failed to load simulation.");
+
+                applySimulation(data as Simulation);
+                setUserResponse(localStorage.getItem(draftKey(simulationDocId)) ?? "");
+                setParticipant(loadParticipant(simulationDocId));
+            } catch (err) {
+                console.error(err);
+                setError((err as Error).message);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadSimulation();
+    }, [simulationDocId]);
+
+    // Persist the draft as the team types
+    useEffect(() => {
+        if (!simulationDocId || !simulation) return;
+        if (userResponse) {
+            localStorage.setItem(draftKey(simulationDocId), userResponse);
+        } else {
+            localStorage.removeItem(draftKey(simulationDocId));
+        }
+    }, [simulationDocId, simulation, userResponse]);
+
+    // This effect scrolls the transcript area to the bottom when new messages are added
+    useEffect(() => {
+        if (scrollAreaRef.current) {
+            scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
+        }
+    }, [transcript, streamingText]); // Run this every time the transcript changes
+
+    const isPending = simulation?.status === "pending";
+    // Ended, waiting for the team's reflections
+    const isDebriefing = simulation?.status === "debriefing";
+    // Authored scenarios only: the node the team is answering
+    const currentNode = simulation ? getCurrentNode(simulation) : undefined;
+    const isChoice = currentNode?.kind === "choice";
+    const isEnding = currentNode?.kind === "terminal";
+    // Room members post messages; the facilitator runs the turns.
+    const isMember = participant !== null;
+    const awaitingHost = transcript[transcript.length - 1]?.role === "team";
+
+    // Timers: the server enforces them, this only counts down
+    const deadlines = simulation && isPending ? getDeadlines(simulation) : {};
+    const hasClock = deadlines.turn !== undefined || deadlines.session !== undefined;
+    const turnLeft = deadlines.turn !== undefined ? deadlines.turn - now : undefined;
+    const sessionLeft = deadlines.session !== undefined ? deadlines.session - now : undefined;
+
+    useEffect(() => {
+        if (!hasClock) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [hasClock]);
+
+    // Live room: mirror everyone's messages while the session is open,
+    // and the ending and debrief once it closes
+    const isLive = isPending || isDebriefing;
+    useEffect(() => {
+        if (!simulationDocId || !isLive) return;
+        const source = new EventSource(`/api/sessions/${simulationDocId}/events`);
+        source.addEventListener("simulation", (event) => {
+            if (!busyRef.current) applySimulation(JSON.parse(event.data).simulation as Simulation);
+        });
+        return () => source.close();
+    }, [simulationDocId, isLive]);
+
+    const handleSubmitResponse = async (optionId?: string) => {
+        if ((!userResponse.trim() && !optionId) || !simulationDocId || !isPending) return;
+
+        // Show the team's entry straight away; the server's copy replaces it.
+        const speaker = simulation?.participants.find((p) => p.id === speakerId);
+        const teamEntry: TranscriptEntry = {
+            role: "team",
+            content: currentNode?.options?.find((o) => o.id === optionId)?.label ?? userResponse,
+            timestamp: new Date().toISOString(),
+            participantId: speaker?.id,
+            speaker: speaker?.name,
+        };
+        await streamHostTurn(
+            "turns/stream",
+            { content: userResponse, optionId, participantId: speaker?.id },
+            [teamEntry]
+        );
+    };
+
+    // The facilitator hands the members' discussion to the host
+    const handleAskHost = () => streamHostTurn("host/stream", {}, []);
+
+    /**
+     * Posts to one of the streaming turn endpoints, showing `teamEntries`
+     * until the saved simulation arrives.
+     */
+    const streamHostTurn = async (path: string, body: unknown, teamEntries: TranscriptEntry[]) => {
+        setLoading(true); // Show loading for the turn
+        setError(null);
+        busyRef.current = true;
+
+        const previousTranscript = transcript;
+        setTranscript([...transcript, ...teamEntries]);
+
+        const controller = new AbortController();
+        turnAbortRef.current = controller;
+
+        try {
+            const res = await fetch(`/api/sessions/${simulationDocId}/${path}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+
+            if (!res.ok || !res.body) {
+                // API returned an error before streaming; surface it
+                const data = await res.json();
+                throw new Error(data?.error || data?.details || "Failed to get next prompt");
+            }
+
+            // Render host tokens as they arrive; only the final, cleaned
+            // entry from the server is kept.
+            let finished = false;
+            setStreamingText("");
+            for await (const event of readEventStream(res.body)) {
+                const data = JSON.parse(event.data);
+                if (event.event === "token") {
+                    setStreamingText((text) => (text ?? "") + data.text);
+                } else if (event.event === "done") {
+                    applySimulation(data.simulation as Simulation);
+                    if (teamEntries.length > 0) setUserResponse(""); // Clear the textarea
+                    finished = true;
+                } else if (event.event === "error") {
+                    throw new Error(data.error || "Failed to get next prompt");
+                }
+            }
+            if (!finished) throw new Error("The host stopped responding. Please try again.");
+
+        } catch (err) {
+            if (controller.signal.aborted) return; // Navigated away
+            console.error("Error submitting response / fetching next prompt:", err);
+            setError((err as Error).message);
+            // Nothing was saved: roll back and keep the draft so they can retry.
+            setTranscript(previousTranscript);
+        } finally {
+            busyRef.current = false;
+            setStreamingText(null);
+            setLoading(false);
+        }
+    };
+
+    // A room member's message: saved under their name, no host reply
+    const handlePostMessage = async () => {
+        if (!userResponse.trim() || !simulationDocId || !isPending || !participant) return;
+
+        setLoading(true);
+        setError(null);
+        busyRef.current = true;
+        const previousTranscript = transcript;
+        setTranscript([
+            ...transcript,
+            {
+                role: "team",
+                content: userResponse,
+                timestamp: new Date().toISOString(),
+                participantId: participant.id,
+                speaker: participant.name,
+            },
+        ]);
+
+        try {
+            const res = await fetch(`/api/sessions/${simulationDocId}/messages`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ token: participant.token, content: userResponse }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data?.error || "Failed to send message");
+            applySimulation(data as Simulation);
+            setUserResponse("");
+        } catch (err) {
+            setError((err as Error).message);
+            setTranscript(previousTranscript);
+        } finally {
+            busyRef.current = false;
+            setLoading(false);
+        }
+    };
+    
+    // The facilitator adds someone speaking in person to the room's roster
+    const handleAddSpeaker = async () => {
+        if (!newSpeakerName.trim() || !simulationDocId || !isPending) return;
+
+        setError(null);
+        try {
+            const res = await fetch(`/api/sessions/${simulationDocId}/participants`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name: newSpeakerName }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data?.error || "Failed to add speaker");
+            applySimulation(data.simulation as Simulation);
+            setSpeakerId((data.participant as Participant).id);
+            setNewSpeakerName("");
+        } catch (err) {
+            setError((err as Error).message);
+        }
+    };
+
+    // Once a clock is past zero by the server's grace period, the
+    // facilitator's page asks the server to act on it; members only see the
+    // countdown.
+    useEffect(() => {
+        if (isMember || loading) return;
+        const expired = [deadlines.session, deadlines.turn].find(
+            (deadline) => deadline !== undefined && deadline + CLOCK_GRACE_MS < now
+        );
+        if (expired === undefined || expiredRef.current === expired) return;
+        expiredRef.current = expired;
+        streamHostTurn("timeout", {}, []);
+    }, [now, loading, isMember, deadlines.session, deadlines.turn]);
+
+    // Ends the session; the host's closing and the debrief follow
+    const handleEndSimulation = async () => {
+        if (!simulationDocId || !isPending) return;
+        
+        setLoading(true);
+        setError(null);
+        busyRef.current = true;
+        try {
+            const res = await fetch(`/api/sessions/${simulationDocId}/finish`, { method: "POST" });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data?.error || "Failed to end simulation");
+            applySimulation(data as Simulation);
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            busyRef.current = false;
+            setLoading(false);
+        }
+    };
+
+    // Submitting with no answers skips the debrief
+    const handleSubmitDebrief = async (answers: string[]) => {
+        if (!simulationDocId || !isDebriefing) return;
+
+        setLoading(true);
+        setError(null);
+        try {
+            // 1. Store the answers; this completes the simulation
+            const res = await fetch(`/api/sessions/${simulationDocId}/debrief`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ answers }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                throw new Error(data?.error || data?.details?.join("; ") || "Failed to save the debrief");
+            }
+
+            // 2. Navigate to the new analysis page
+            // This page will be responsible for *calling* /api/analyze-interview
+            router.push(`/analysis/${simulationDocId}`);
+
+        } catch (err) {
+            setError((err as Error).message);
+            setLoading(false);
+        }
+    };
+
+    // --- Render logic ---
+    return (
+        <>
+            {/* ... (Your Header component) ... */}
+
+            <div className="flex flex-col min-h-screen py-20 px-6 bg-gray-50">
+                <Card className="w-full max-w-2xl mx-auto">
+                    <CardHeader>
+                        <CardTitle>{simulation ? simulation.scenario.title : "Loading..."}</CardTitle>
+                        {simulation && (
+                            <CardDescription>
+                                A simulation for a team of {simulation.teamSize} in {simulation.domain}.
+                            </CardDescription>
+                        )}
+                        {simulation?.scenario.personas && simulation.scenario.personas.length > 0 && (
+                            <CardDescription>
+                                Stakeholders who may speak up:{" "}
+                                {simulation.scenario.personas.map((p) => `${p.name} (${p.role})`).join(", ")}
+                            </CardDescription>
+                        )}
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                        {loading && transcript.length === 0 && <LoadingSpinner />}
+                        
+                        {simulation && !isPending && !isDebriefing && (
+                            <div className="text-sm p-4 bg-blue-50 text-blue-900 rounded-md">
+                                This simulation is {simulation.status}.{" "}
+                                <a href={`/analysis/${simulation.id}`} className="underline">
+                                    View the analysis
+                                </a>
+                            </div>
+                        )}
+
+                        {hasClock && (
+                            <div className="flex gap-4 text-sm font-mono">
+                                {turnLeft !== undefined && (
+                                    <span className={turnLeft <= 30000 ? "text-red-600 font-bold" : ""}>
+                                        Turn {formatDuration(turnLeft)}
+                                    </span>
+                                )}
+                                {sessionLeft !== undefined && (
+                                    <span className={sessionLeft <= 60000 ? "text-red-600 font-bold" : "text-muted-foreground"}>
+                                        Session {formatDuration(sessionLeft)}
+                                    </span>
+                                )}
+                            </div>
+                        )}
+
+                        {error && (
+                            <div className="text-sm text-red-600 p-4 bg-red-50 rounded-md">
+                                <strong>Error:</strong> {error}
+                            </div>
+                        )}
+
+                        {/* Live room: the facilitator shares the code */}
+                        {simulation && isPending && !isMember && simulation.joinCode && (
+                            <div className="text-sm p-4 bg-gray-100 rounded-md space-y-2">
+                                <div>
+                                    Team members can join from their own devices at{" "}
+                                    <a href={`/join?code=${simulation.joinCode}`} className="underline">/join</a>{" "}
+                                    with code <span className="font-mono font-bold tracking-widest">{simulation.joinCode}</span>
+                                </div>
+                                {simulation.participants.length > 0 && (
+                                    <div className="text-muted-foreground">
+                                        In the room: {simulation.participants.map((p) => p.name).join(", ")}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Live status: the consequences of the team's decisions so far */}
+                        {simulation?.world && (
+                            <div className="p-4 border rounded-md">
+                                <WorldPanel world={simulation.world} />
+                            </div>
+                        )}
+
+                        {/* Render the entire transcript */}
+                        <div 
+                            ref={scrollAreaRef}
+                            className="space-y-4 max-h-[400px] overflow-y-auto p-4 bg-gray-50 rounded-md"
+                        >
+                            {transcript.map((entry, index) => (
+                                <div key={index} className={`flex ${entry.role === 'team' ? 'justify-end' : 'justify-start'}`}>
+                                    <div 
+                                        className={`p-3 rounded-lg max-w-[80%] whitespace-pre-line ${
+                                            entry.role === 'team'
+                                                ? 'bg-blue-600 text-white'
+                                                : entry.role === 'persona'
+                                                    ? 'bg-amber-50 border border-amber-200 text-amber-950'
+                                                    : 'bg-gray-200 text-gray-800'
+                                        }`}
+                                    >
+                                        {entry.speaker && (
+                                            <div className="text-xs font-semibold opacity-80 mb-1">{entry.speaker}</div>
+                                        )}
+                                        {entry.content}
+                                    </div>
+                                </div>
+                            ))}
+                            {streamingText !== null && (
+                                <div className="flex justify-start">
+                                    <div className="p-3 rounded-lg max-w-[80%] whitespace-pre-line bg-gray-200 text-gray-800">
+                                        {streamingText || "..."}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
+                        {simulation?.ending && (
+                            <div className="p-4 border border-blue-200 bg-blue-50 rounded-md space-y-2">
+                                <div className="text-xs font-semibold uppercase tracking-wide text-blue-900">
+                                    {END_REASONS[simulation.ending.reason]}
+                                </div>
+                                <p className="text-sm text-blue-950 whitespace-pre-line">{simulation.ending.narrative}</p>
+                            </div>
+                        )}
+
+                        {simulation?.ending && isDebriefing ? (
+                            <div className="space-y-4">
+                                <div>
+                                    <h3 className="font-semibold">Debrief</h3>
+                                    <p className="text-sm text-muted-foreground">
+                                        {isMember
+                                            ? "Discuss these questions together; the facilitator records the team's answers."
+                                            : "Talk these through with the team and record its answers. They are included in the analysis."}
+                                    </p>
+                                </div>
+                                {simulation.ending.questions.map((question, i) => (
+                                    <div key={i} className="space-y-2">
+                                        <Label htmlFor={`debrief-${i}`}>{question}</Label>
+                                        {!isMember && (
+                                            <Textarea
+                                                id={`debrief-${i}`}
+                                                value={debriefAnswers[i] ?? ""}
+                                                onChange={(e) => {
+                                                    const answers = [...debriefAnswers];
+                                                    answers[i] = e.target.value;
+                                                    setDebriefAnswers(answers);
+                                                }}
+                                                rows={3}
+                                                disabled={loading}
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+                                {!isMember && (
+                                    <div className="flex justify-end gap-2">
+                                        <Button variant="ghost" onClick={() => handleSubmitDebrief([])} disabled={loading}>
+                                            Skip Debrief
+                                        </Button>
+                                        <Button
+                                            onClick={() =>
+                                                handleSubmitDebrief(simulation.ending!.questions.map((_, i) => debriefAnswers[i] ?? ""))
+                                            }
+                                            disabled={loading || !debriefAnswers.some((answer) => answer?.trim())}
+                                        >
+                                            {loading ? "Saving..." : "Submit Debrief & Analyze"}
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        ) : !isPending ? null : isEnding ? (
+                            <div className="text-sm p-4 bg-gray-100 text-gray-800 rounded-md">
+                                The scenario has reached its ending.{" "}
+                                {isMember ? "The facilitator will end the simulation." : "End the simulation to move on to the debrief."}
+                            </div>
+                        ) : isMember ? (
+                            <>
+                                <div className="space-y-2">
+                                    <Label htmlFor="userResponse">Your Message (as {participant.name})</Label>
+                                    <Textarea
+                                        id="userResponse"
+                                        value={userResponse}
+                                        onChange={(e) => setUserResponse(e.target.value)}
+                                        placeholder="Share your view with the team..."
+                                        rows={4}
+                                        disabled={loading || !isPending}
+                                    />
+                                    {isChoice && (
+                                        <p className="text-xs text-muted-foreground">
+                                            The facilitator picks the team&apos;s option once you have discussed it.
+                                        </p>
+                                    )}
+                                </div>
+                                <Button
+                                    size="lg"
+                                    className="w-full"
+                                    onClick={handlePostMessage}
+                                    disabled={!userResponse.trim() || loading || !isPending}
+                                >
+                                    {loading ? "Sending..." : "Send Message"}
+                                </Button>
+                            </>
+                        ) : (
+                            <>
+                                {/* Who is speaking: attributes the typed response to someone speaking in person */}
+                                {simulation && (
+                                    <div className="space-y-2">
+                                        <Label>Who Is Speaking</Label>
+                                        <div className="flex flex-wrap gap-2">
+                                            <Badge
+                                                variant={speakerId === null ? "default" : "outline"}
+                                                className="cursor-pointer"
+                                                onClick={() => setSpeakerId(null)}
+                                            >
+                                                Team (everyone)
+                                            </Badge>
+                                            {simulation.participants.filter((p) => p.inPerson).map((p) => (
+                                                <Badge
+                                                    key={p.id}
+                                                    variant={speakerId === p.id ? "default" : "outline"}
+                                                    className="cursor-pointer"
+                                                    onClick={() => setSpeakerId(p.id)}
+                                                >
+                                                    {p.name}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                        <div className="flex gap-2">
+                                            <Input
+                                                value={newSpeakerName}
+                                                onChange={(e) => setNewSpeakerName(e.target.value)}
+                                                onKeyDown={(e) => e.key === "Enter" && handleAddSpeaker()}
+                                                placeholder="Add a speaker by name"
+                                                maxLength={40}
+                                                disabled={loading || !isPending}
+                                            />
+                                            <Button
+                                                variant="outline"
+                                                onClick={handleAddSpeaker}
+                                                disabled={!newSpeakerName.trim() || loading || !isPending}
+                                            >
+                                                Add
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* This is the textarea for the user */}
+                                <div className="space-y-2">
+                                    <Label htmlFor="userResponse">
+                                        {isChoice ? "Your Team's Reasoning (optional)" : "Your Team's Response"}
+                                    </Label>
+                                    <Textarea
+                                        id="userResponse"
+                                        value={userResponse}
+                                        onChange={(e) => setUserResponse(e.target.value)}
+                                        placeholder={isChoice ? "Explain why your team chose this option..." : "Type your team's response..."}
+                                        rows={5}
+                                        disabled={loading || !isPending}
+                                    />
+                                </div>
+
+                                {isChoice ? (
+                                    // Each option is an edge in the scenario graph
+                                    <div className="grid gap-2">
+                                        {currentNode.options?.map((option) => (
+                                            <Button
+                                                key={option.id}
+                                                size="lg"
+                                                variant="outline"
+                                                className="w-full h-auto whitespace-normal justify-start text-left"
+                                                onClick={() => handleSubmitResponse(option.id)}
+                                                disabled={loading || !isPending}
+                                            >
+                                                {option.label}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <Button
+                                        size="lg"
+                                        className="w-full"
+                                        onClick={() => handleSubmitResponse()}
+                                        disabled={!userResponse.trim() || loading || !isPending}
+                                    >
+                                        {loading ? "Waiting for host..." : "Submit Response"}
+                                    </Button>
+                                )}
+
+                                {simulation && !simulation.scenario.graph && simulation.participants.length > 0 && (
+                                    <Button
+                                        variant="outline"
+                                        className="w-full"
+                                        onClick={handleAskHost}
+                                        disabled={!awaitingHost || loading || !isPending}
+                                    >
+                                        Ask the Host to Respond to the Discussion
+                                    </Button>
+                                )}
+                            </>
+                        )}
+                    </CardContent>
+                    
+                    {/* Footer with an "End" button (facilitator only) */}
+                    <CardFooter className={`flex justify-end ${isMember || !isPending ? "hidden" : ""}`}>
+                        <Button
+                            variant="outline"
+                            onClick={handleEndSimulation}
+                            disabled={loading || !isPending || transcript.length < 2}
+                        >
+                            End Simulation
+                        </Button>
+                    </CardFooter>
+                </Card>
+            </div>
+        </>
+    );
+}
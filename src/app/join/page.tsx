@@ -0,0 +1,108 @@
+"use client";
+import React, { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+    Card,
+    CardHeader,
+    CardDescription,
+    CardContent,
+    CardTitle,
+    CardFooter,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/loading-spinner";
+import { saveParticipant } from "@/lib/room";
+import { Participant, Simulation } from "@/lib/types";
+
+/**
+ * A team member joins the facilitator's live room with its code, then
+ * takes part in /interview/[id] from their own device.
+ */
+function JoinRoom() {
+    const searchParams = useSearchParams();
+    const router = useRouter();
+    const [code, setCode] = useState(searchParams.get("code") ?? "");
+    const [name, setName] = useState("");
+    const [joining, setJoining] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleJoin = async () => {
+        if (!code.trim() || !name.trim()) {
+            setError("Enter the room code and your name.");
+            return;
+        }
+
+        setJoining(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/sessions/join", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ code, name }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data?.error || "Failed to join the room.");
+
+            const { simulation, participant, token } = data as {
+                simulation: Simulation;
+                participant: Participant;
+                token: string;
+            };
+            saveParticipant(simulation.id, { ...participant, token });
+            router.push(`/interview/${simulation.id}`);
+        } catch (err) {
+            setError((err as Error).message);
+            setJoining(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col min-h-screen py-20 px-6 bg-gray-50">
+            <Card className="w-full max-w-md mx-auto">
+                <CardHeader>
+                    <CardTitle>Join a Simulation</CardTitle>
+                    <CardDescription>
+                        Enter the code your facilitator shared and the name your team knows you by.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <div className="space-y-2">
+                        <Label htmlFor="code">Room Code</Label>
+                        <Input
+                            id="code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value.toUpperCase())}
+                            placeholder="e.g., K7QM2X"
+                            className="font-mono tracking-widest w-40"
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="name">Your Name</Label>
+                        <Input
+                            id="name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            maxLength={40}
+                        />
+                    </div>
+                    {error && <div className="text-sm text-red-600">{error}</div>}
+                </CardContent>
+                <CardFooter>
+                    <Button size="lg" className="w-full" onClick={handleJoin} disabled={joining}>
+                        {joining ? "Joining..." : "Join"}
+                    </Button>
+                </CardFooter>
+            </Card>
+        </div>
+    );
+}
+
+export default function JoinPage() {
+    return (
+        <Suspense fallback={<LoadingSpinner />}>
+            <JoinRoom />
+        </Suspense>
+    );
+}
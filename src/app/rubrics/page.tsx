@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RubricEditor, RubricFormValue } from '@/components/rubric-editor';
+import { DEFAULT_RUBRIC } from '@/lib/simulation/rubrics';
+import { Rubric } from '@/lib/types';
+import { Copy, Pencil, Plus, XCircle } from 'lucide-react';
+
+// --- Rubrics Page Component ---
+// The metrics analyses are scored against. Scenarios pick one in the
+// scenario editor; the built-in default can be copied but not edited.
+export default function RubricsPage() {
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<RubricFormValue | null>(null);
+
+  useEffect(() => {
+    async function fetchRubrics() {
+      try {
+        const res = await fetch('/api/rubrics');
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || 'Failed to load rubrics.');
+        setRubrics(data as Rubric[]);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchRubrics();
+  }, []);
+
+  // Saved rubrics go to the top, after the default
+  const handleSaved = (rubric: Rubric) => {
+    setRubrics((current) => [
+      DEFAULT_RUBRIC,
+      rubric,
+      ...current.filter((r) => r.id !== rubric.id && r.id !== DEFAULT_RUBRIC.id),
+    ]);
+    setEditing(null);
+  };
+
+  const copyOf = ({ name, description, metrics }: Rubric): RubricFormValue => ({
+    name: `${name} (copy)`,
+    description,
+    metrics,
+  });
+
+  // --- Render Functions ---
+
+  const renderRubric = (rubric: Rubric) => {
+    const totalWeight = rubric.metrics.reduce((sum, m) => sum + m.weight, 0);
+    return (
+      <Card key={rubric.id}>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {rubric.name}
+            {rubric.id === DEFAULT_RUBRIC.id && <Badge variant="secondary">Default</Badge>}
+          </CardTitle>
+          {rubric.description && <CardDescription>{rubric.description}</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          <ul className="space-y-2 text-sm">
+            {rubric.metrics.map((metric) => (
+              <li key={metric.name}>
+                <span className="font-semibold">{metric.name}</span>
+                <span className="text-muted-foreground">
+                  {' '}· {Math.round((metric.weight / totalWeight) * 100)}% · 1 = {metric.low}, 10 = {metric.high}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setEditing(copyOf(rubric))}>
+            <Copy /> Copy
+          </Button>
+          {rubric.id !== DEFAULT_RUBRIC.id && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(rubric)}>
+              <Pencil /> Edit
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    );
+  };
+
+  // --- Main Return ---
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Analysis Rubrics</h1>
+          <p className="text-muted-foreground">
+            The metrics each analysis scores from 1 to 10, and how much each counts towards the overall score.
+          </p>
+        </div>
+        <Button onClick={() => setEditing({ name: '', description: '', metrics: [] })}>
+          <Plus /> New Rubric
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : error ? (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <XCircle /> Error
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>Could not load rubrics: {error}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">{rubrics.map(renderRubric)}</div>
+      )}
+
+      <RubricEditor rubric={editing} onClose={() => setEditing(null)} onSaved={handleSaved} />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 "use client";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   Card,
@@ -15,12 +15,12 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 // Import the Skeleton component
 import { Skeleton } from "@/components/ui/skeleton";
-
-type Scenario = {
-  title: string;
-  description: string;
-  keyDecision: string;
-};
+import { Badge } from "@/components/ui/badge";
+import { GenerationOptionsPanel } from "@/components/generation-options";
+import { ScenarioLibrary } from "@/components/scenario-library";
+import { authoredScenarios } from "@/lib/simulation/authored";
+import { DEFAULT_GENERATION_OPTIONS, MAX_SCENARIO_COUNT, SCENARIO_TYPES } from "@/lib/simulation/generation";
+import { GeneratedScenario, GenerationOptions, LibraryScenario, Scenario, ScenarioDifficulty, Team } from "@/lib/types";
 
 export default function SelectionPage() {
   const router = useRouter();
@@ -28,13 +28,38 @@ export default function SelectionPage() {
   const [field, setField] = useState<string>("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [scenarios, setScenarios] = useState<Scenario[] | null>(null);
+  const [scenarios, setScenarios] = useState<GeneratedScenario[] | null>(null);
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  // Library ids of the generated scenarios saved so far, by index
+  const [savedIds, setSavedIds] = useState<Record<number, string>>({});
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  // Advanced /api/gen settings
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [options, setOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+  // A saved team fills in the size and field, and the session joins its profile
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState("");
+
+  useEffect(() => {
+    fetch("/api/teams")
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: Team[]) => setTeams(data))
+      .catch(() => setTeams([]));
+  }, []);
+
+  const handleTeamChange = (id: string) => {
+    setTeamId(id);
+    const team = teams.find((t) => t.id === id);
+    if (!team) return;
+    if (team.members.length > 0) setTeamSize(team.members.length);
+    setField(team.domain);
+  };
 
   const handleGenerate = async () => {
     setError(null);
     setScenarios(null);
     setSelectedIndex(null);
+    setSavedIds({});
 
     if (teamSize < 1) {
       setError("Please enter a valid team size.");
@@ -44,19 +69,25 @@ export default function SelectionPage() {
       setError("Please specify the field or area.");
       return;
     }
+    if (options.count < 1 || options.count > MAX_SCENARIO_COUNT) {
+      setError(`Choose between 1 and ${MAX_SCENARIO_COUNT} scenarios.`);
+      return;
+    }
 
     setLoading(true);
     try {
       const res = await fetch("/api/gen", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ teamSize, domain: field }),
+        body: JSON.stringify({ teamSize, domain: field, ...options }),
       });
 
       const data = await res.json();
 
       if (!res.ok) {
-        setError(data?.error || "Failed to generate scenarios");
+        setError(
+          [data?.error || "Failed to generate scenarios", ...(data?.details ?? [])].join(" ")
+        );
         setLoading(false);
         return;
       }
@@ -67,7 +98,7 @@ export default function SelectionPage() {
         return;
       }
 
-      setScenarios(data as Scenario[]);
+      setScenarios(data as GeneratedScenario[]);
     } catch (err) {
       setError("Network or server error.");
     } finally {
@@ -75,20 +106,69 @@ export default function SelectionPage() {
     }
   };
 
-  const handleProceed = (index: number) => {
-    if (!scenarios) return;
-    const scenario = scenarios[index];
-    // encode scenario as base64 to safely pass in query
-    const encoded = btoa(
-      unescape(encodeURIComponent(JSON.stringify(scenario)))
-    );
+  // Saves a scenario to the library so it can be rerun with other teams
+  const saveToLibrary = async (
+    scenario: Scenario,
+    difficulty: ScenarioDifficulty,
+    tags: string[] = []
+  ) => {
+    const res = await fetch("/api/scenarios", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...scenario,
+        domain: field.trim() || "General",
+        difficulty,
+        tags,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data?.error || "Failed to save scenario");
+    setLibraryVersion((v) => v + 1);
+    return data as LibraryScenario;
+  };
+
+  const handleSave = async (index: number) => {
+    if (!scenarios || savedIds[index]) return savedIds[index];
+    setError(null);
+    try {
+      const { title, description, keyDecision, scenarioType, difficulty } = scenarios[index];
+      const saved = await saveToLibrary({ title, description, keyDecision }, difficulty, [scenarioType]);
+      setSavedIds((ids) => ({ ...ids, [index]: saved.id }));
+      return saved.id;
+    } catch (err) {
+      setError((err as Error).message);
+      return undefined;
+    }
+  };
+
+  const handleAddAuthored = async (scenario: Scenario) => {
+    setError(null);
+    try {
+      await saveToLibrary(scenario, "medium", ["authored"]);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleProceed = (scenarioId: string) => {
+    // Library scenarios skip generation, so check the team details here too
+    if (teamSize < 1 || !field.trim()) {
+      setError("Enter a team size and field before starting a scenario.");
+      return;
+    }
     router.push(
-      `/interview?scenario=${encoded}&teamSize=${teamSize}&domain=${encodeURIComponent(
+      `/interview?scenarioId=${scenarioId}&teamSize=${teamSize}&domain=${encodeURIComponent(
         field
-      )}`
+      )}${teamId ? `&teamId=${teamId}` : ""}`
     );
   };
 
+  const handleUseGenerated = async (index: number) => {
+    const scenarioId = await handleSave(index);
+    if (scenarioId) handleProceed(scenarioId);
+  };
+
   return (
     <>
       <header className="w-full bg-white/80 backdrop-blur-sm sticky top-0 z-20 shadow-sm">
@@ -116,6 +196,12 @@ export default function SelectionPage() {
               >
                 Dashboard
               </a>
+              <a
+                href="/teams"
+                className="text-sm text-muted-foreground hover:underline hidden sm:inline"
+              >
+                Teams
+              </a>
             </div>
           </div>
         </div>
@@ -131,6 +217,25 @@ export default function SelectionPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            {teams.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="team">Team</Label>
+                <select
+                  id="team"
+                  value={teamId}
+                  onChange={(e) => handleTeamChange(e.target.value)}
+                  className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+                >
+                  <option value="">No saved team (one-off session)</option>
+                  {teams.map((team) => (
+                    <option key={team.id} value={team.id}>
+                      {team.name} ({team.members.length} members)
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="teamSize">Team Size</Label>
               <Input
@@ -155,6 +260,19 @@ export default function SelectionPage() {
               />
             </div>
 
+            <div className="space-y-3">
+              <button
+                type="button"
+                className="text-sm text-muted-foreground hover:underline"
+                onClick={() => setShowAdvanced((v) => !v)}
+              >
+                {showAdvanced ? "Hide advanced options" : "Show advanced options"}
+              </button>
+              {showAdvanced && (
+                <GenerationOptionsPanel value={options} onChange={setOptions} disabled={loading} />
+              )}
+            </div>
+
             {error && <div className="text-sm text-red-600">{error}</div>}
           </CardContent>
           <CardFooter>
@@ -225,12 +343,20 @@ export default function SelectionPage() {
                       <CardTitle className="mb-6 mt-6">{s.title}</CardTitle>
                       <CardDescription>{s.keyDecision}</CardDescription>
                     </CardHeader>
-                    <CardContent>
+                    <CardContent className="space-y-3">
                       <p className="text-sm text-muted-foreground">
                         {s.description}
                       </p>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="secondary">
+                          {SCENARIO_TYPES[s.scenarioType] ?? s.scenarioType}
+                        </Badge>
+                        <Badge variant="secondary" className="capitalize">
+                          {s.difficulty}
+                        </Badge>
+                      </div>
                     </CardContent>
-                    <CardFooter>
+                    <CardFooter className="flex justify-between">
                       <div className="mr-auto">
                         <button
                           type="button"
@@ -239,11 +365,19 @@ export default function SelectionPage() {
                               ? "font-bold "
                               : "font-normal"
                           }`}
-                          onClick={() => handleProceed(i)}
+                          onClick={() => handleUseGenerated(i)}
                         >
                           Use this scenario
                         </button>
                       </div>
+                      <button
+                        type="button"
+                        className="p-0 m-0 hover:cursor-pointer hover:underline text-sm text-muted-foreground disabled:no-underline disabled:cursor-default"
+                        onClick={() => handleSave(i)}
+                        disabled={Boolean(savedIds[i])}
+                      >
+                        {savedIds[i] ? "Saved to library" : "Save to library"}
+                      </button>
                     </CardFooter>
                   </Card>
                 ))}
@@ -251,6 +385,45 @@ export default function SelectionPage() {
             </div>
           </>
         )}
+
+        {/* --- Saved scenarios, reusable across teams --- */}
+        <div className="w-full flex justify-center">
+          <Separator className="my-14 w-full max-w-2xl" />
+        </div>
+        <ScenarioLibrary
+          refreshKey={libraryVersion}
+          onUse={(scenario: LibraryScenario) => handleProceed(scenario.id)}
+        />
+
+        {/* --- Authored scenarios: the same branching path for every team --- */}
+        <div className="w-full max-w-2xl mx-auto space-y-4 mt-10">
+          <h2 className="text-xl font-semibold">Authored Scenarios</h2>
+          <div className="grid gap-4 sm:grid-cols-2">
+            {authoredScenarios.map((s) => (
+              <Card key={s.title} className="p-4">
+                <CardHeader>
+                  <CardTitle className="mb-2 mt-6">{s.title}</CardTitle>
+                  <CardDescription>{s.keyDecision}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">{s.description}</p>
+                  <Badge variant="secondary">
+                    {s.graph?.nodes.filter((n) => n.kind !== "terminal").length} decision points
+                  </Badge>
+                </CardContent>
+                <CardFooter>
+                  <button
+                    type="button"
+                    className="p-0 m-0 hover:cursor-pointer hover:underline text-sm"
+                    onClick={() => handleAddAuthored(s)}
+                  >
+                    Add to library
+                  </button>
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+        </div>
       </div>
     </>
   );
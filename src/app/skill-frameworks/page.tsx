@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  exportSkillFramework,
+  SkillFrameworkEditor,
+  SkillFrameworkFormValue,
+} from '@/components/skill-framework-editor';
+import { DERIVED_METRICS, DEFAULT_SKILL_FRAMEWORK } from '@/lib/simulation/skills';
+import { Rubric, SkillFramework } from '@/lib/types';
+import { Copy, Download, Pencil, Plus, Trash2, XCircle } from 'lucide-react';
+
+// --- Skill Frameworks Page Component ---
+// The competencies WorkDNA profiles are worked out against. The built-in
+// default can be copied but not edited or deleted.
+export default function SkillFrameworksPage() {
+  const [frameworks, setFrameworks] = useState<SkillFramework[]>([]);
+  const [metricOptions, setMetricOptions] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<SkillFrameworkFormValue | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchFrameworks() {
+      try {
+        const [frameworkRes, rubricRes] = await Promise.all([
+          fetch('/api/skill-frameworks'),
+          fetch('/api/rubrics'),
+        ]);
+        const [frameworkData, rubricData] = await Promise.all([frameworkRes.json(), rubricRes.json()]);
+        if (!frameworkRes.ok) throw new Error(frameworkData?.error || 'Failed to load skill frameworks.');
+        if (!rubricRes.ok) throw new Error(rubricData?.error || 'Failed to load rubrics.');
+        setFrameworks(frameworkData as SkillFramework[]);
+        // Skills can be fed by any rubric's metrics, or by the derived scores
+        setMetricOptions([
+          ...new Set([
+            ...(rubricData as Rubric[]).flatMap((r) => r.metrics.map((m) => m.name)),
+            ...Object.values(DERIVED_METRICS),
+          ]),
+        ]);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchFrameworks();
+  }, []);
+
+  // Saved frameworks go to the top, after the default
+  const handleSaved = (framework: SkillFramework) => {
+    setFrameworks((current) => [
+      DEFAULT_SKILL_FRAMEWORK,
+      framework,
+      ...current.filter((f) => f.id !== framework.id && f.id !== DEFAULT_SKILL_FRAMEWORK.id),
+    ]);
+    setEditing(null);
+  };
+
+  const handleDelete = async (framework: SkillFramework) => {
+    if (!window.confirm(`Delete "${framework.name}"? WorkDNA profiles will no longer offer it.`)) return;
+    try {
+      setActionError(null);
+      const res = await fetch(`/api/skill-frameworks/${framework.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error((await res.json())?.error || 'Failed to delete the skill framework.');
+      setFrameworks((current) => current.filter((f) => f.id !== framework.id));
+    } catch (err) {
+      setActionError((err as Error).message);
+    }
+  };
+
+  const copyOf = ({ name, description, categories, skills }: SkillFramework): SkillFrameworkFormValue => ({
+    name: `${name} (copy)`,
+    description,
+    categories,
+    skills,
+  });
+
+  const blank = (): SkillFrameworkFormValue => ({
+    name: '',
+    description: '',
+    categories: [{ id: 'general', name: 'General' }],
+    skills: [],
+  });
+
+  // --- Render Functions ---
+
+  const renderFramework = (framework: SkillFramework) => (
+    <Card key={framework.id}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {framework.name}
+          {framework.id === DEFAULT_SKILL_FRAMEWORK.id && <Badge variant="secondary">Default</Badge>}
+        </CardTitle>
+        {framework.description && <CardDescription>{framework.description}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 text-sm">
+          {framework.categories.map((category) => {
+            const skills = framework.skills.filter((s) => s.category === category.id);
+            return (
+              <li key={category.id}>
+                <span className="font-semibold">{category.name}</span>
+                <span className="text-muted-foreground">
+                  {' '}· {skills.length > 0 ? skills.map((s) => s.name).join(', ') : 'no skills'}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => exportSkillFramework(framework)}>
+          <Download /> Export
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setEditing(copyOf(framework))}>
+          <Copy /> Copy
+        </Button>
+        {framework.id !== DEFAULT_SKILL_FRAMEWORK.id && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => setEditing(framework)}>
+              <Pencil /> Edit
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleDelete(framework)}>
+              <Trash2 /> Delete
+            </Button>
+          </>
+        )}
+      </CardFooter>
+    </Card>
+  );
+
+  // --- Main Return ---
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Skill Frameworks</h1>
+          <p className="text-muted-foreground">
+            The competencies on WorkDNA profiles, how they depend on each other and which metrics build them.
+          </p>
+        </div>
+        <Button onClick={() => setEditing(blank())}>
+          <Plus /> New Framework
+        </Button>
+      </div>
+
+      {actionError && <p className="text-sm text-destructive">{actionError}</p>}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : error ? (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <XCircle /> Error
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>Could not load skill frameworks: {error}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">{frameworks.map(renderFramework)}</div>
+      )}
+
+      <SkillFrameworkEditor
+        framework={editing}
+        metricOptions={metricOptions}
+        onClose={() => setEditing(null)}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+}
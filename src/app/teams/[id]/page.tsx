@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ArrowDownRight, ArrowLeft, ArrowRight, ArrowUpRight, Dna, Play, XCircle } from 'lucide-react';
+import { MetricTrend, RecurringGrowthArea, TeamProfile, Trend } from '@/lib/types';
+
+// One colour per metric, in first-seen order
+const SERIES_COLORS = ['#2563eb', '#d97706', '#16a34a', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#9333ea', '#ea580c'];
+
+const TREND_ICONS: Record<Trend, { icon: typeof ArrowRight; className: string; label: string }> = {
+  up: { icon: ArrowUpRight, className: 'text-green-600', label: 'Improving' },
+  down: { icon: ArrowDownRight, className: 'text-red-600', label: 'Declining' },
+  flat: { icon: ArrowRight, className: 'text-muted-foreground', label: 'Steady' },
+};
+
+// --- Team Profile Page Component ---
+// How a team's scores have moved across its analyzed simulations, what keeps
+// holding it back and which scenario to run next.
+export default function TeamProfilePage() {
+  const params = useParams();
+  const teamId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const [profile, setProfile] = useState<TeamProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!teamId) return;
+    async function fetchProfile() {
+      try {
+        const res = await fetch(`/api/teams/${teamId}/profile`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || 'Failed to load the team profile.');
+        setProfile(data as TeamProfile);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchProfile();
+  }, [teamId]);
+
+  // --- Helper Functions ---
+
+  // One row per session; the overall score is scaled to the 1-10 metric axis
+  const toChartData = ({ history }: TeamProfile) =>
+    history.map((point) => ({
+      session: new Date(point.createdAt).toLocaleDateString(),
+      scenario: point.scenarioTitle,
+      Overall: Math.round(point.overallScore) / 10,
+      ...point.heatmapData,
+    }));
+
+  const renderTrend = (trend: MetricTrend, scale: number) => {
+    const { icon: Icon, className, label } = TREND_ICONS[trend.trend];
+    return (
+      <div key={trend.metric} className="flex items-center justify-between gap-2 rounded-md border p-3">
+        <div>
+          <div className="font-medium">{trend.metric}</div>
+          <div className="text-xs text-muted-foreground">
+            {trend.previous === undefined
+              ? 'Only one session so far'
+              : `${trend.previous} on average over the sessions before`}
+          </div>
+        </div>
+        <div className={`flex items-center gap-1 font-bold ${className}`} title={label}>
+          {trend.latest}
+          <span className="text-xs font-normal text-muted-foreground">/{scale}</span>
+          <Icon className="h-5 w-5" aria-label={label} />
+        </div>
+      </div>
+    );
+  };
+
+  // --- Render Functions ---
+
+  const renderHeader = ({ team, history }: TeamProfile) => (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl">{team.name}</CardTitle>
+          <CardDescription>
+            {team.domain} · {history.length} analyzed simulation(s)
+          </CardDescription>
+        </div>
+        <Button asChild variant="outline" size="sm">
+          <a href={`/teams/${team.id}/workdna`}>
+            <Dna /> WorkDNA
+          </a>
+        </Button>
+      </CardHeader>
+      {team.members.length > 0 && (
+        <CardContent className="flex flex-wrap gap-2">
+          {team.members.map((member) => (
+            <a key={member.name} href={`/teams/${team.id}/workdna?member=${encodeURIComponent(member.name)}`}>
+              <Badge variant="secondary" className="hover:underline">
+                {member.name}
+                {member.role && ` · ${member.role}`}
+              </Badge>
+            </a>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+
+  const renderChart = (data: TeamProfile) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scores Over Time</CardTitle>
+        <CardDescription>Metrics from 1 to 10; the overall score is shown out of 10 to share the axis</CardDescription>
+      </CardHeader>
+      <CardContent className="h-[360px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={toChartData(data)}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="session" fontSize={11} />
+            <YAxis domain={[0, 10]} tickCount={6} fontSize={11} />
+            <Line type="monotone" dataKey="Overall" stroke="#111827" strokeWidth={3} />
+            {data.metrics.map((metric, i) => (
+              <Line
+                key={metric}
+                type="monotone"
+                dataKey={metric}
+                stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                connectNulls
+              />
+            ))}
+            <Legend />
+            <Tooltip labelFormatter={(label, payload) => `${label} · ${payload?.[0]?.payload?.scenario ?? ''}`} />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+
+  const renderTrends = ({ overall, trends }: TeamProfile) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trends</CardTitle>
+        <CardDescription>The latest session against the average of up to three before it</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {overall && renderTrend(overall, 100)}
+        {trends.map((trend) => renderTrend(trend, 10))}
+      </CardContent>
+    </Card>
+  );
+
+  const renderGrowthAreas = (areas: RecurringGrowthArea[], { history }: TeamProfile) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recurring Growth Areas</CardTitle>
+        <CardDescription>Raised in more than one session</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {areas.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has come up more than once yet.</p>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {areas.map((area) => (
+              <li key={area.text}>
+                <div>{area.text}</div>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  <Badge variant="outline">{area.simulationIds.length} sessions</Badge>
+                  {area.simulationIds.map((id) => (
+                    <a key={id} href={`/dashboard/simulations/${id}`} className="text-xs underline text-muted-foreground">
+                      {history.find((point) => point.simulationId === id)?.scenarioTitle ?? id}
+                    </a>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderRecommendation = ({ team, recommendation }: TeamProfile) => {
+    if (!recommendation) return null;
+    const { scenario } = recommendation;
+    return (
+      <Card className="bg-gradient-to-br from-primary/10 to-transparent">
+        <CardHeader>
+          <CardTitle>Next Recommended Scenario</CardTitle>
+          <CardDescription>Targets {recommendation.metric}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm">{recommendation.reason}</p>
+          <Button asChild>
+            <a
+              href={
+                scenario
+                  ? `/interview?scenarioId=${scenario.id}&teamSize=${team.members.length || 1}&domain=${encodeURIComponent(
+                      team.domain
+                    )}&teamId=${team.id}`
+                  : '/selection'
+              }
+            >
+              <Play /> {scenario ? `Run "${scenario.title}"` : 'Choose a scenario'}
+            </a>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // --- Main Return ---
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <a href="/teams">
+          <ArrowLeft /> Teams
+        </a>
+      </Button>
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-[360px] w-full" />
+        </div>
+      ) : error || !profile ? (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <XCircle /> Error
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>Could not load the team profile: {error}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {renderHeader(profile)}
+          {profile.history.length === 0 ? (
+            <p className="text-muted-foreground">
+              No analyzed simulations yet. Pick this team on the selection page when starting one.
+            </p>
+          ) : (
+            <>
+              {renderRecommendation(profile)}
+              {renderChart(profile)}
+              <div className="grid gap-6 lg:grid-cols-2">
+                {renderTrends(profile)}
+                {renderGrowthAreas(profile.recurringGrowthAreas, profile)}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
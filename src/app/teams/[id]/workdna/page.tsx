@@ -0,0 +1,302 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SkillTree } from '@/components/skill-tree';
+import { SkillGraphIssues } from '@/lib/simulation/skill-layout';
+import { UNLOCK_LEVEL } from '@/lib/simulation/skills';
+import { Skill, SkillFramework, Team, WorkDNA } from '@/lib/types';
+import { AlertTriangle, ArrowLeft, Lock, Settings, Unlock, XCircle } from 'lucide-react';
+
+const SELECT_CLASS = 'h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs';
+
+// --- WorkDNA Page Component ---
+// The team's skill tree, or one member's with `?member=<name>`, against the
+// skill framework in `?framework=<id>` (the default otherwise). Levels come
+// from the metrics of the analyzed simulations they took part in.
+function WorkDnaPageContent() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const teamId = Array.isArray(params.id) ? params.id[0] : params.id;
+  const member = searchParams.get('member') ?? undefined;
+  const frameworkId = searchParams.get('framework') ?? undefined;
+
+  const [workDna, setWorkDna] = useState<WorkDNA | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [frameworks, setFrameworks] = useState<SkillFramework[]>([]);
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+  const [issues, setIssues] = useState<SkillGraphIssues | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!teamId) return;
+    async function fetchWorkDna() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const query = new URLSearchParams({
+          ...(member && { member }),
+          ...(frameworkId && { framework: frameworkId }),
+        }).toString();
+        const [dnaRes, teamRes, frameworkRes] = await Promise.all([
+          fetch(`/api/teams/${teamId}/workdna${query ? `?${query}` : ''}`),
+          fetch(`/api/teams/${teamId}`),
+          fetch('/api/skill-frameworks'),
+        ]);
+        const [dnaData, teamData, frameworkData] = await Promise.all([
+          dnaRes.json(),
+          teamRes.json(),
+          frameworkRes.json(),
+        ]);
+        if (!dnaRes.ok) throw new Error(dnaData?.error || 'Failed to load WorkDNA.');
+        if (!teamRes.ok) throw new Error(teamData?.error || 'Failed to load the team.');
+        setWorkDna(dnaData as WorkDNA);
+        setTeam(teamData as Team);
+        // The picker is optional; the default framework still shows without it
+        setFrameworks(frameworkRes.ok ? (frameworkData as SkillFramework[]) : []);
+        setSelectedId(undefined);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchWorkDna();
+  }, [teamId, member, frameworkId]);
+
+  // --- Helper Functions ---
+
+  // The page's URL with one query parameter changed
+  const hrefWith = (key: 'member' | 'framework', value?: string) => {
+    const query = new URLSearchParams(searchParams.toString());
+    if (value) query.set(key, value);
+    else query.delete(key);
+    const search = query.toString();
+    return `/teams/${teamId}/workdna${search ? `?${search}` : ''}`;
+  };
+
+  // --- Render Functions ---
+
+  const renderHeader = (dna: WorkDNA, team: Team) => {
+    const unlocked = dna.skills.filter((s) => s.unlocked).length;
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">{dna.name} · WorkDNA</CardTitle>
+          <CardDescription>
+            {dna.member ? `${team.name} member · ` : ''}
+            {unlocked} of {dna.skills.length} skills unlocked · from {dna.simulationCount} analyzed simulation(s)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1 w-72">
+              <Label htmlFor="framework">Skill framework</Label>
+              <select
+                id="framework"
+                className={SELECT_CLASS}
+                value={dna.frameworkId}
+                onChange={(e) => router.push(hrefWith('framework', e.target.value))}
+              >
+                {frameworks.map((f) => (
+                  <option key={f.id} value={f.id}>{f.name}</option>
+                ))}
+              </select>
+            </div>
+            <Button asChild size="sm" variant="ghost">
+              <a href="/skill-frameworks">
+                <Settings /> Edit frameworks
+              </a>
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button asChild size="sm" variant={dna.member ? 'outline' : 'default'}>
+              <a href={hrefWith('member')}>Whole team</a>
+            </Button>
+            {team.members.map((m) => (
+              <Button
+                key={m.name}
+                asChild
+                size="sm"
+                variant={dna.member?.toLowerCase() === m.name.toLowerCase() ? 'default' : 'outline'}
+              >
+                <a href={hrefWith('member', m.name)}>{m.name}</a>
+              </Button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderSkill = (skill: Skill, dna: WorkDNA) => {
+    const findSkill = (id: string) => dna.skills.find((s) => s.id === id);
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {skill.unlocked ? <Unlock className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+            {skill.name}
+            <Badge variant={skill.unlocked ? 'default' : 'outline'}>{skill.unlocked ? 'Unlocked' : 'Locked'}</Badge>
+          </CardTitle>
+          <CardDescription>{skill.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          <div>
+            <Progress value={skill.level} />
+            <div className="mt-1 text-xs text-muted-foreground">
+              {skill.level}% · unlocks at {UNLOCK_LEVEL}% once every prerequisite is unlocked
+            </div>
+          </div>
+          <div>
+            <h4 className="font-semibold mb-1">Built from</h4>
+            <div className="flex flex-wrap gap-1">
+              {skill.metrics.map((metric) => (
+                <Badge key={metric} variant="secondary">{metric}</Badge>
+              ))}
+            </div>
+          </div>
+          {skill.dependencies.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-1">Requires</h4>
+              <div className="flex flex-wrap gap-1">
+                {skill.dependencies.map((id) => {
+                  const dependency = findSkill(id);
+                  return (
+                    <Badge key={id} variant={dependency?.unlocked ? 'default' : 'outline'}>
+                      {dependency?.name ?? id}
+                    </Badge>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+          <div>
+            <h4 className="font-semibold mb-1">Contributing simulations</h4>
+            {skill.contributions.length === 0 ? (
+              <p className="text-muted-foreground">No analyzed simulation has scored this skill yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {[...skill.contributions].reverse().map((c) => (
+                  <li key={c.simulationId} className="flex items-center justify-between gap-2">
+                    <a href={`/dashboard/simulations/${c.simulationId}`} className="hover:underline">
+                      {c.scenarioTitle}
+                      <span className="text-muted-foreground"> · {new Date(c.createdAt).toLocaleDateString()}</span>
+                    </a>
+                    <span className="font-semibold">{c.score}/10</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  // Reported by the skill tree; skills in a cycle can never unlock
+  const renderIssues = ({ cycles, orphans }: SkillGraphIssues, dna: WorkDNA) => {
+    if (cycles.length === 0 && orphans.length === 0) return null;
+    const name = (id: string) => dna.skills.find((s) => s.id === id)?.name ?? id;
+    return (
+      <Card className="border-amber-500">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-amber-700">
+            <AlertTriangle /> Skill framework problems
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="list-disc pl-5 space-y-1 text-sm">
+            {cycles.map((cycle) => (
+              <li key={cycle.join('>')}>
+                {cycle.length === 1
+                  ? `${name(cycle[0])} depends on itself, so it stays locked.`
+                  : `${cycle.map(name).join(', ')} depend on each other in a loop, so they stay locked.`}
+              </li>
+            ))}
+            {orphans.map((o) => (
+              <li key={`${o.skillId}>${o.dependencyId}`}>
+                {name(o.skillId)} depends on &quot;{o.dependencyId}&quot;, which is not in the framework; it is ignored.
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const selected = workDna?.skills.find((s) => s.id === selectedId);
+
+  // --- Main Return ---
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <a href={`/teams/${teamId}`}>
+          <ArrowLeft /> Team profile
+        </a>
+      </Button>
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-[500px] w-full" />
+        </div>
+      ) : error || !workDna || !team ? (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <XCircle /> Error
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>Could not load WorkDNA: {error}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {renderHeader(workDna, team)}
+          {issues && renderIssues(issues, workDna)}
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="lg:col-span-2">
+              <SkillTree
+                skills={workDna.skills}
+                categories={workDna.categories}
+                selectedId={selectedId}
+                onSelect={(skill) => setSelectedId(skill.id)}
+                onIssues={setIssues}
+              />
+            </div>
+            {selected ? (
+              renderSkill(selected, workDna)
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Pick a skill to see what builds it and the simulations that contributed to its level.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function WorkDnaPage() {
+  return (
+    <Suspense fallback={<Skeleton className="m-8 h-32" />}>
+      <WorkDnaPageContent />
+    </Suspense>
+  );
+}
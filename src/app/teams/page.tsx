@@ -0,0 +1,128 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { TeamEditor, TeamFormValue } from '@/components/team-editor';
+import { Team } from '@/lib/types';
+import { LineChart, Pencil, Plus, XCircle } from 'lucide-react';
+
+// --- Teams Page Component ---
+// Persistent teams, picked on the selection page so their simulations can
+// be followed on the team's profile.
+export default function TeamsPage() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<TeamFormValue | null>(null);
+
+  useEffect(() => {
+    async function fetchTeams() {
+      try {
+        const res = await fetch('/api/teams');
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || 'Failed to load teams.');
+        setTeams(data as Team[]);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchTeams();
+  }, []);
+
+  // Kept in the same alphabetical order the API lists them in
+  const handleSaved = (team: Team) => {
+    setTeams((current) =>
+      [team, ...current.filter((t) => t.id !== team.id)].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setEditing(null);
+  };
+
+  // --- Render Functions ---
+
+  const renderTeam = (team: Team) => (
+    <Card key={team.id}>
+      <CardHeader>
+        <CardTitle>{team.name}</CardTitle>
+        <CardDescription>
+          {team.domain} · {team.members.length} member(s)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {team.members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No members listed.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {team.members.map((member) => (
+              <li key={member.name}>
+                <span className="font-semibold">{member.name}</span>
+                {member.role && <span className="text-muted-foreground"> · {member.role}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setEditing(team)}>
+          <Pencil /> Edit
+        </Button>
+        <Button asChild size="sm">
+          <a href={`/teams/${team.id}`}>
+            <LineChart /> Profile
+          </a>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+
+  // --- Main Return ---
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Teams</h1>
+          <p className="text-muted-foreground">
+            Run simulations as a team to track its scores and growth areas across sessions.
+          </p>
+        </div>
+        <Button onClick={() => setEditing({ name: '', domain: '', members: [] })}>
+          <Plus /> New Team
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : error ? (
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <XCircle /> Error
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p>Could not load teams: {error}</p>
+          </CardContent>
+        </Card>
+      ) : teams.length === 0 ? (
+        <p className="text-muted-foreground">No teams yet.</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">{teams.map(renderTeam)}</div>
+      )}
+
+      <TeamEditor team={editing} onClose={() => setEditing(null)} onSaved={handleSaved} />
+    </div>
+  );
+}
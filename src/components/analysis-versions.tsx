@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { BIAS_TYPES } from "@/lib/simulation/biases";
+import { diffAnalyses, RUN_INFO_LABELS, ScoreChange } from "@/lib/simulation/versions";
+import { AnalysisVersion } from "@/lib/types";
+
+interface AnalysisVersionsProps {
+  simulationId: string;
+  // The simulation's current version; the history reloads when it changes
+  currentVersion?: number;
+  onReanalyzed: () => void;
+}
+
+const SELECT_CLASS = "h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs";
+
+const describeVersion = (v: AnalysisVersion) =>
+  `v${v.version} · ${new Date(v.createdAt).toLocaleString()}`;
+
+/**
+ * The analysis history of a simulation: a Re-analyze action, the settings
+ * behind each version and a diff between any two of them.
+ */
+export function AnalysisVersions({ simulationId, currentVersion, onReanalyzed }: AnalysisVersionsProps) {
+  const [versions, setVersions] = useState<AnalysisVersion[]>([]);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/sessions/${simulationId}/analyses`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Failed to load analysis versions");
+        const history = data as AnalysisVersion[];
+        setVersions(history);
+        // Newest against the one before it
+        setToId(history[0]?.id ?? "");
+        setFromId(history[1]?.id ?? "");
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [simulationId, currentVersion]);
+
+  const handleReanalyze = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/analyze-interview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ docId: simulationId, reanalyze: true }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || "Re-analysis failed");
+      }
+      onReanalyzed();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const from = versions.find((v) => v.id === fromId);
+  const to = versions.find((v) => v.id === toId);
+  // Always diff older -> newer, whichever way round they were picked
+  const diff = from && to && from.id !== to.id
+    ? from.version < to.version ? diffAnalyses(from, to) : diffAnalyses(to, from)
+    : null;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-muted-foreground">
+          {versions.length === 0
+            ? "This analysis was made before versioning; re-analyze to start a history."
+            : `${versions.length} version(s)`}
+        </span>
+        <Button size="sm" variant="outline" onClick={handleReanalyze} disabled={running}>
+          {running ? <Loader2 className="animate-spin" /> : <RefreshCw />}
+          {running ? "Re-analyzing..." : "Re-analyze"}
+        </Button>
+      </div>
+      {error && <div className="text-red-600">{error}</div>}
+
+      {versions.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {versions.map((v) => (
+            <li key={v.id} className="flex flex-wrap items-center gap-2 p-2">
+              <span className="font-medium">{describeVersion(v)}</span>
+              {v.version === currentVersion && <Badge>Current</Badge>}
+              <Badge variant="outline">{v.model}</Badge>
+              <Badge variant="outline">prompt {v.promptVersion}</Badge>
+              <Badge variant="outline">rubric {v.rubricId}</Badge>
+              <Badge variant="outline">temp {v.temperature}</Badge>
+              <span className="ml-auto font-semibold">{v.analysis.overallScore}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {versions.length > 1 && (
+        <div className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="diff-from">Compare</Label>
+              <select id="diff-from" className={SELECT_CLASS} value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                {versions.map((v) => (
+                  <option key={v.id} value={v.id}>{describeVersion(v)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="diff-to">With</Label>
+              <select id="diff-to" className={SELECT_CLASS} value={toId} onChange={(e) => setToId(e.target.value)}>
+                {versions.map((v) => (
+                  <option key={v.id} value={v.id}>{describeVersion(v)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!diff ? (
+            <p className="text-muted-foreground">Pick two different versions to compare.</p>
+          ) : (
+            <div className="space-y-4">
+              {diff.settings.length > 0 && (
+                <div>
+                  <h4 className="font-semibold mb-1">Settings</h4>
+                  <ul className="space-y-1">
+                    {diff.settings.map((s) => (
+                      <li key={s.field}>
+                        {RUN_INFO_LABELS[s.field]}: <span className="line-through text-muted-foreground">{s.before}</span>{" "}
+                        → {s.after}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <h4 className="font-semibold mb-1">Scores</h4>
+                <ul className="space-y-1">
+                  {[diff.overallScore, ...diff.metrics].map((change) => (
+                    <ScoreRow key={change.name} change={change} />
+                  ))}
+                </ul>
+              </div>
+
+              <FindingChanges title="Key Strengths" changes={diff.keyStrengths} />
+              <FindingChanges title="Growth Areas" changes={diff.growthAreas} />
+
+              {diff.biases.length > 0 && (
+                <div>
+                  <h4 className="font-semibold mb-1">Cognitive Biases (confidence)</h4>
+                  <ul className="space-y-1">
+                    {diff.biases.map((b) => (
+                      <li key={b.type}>
+                        {BIAS_TYPES[b.type].label}: {b.before === undefined ? "not detected" : `${b.before}%`} →{" "}
+                        {b.after === undefined ? "not detected" : `${b.after}%`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <p className="text-muted-foreground">
+                {diff.feedbackChanged ? "The actionable feedback was rewritten." : "The actionable feedback is unchanged."}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ScoreRow({ change }: { change: ScoreChange }) {
+  const delta = change.before !== undefined && change.after !== undefined ? change.after - change.before : null;
+  return (
+    <li className="flex items-center justify-between gap-2">
+      <span>{change.name}</span>
+      <span className="font-mono">
+        {change.before ?? "–"} → {change.after ?? "–"}
+        {delta !== null && delta !== 0 && (
+          <span className={`ml-2 ${delta > 0 ? "text-green-600" : "text-red-600"}`}>
+            {delta > 0 ? `+${delta}` : delta}
+          </span>
+        )}
+      </span>
+    </li>
+  );
+}
+
+function FindingChanges({ title, changes }: { title: string; changes: { added: string[]; removed: string[] } }) {
+  if (changes.added.length === 0 && changes.removed.length === 0) return null;
+  return (
+    <div>
+      <h4 className="font-semibold mb-1">{title}</h4>
+      <ul className="space-y-1">
+        {changes.added.map((text) => (
+          <li key={`+${text}`} className="text-green-700">+ {text}</li>
+        ))}
+        {changes.removed.map((text) => (
+          <li key={`-${text}`} className="text-red-700 line-through">− {text}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SCENARIO_DIFFICULTIES } from "@/lib/simulation/library";
+import { MAX_SCENARIO_COUNT, SCENARIO_TYPES, TIME_HORIZONS } from "@/lib/simulation/generation";
+import { GenerationOptions, ScenarioType, TimeHorizon } from "@/lib/types";
+
+interface GenerationOptionsPanelProps {
+  value: GenerationOptions;
+  onChange: (value: GenerationOptions) => void;
+  disabled?: boolean;
+}
+
+// Comma-separated text <-> list; empty entries are dropped by the server
+const toList = (text: string) => text.split(",");
+const fromList = (list: string[]) => list.join(",");
+
+/** The advanced settings for /api/gen on the selection page. */
+export function GenerationOptionsPanel({ value, onChange, disabled }: GenerationOptionsPanelProps) {
+  const set = (changes: Partial<GenerationOptions>) => onChange({ ...value, ...changes });
+
+  const toggleType = (type: ScenarioType) =>
+    set({
+      scenarioTypes: value.scenarioTypes.includes(type)
+        ? value.scenarioTypes.filter((t) => t !== type)
+        : [...value.scenarioTypes, type],
+    });
+
+  return (
+    <fieldset className="space-y-5 rounded-md border p-4" disabled={disabled}>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="count">Number of Scenarios</Label>
+          <Input
+            id="count"
+            type="number"
+            min={1}
+            max={MAX_SCENARIO_COUNT}
+            value={value.count}
+            onChange={(e) => set({ count: parseInt(e.target.value) || 0 })}
+            className="w-32"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Difficulty</Label>
+          <div className="flex gap-2">
+            {SCENARIO_DIFFICULTIES.map((level) => (
+              <Button
+                key={level}
+                type="button"
+                size="sm"
+                variant={value.difficulty === level ? "default" : "outline"}
+                className="capitalize"
+                onClick={() => set({ difficulty: level })}
+              >
+                {level}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Scenario Types</Label>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(SCENARIO_TYPES) as ScenarioType[]).map((type) => (
+            <Badge
+              key={type}
+              variant={value.scenarioTypes.includes(type) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => !disabled && toggleType(type)}
+            >
+              {SCENARIO_TYPES[type]}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">Leave all unselected for a mix.</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Time Horizon</Label>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(TIME_HORIZONS) as TimeHorizon[]).map((horizon) => (
+            <Button
+              key={horizon}
+              type="button"
+              size="sm"
+              variant={value.timeHorizon === horizon ? "default" : "outline"}
+              onClick={() => set({ timeHorizon: value.timeHorizon === horizon ? undefined : horizon })}
+            >
+              {TIME_HORIZONS[horizon]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="stakeholders">Stakeholders</Label>
+        <Input
+          id="stakeholders"
+          value={fromList(value.stakeholders)}
+          onChange={(e) => set({ stakeholders: toList(e.target.value) })}
+          placeholder="e.g., Customers, Regulators, Board"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="companyContext">Company Context</Label>
+        <Textarea
+          id="companyContext"
+          value={value.companyContext ?? ""}
+          onChange={(e) => set({ companyContext: e.target.value })}
+          placeholder="e.g., A 200-person fintech preparing for its Series C"
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="excludedTopics">Excluded Topics</Label>
+        <Input
+          id="excludedTopics"
+          value={fromList(value.excludedTopics)}
+          onChange={(e) => set({ excludedTopics: toList(e.target.value) })}
+          placeholder="e.g., Layoffs, Mergers"
+        />
+      </div>
+    </fieldset>
+  );
+}
@@ -0,0 +1,18 @@
+// Simple LoadingSpinner used in Suspense and while waiting for responses
+export function LoadingSpinner() {
+    return (
+        <div role="status" className="flex items-center justify-center p-4">
+            <svg
+                className="animate-spin h-6 w-6 text-gray-600"
+                xmlns="http://www.w3.org/2000/svg"
+                fill="none"
+                viewBox="0 0 24 24"
+                aria-hidden="true"
+            >
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
+            </svg>
+            <span className="sr-only">Loading...</span>
+        </div>
+    );
+}
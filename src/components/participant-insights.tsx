@@ -0,0 +1,51 @@
+import React from "react";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ParticipantInsight } from "@/lib/types";
+
+/**
+ * Per-member contribution share, influence and behavioural notes. Shown on
+ * the analysis page and the simulation detail page.
+ */
+export function ParticipantInsights({ participants }: { participants: ParticipantInsight[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Member</TableHead>
+          <TableHead className="w-40">Share of Discussion</TableHead>
+          <TableHead className="w-24">Influence</TableHead>
+          <TableHead>Notes</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {participants.map((p) => (
+          <TableRow key={p.participantId ?? p.name}>
+            <TableCell className="font-medium align-top">{p.name}</TableCell>
+            <TableCell className="align-top">
+              <Progress value={p.contributionShare} />
+              <div className="mt-1 text-xs text-muted-foreground">
+                {p.contributionShare}% · {p.messageCount} message{p.messageCount === 1 ? "" : "s"}
+              </div>
+            </TableCell>
+            <TableCell className="align-top font-semibold">
+              {p.influence !== undefined ? (
+                `${p.influence}/10`
+              ) : (
+                <span className="text-muted-foreground">Not assessed</span>
+              )}
+            </TableCell>
+            <TableCell className="align-top whitespace-normal text-sm text-muted-foreground">{p.notes}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
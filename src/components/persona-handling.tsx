@@ -0,0 +1,26 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { PersonaHandling } from "@/lib/types";
+
+/**
+ * How the team dealt with each stakeholder persona who spoke. Shown on the
+ * analysis page and the simulation detail page.
+ */
+export function PersonaHandlingList({ personas }: { personas: PersonaHandling[] }) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {personas.map((p) => (
+        <div key={p.personaId} className="rounded-md border border-amber-200 bg-amber-50 p-4 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <div className="font-semibold">{p.name}</div>
+              <Badge variant="outline" className="mt-1">{p.role}</Badge>
+            </div>
+            <div className="text-2xl font-bold text-amber-800">{p.score}/10</div>
+          </div>
+          <p className="text-sm text-amber-950">{p.notes}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Rubric, RubricDraft, RubricMetric } from "@/lib/types";
+
+// Saved rubrics have an id; new ones and copies don't yet.
+export type RubricFormValue = RubricDraft & { id?: string };
+
+interface RubricEditorProps {
+  // The rubric being edited; the dialog is closed while this is null.
+  rubric: RubricFormValue | null;
+  onClose: () => void;
+  onSaved: (rubric: Rubric) => void;
+}
+
+const BLANK_METRIC: RubricMetric = { name: "", description: "", low: "", high: "", weight: 1 };
+
+/**
+ * Edits a rubric's name and metrics: what each metric measures, what a 1
+ * and a 10 look like, and its weight in the overall score.
+ */
+export function RubricEditor({ rubric, onClose, onSaved }: RubricEditorProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [metrics, setMetrics] = useState<RubricMetric[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever a different rubric is opened
+  useEffect(() => {
+    if (!rubric) return;
+    setName(rubric.name);
+    setDescription(rubric.description);
+    setMetrics(rubric.metrics.length > 0 ? rubric.metrics : [BLANK_METRIC]);
+    setError(null);
+  }, [rubric]);
+
+  const totalWeight = metrics.reduce((sum, m) => sum + (m.weight > 0 ? m.weight : 0), 0);
+
+  const handleSave = async () => {
+    if (!rubric) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(rubric.id ? `/api/rubrics/${rubric.id}` : "/api/rubrics", {
+        method: rubric.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description, metrics }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.details?.join("; ") || data?.error || "Failed to save rubric");
+      }
+      onSaved(data as Rubric);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateMetric = (index: number, changes: Partial<RubricMetric>) =>
+    setMetrics((current) => current.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+
+  return (
+    <Dialog open={rubric !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{rubric?.id ? "Edit Rubric" : "New Rubric"}</DialogTitle>
+          <DialogDescription>
+            Analyses already made keep their scores; new ones use these metrics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rubric-name">Name</Label>
+            <Input id="rubric-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={60} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rubric-description">Description</Label>
+            <Textarea
+              id="rubric-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Metrics</Label>
+            {metrics.map((metric, i) => (
+              <div key={i} className="space-y-2 rounded-md border p-3">
+                <div className="flex gap-2">
+                  <Input
+                    value={metric.name}
+                    onChange={(e) => updateMetric(i, { name: e.target.value })}
+                    placeholder="Name, e.g. Stakeholder Empathy"
+                    aria-label="Metric name"
+                    maxLength={40}
+                  />
+                  <Input
+                    type="number"
+                    min={0.5}
+                    max={10}
+                    step={0.5}
+                    value={metric.weight}
+                    onChange={(e) => updateMetric(i, { weight: parseFloat(e.target.value) })}
+                    aria-label="Metric weight"
+                    className="w-24"
+                  />
+                </div>
+                <Textarea
+                  value={metric.description}
+                  onChange={(e) => updateMetric(i, { description: e.target.value })}
+                  placeholder="What this metric measures"
+                  aria-label="Metric description"
+                  rows={2}
+                />
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Input
+                    value={metric.low}
+                    onChange={(e) => updateMetric(i, { low: e.target.value })}
+                    placeholder="1 = ..."
+                    aria-label="What a score of 1 looks like"
+                  />
+                  <Input
+                    value={metric.high}
+                    onChange={(e) => updateMetric(i, { high: e.target.value })}
+                    placeholder="10 = ..."
+                    aria-label="What a score of 10 looks like"
+                  />
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {totalWeight > 0 && metric.weight > 0
+                      ? `${Math.round((metric.weight / totalWeight) * 100)}% of the overall score`
+                      : "Not counted"}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setMetrics((current) => current.filter((_, j) => j !== i))}
+                    disabled={metrics.length === 1}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setMetrics((current) => [...current, BLANK_METRIC])}
+              disabled={metrics.length >= 10}
+            >
+              + Metric
+            </Button>
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
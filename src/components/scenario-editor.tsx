@@ -0,0 +1,390 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SCENARIO_DIFFICULTIES } from "@/lib/simulation/library";
+import { PERSONA_PRESETS } from "@/lib/simulation/personas";
+import { DEFAULT_RUBRIC } from "@/lib/simulation/rubrics";
+import { TIMEOUT_ACTIONS } from "@/lib/simulation/timing";
+import { LibraryScenario, Persona, Rubric, ScenarioDifficulty, TimeoutAction } from "@/lib/types";
+
+interface ScenarioEditorProps {
+  // The scenario being edited; the dialog is closed while this is null.
+  scenario: LibraryScenario | null;
+  onClose: () => void;
+  onSaved: (scenario: LibraryScenario) => void;
+}
+
+// Blank inputs switch a clock off
+const toSeconds = (minutes: string) => (minutes.trim() ? Math.round(parseFloat(minutes) * 60) : undefined);
+const toMinutes = (seconds?: number) => (seconds ? String(seconds / 60) : "");
+
+// Ids are filled in from names by the server for new personas
+type PersonaDraft = Omit<Persona, "id"> & { id?: string };
+const BLANK_PERSONA: PersonaDraft = { name: "", role: "", goals: "", tone: "" };
+
+/**
+ * Edits a library scenario's text, tags, timers, personas, end conditions,
+ * debrief questions and analysis rubric. Graphs are kept as they are.
+ */
+export function ScenarioEditor({ scenario, onClose, onSaved }: ScenarioEditorProps) {
+  const [title, setTitle] = useState("");
+  const [keyDecision, setKeyDecision] = useState("");
+  const [description, setDescription] = useState("");
+  const [domain, setDomain] = useState("");
+  const [difficulty, setDifficulty] = useState<ScenarioDifficulty>("medium");
+  const [tags, setTags] = useState("");
+  const [turnMinutes, setTurnMinutes] = useState("");
+  const [sessionMinutes, setSessionMinutes] = useState("");
+  const [onTimeout, setOnTimeout] = useState<TimeoutAction>("escalate");
+  const [personas, setPersonas] = useState<PersonaDraft[]>([]);
+  const [maxTurns, setMaxTurns] = useState("");
+  const [finalDecision, setFinalDecision] = useState(false);
+  // One question per line
+  const [debriefQuestions, setDebriefQuestions] = useState("");
+  const [rubricId, setRubricId] = useState(DEFAULT_RUBRIC.id);
+  const [rubrics, setRubrics] = useState<Rubric[]>([DEFAULT_RUBRIC]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever a different scenario is opened
+  useEffect(() => {
+    if (!scenario) return;
+    setTitle(scenario.title);
+    setKeyDecision(scenario.keyDecision);
+    setDescription(scenario.description);
+    setDomain(scenario.domain);
+    setDifficulty(scenario.difficulty);
+    setTags(scenario.tags.join(", "));
+    setTurnMinutes(toMinutes(scenario.timing?.turnSeconds));
+    setSessionMinutes(toMinutes(scenario.timing?.sessionSeconds));
+    setOnTimeout(scenario.timing?.onTimeout ?? "escalate");
+    setPersonas(scenario.personas ?? []);
+    setMaxTurns(scenario.endConditions?.maxTurns ? String(scenario.endConditions.maxTurns) : "");
+    setFinalDecision(scenario.endConditions?.finalDecision ?? false);
+    setDebriefQuestions((scenario.debriefQuestions ?? []).join("\n"));
+    setRubricId(scenario.rubricId ?? DEFAULT_RUBRIC.id);
+    setError(null);
+  }, [scenario]);
+
+  // The rubrics to pick from; the default is always there
+  useEffect(() => {
+    if (!scenario) return;
+    fetch("/api/rubrics")
+      .then((res) => (res.ok ? res.json() : [DEFAULT_RUBRIC]))
+      .then((data: Rubric[]) => setRubrics(data))
+      .catch(() => setRubrics([DEFAULT_RUBRIC]));
+  }, [scenario]);
+
+  const handleSave = async () => {
+    if (!scenario) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/scenarios/${scenario.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title,
+          keyDecision,
+          description,
+          domain,
+          difficulty,
+          tags: tags.split(","),
+          timing: {
+            turnSeconds: toSeconds(turnMinutes),
+            sessionSeconds: toSeconds(sessionMinutes),
+            onTimeout,
+          },
+          personas,
+          endConditions: {
+            maxTurns: maxTurns.trim() ? parseInt(maxTurns, 10) : undefined,
+            finalDecision,
+          },
+          debriefQuestions: debriefQuestions.split("\n"),
+          rubricId,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.details?.join("; ") || data?.error || "Failed to save scenario");
+      }
+      onSaved(data as LibraryScenario);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePersona = (index: number, changes: Partial<PersonaDraft>) =>
+    setPersonas((current) => current.map((p, i) => (i === index ? { ...p, ...changes } : p)));
+
+  return (
+    <Dialog open={scenario !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Scenario</DialogTitle>
+          <DialogDescription>
+            Simulations already run with this scenario keep their original copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="scenario-title">Title</Label>
+            <Input id="scenario-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scenario-decision">Key Decision</Label>
+            <Input id="scenario-decision" value={keyDecision} onChange={(e) => setKeyDecision(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scenario-description">Description</Label>
+            <Textarea
+              id="scenario-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="scenario-domain">Domain</Label>
+              <Input id="scenario-domain" value={domain} onChange={(e) => setDomain(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <div className="flex gap-2">
+                {SCENARIO_DIFFICULTIES.map((level) => (
+                  <Button
+                    key={level}
+                    type="button"
+                    size="sm"
+                    variant={difficulty === level ? "default" : "outline"}
+                    className="capitalize"
+                    onClick={() => setDifficulty(level)}
+                  >
+                    {level}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scenario-tags">Tags</Label>
+            <Input
+              id="scenario-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g., privacy, onboarding"
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="scenario-turn-minutes">Minutes per Turn</Label>
+              <Input
+                id="scenario-turn-minutes"
+                type="number"
+                min={0}
+                step={0.5}
+                value={turnMinutes}
+                onChange={(e) => setTurnMinutes(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenario-session-minutes">Minutes per Session</Label>
+              <Input
+                id="scenario-session-minutes"
+                type="number"
+                min={0}
+                value={sessionMinutes}
+                onChange={(e) => setSessionMinutes(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>When a Turn Runs Out</Label>
+            <div className="flex gap-2">
+              {(Object.keys(TIMEOUT_ACTIONS) as TimeoutAction[]).map((action) => (
+                <Button
+                  key={action}
+                  type="button"
+                  size="sm"
+                  variant={onTimeout === action ? "default" : "outline"}
+                  onClick={() => setOnTimeout(action)}
+                >
+                  {TIMEOUT_ACTIONS[action]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Stakeholder Personas</Label>
+            {personas.map((persona, i) => (
+              <div key={i} className="space-y-2 rounded-md border p-3">
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <Input
+                    value={persona.name}
+                    onChange={(e) => updatePersona(i, { name: e.target.value })}
+                    placeholder="Name"
+                    aria-label="Persona name"
+                  />
+                  <Input
+                    value={persona.role}
+                    onChange={(e) => updatePersona(i, { role: e.target.value })}
+                    placeholder="Role, e.g. General Counsel"
+                    aria-label="Persona role"
+                  />
+                </div>
+                <Textarea
+                  value={persona.goals}
+                  onChange={(e) => updatePersona(i, { goals: e.target.value })}
+                  placeholder="What they want from the team"
+                  aria-label="Persona goals"
+                  rows={2}
+                />
+                <div className="flex gap-2">
+                  <Input
+                    value={persona.tone}
+                    onChange={(e) => updatePersona(i, { tone: e.target.value })}
+                    placeholder="Tone, e.g. blunt and impatient"
+                    aria-label="Persona tone"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => setPersonas((current) => current.filter((_, j) => j !== i))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              {PERSONA_PRESETS.filter((preset) => !personas.some((p) => p.role === preset.role)).map((preset) => (
+                <Button
+                  key={preset.role}
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPersonas((current) => [...current, preset])}
+                >
+                  + {preset.role}
+                </Button>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setPersonas((current) => [...current, BLANK_PERSONA])}
+              >
+                + Custom
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Ending</Label>
+            <p className="text-xs text-muted-foreground">
+              Sessions also end when the session clock runs out, at an authored ending, or when the facilitator ends them.
+            </p>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="scenario-max-turns">Maximum Turns</Label>
+                <Input
+                  id="scenario-max-turns"
+                  type="number"
+                  min={1}
+                  value={maxTurns}
+                  onChange={(e) => setMaxTurns(e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>On a Final Decision</Label>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={finalDecision ? "default" : "outline"}
+                    onClick={() => setFinalDecision(true)}
+                  >
+                    End the session
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={finalDecision ? "outline" : "default"}
+                    onClick={() => setFinalDecision(false)}
+                  >
+                    Keep going
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="scenario-debrief">Debrief Questions</Label>
+            <Textarea
+              id="scenario-debrief"
+              value={debriefQuestions}
+              onChange={(e) => setDebriefQuestions(e.target.value)}
+              placeholder="One per line. Leave blank to let the host write them."
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Analysis Rubric</Label>
+              <a href="/rubrics" target="_blank" rel="noopener noreferrer" className="text-xs underline">
+                Manage rubrics
+              </a>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {rubrics.map((rubric) => (
+                <Button
+                  key={rubric.id}
+                  type="button"
+                  size="sm"
+                  variant={rubricId === rubric.id ? "default" : "outline"}
+                  onClick={() => setRubricId(rubric.id)}
+                  title={rubric.metrics.map((m) => m.name).join(", ")}
+                >
+                  {rubric.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
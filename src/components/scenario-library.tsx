@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Archive, ArchiveRestore, Copy, Pencil, Play } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScenarioEditor } from "@/components/scenario-editor";
+import { SCENARIO_DIFFICULTIES } from "@/lib/simulation/library";
+import { LibraryScenario, ScenarioDifficulty } from "@/lib/types";
+
+interface ScenarioLibraryProps {
+  // Bump to reload after the parent saves a scenario
+  refreshKey: number;
+  onUse: (scenario: LibraryScenario) => void;
+}
+
+/**
+ * The saved scenarios, filterable by domain, difficulty and tag, with
+ * edit, clone and archive actions.
+ */
+export function ScenarioLibrary({ refreshKey, onUse }: ScenarioLibraryProps) {
+  const [scenarios, setScenarios] = useState<LibraryScenario[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [domainFilter, setDomainFilter] = useState<string | null>(null);
+  const [difficultyFilter, setDifficultyFilter] = useState<ScenarioDifficulty | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editing, setEditing] = useState<LibraryScenario | null>(null);
+
+  useEffect(() => {
+    const loadScenarios = async () => {
+      try {
+        setError(null);
+        const res = await fetch(`/api/scenarios${showArchived ? "?archived=include" : ""}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Failed to load the scenario library.");
+        setScenarios(data as LibraryScenario[]);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+
+    loadScenarios();
+  }, [refreshKey, showArchived]);
+
+  const domains = useMemo(
+    () => [...new Set((scenarios ?? []).map((s) => s.domain))].sort(),
+    [scenarios]
+  );
+  const tags = useMemo(
+    () => [...new Set((scenarios ?? []).flatMap((s) => s.tags))].sort(),
+    [scenarios]
+  );
+
+  const visible = (scenarios ?? []).filter(
+    (s) =>
+      (!domainFilter || s.domain === domainFilter) &&
+      (!difficultyFilter || s.difficulty === difficultyFilter) &&
+      (!tagFilter || s.tags.includes(tagFilter))
+  );
+
+  // Replace (or add) a scenario in the list after an action
+  const upsert = (scenario: LibraryScenario) => {
+    setScenarios((current) => {
+      const rest = (current ?? []).filter((s) => s.id !== scenario.id);
+      if (scenario.archived && !showArchived) return rest;
+      return [scenario, ...rest];
+    });
+  };
+
+  const runAction = async (url: string, body?: unknown) => {
+    try {
+      setError(null);
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? {}),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Action failed");
+      upsert(data as LibraryScenario);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const renderFilter = <T extends string>(
+    label: string,
+    values: readonly T[],
+    selected: T | null,
+    onSelect: (value: T | null) => void
+  ) =>
+    values.length > 0 && (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground w-20">{label}</span>
+        {values.map((value) => (
+          <Badge
+            key={value}
+            variant={selected === value ? "default" : "outline"}
+            className="cursor-pointer capitalize"
+            onClick={() => onSelect(selected === value ? null : value)}
+          >
+            {value}
+          </Badge>
+        ))}
+      </div>
+    );
+
+  const renderScenario = (s: LibraryScenario) => (
+    <Card key={s.id} className={`p-4 ${s.archived ? "opacity-60" : ""}`}>
+      <CardHeader>
+        <CardTitle className="mb-2 mt-6">{s.title}</CardTitle>
+        <CardDescription>{s.keyDecision}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground line-clamp-3">{s.description}</p>
+        <div className="flex flex-wrap gap-1">
+          <Badge variant="secondary">{s.domain}</Badge>
+          <Badge variant="secondary" className="capitalize">{s.difficulty}</Badge>
+          {s.graph && <Badge variant="secondary">Branching</Badge>}
+          {(s.timing?.turnSeconds || s.timing?.sessionSeconds) && <Badge variant="secondary">Timed</Badge>}
+          {s.personas && s.personas.length > 0 && (
+            <Badge variant="secondary">
+              {s.personas.length} persona{s.personas.length === 1 ? "" : "s"}
+            </Badge>
+          )}
+          {s.tags.map((tag) => (
+            <Badge key={tag} variant="outline">{tag}</Badge>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => onUse(s)} disabled={s.archived}>
+          <Play className="h-4 w-4" /> Use
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setEditing(s)}>
+          <Pencil className="h-4 w-4" /> Edit
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => runAction(`/api/scenarios/${s.id}/clone`)}>
+          <Copy className="h-4 w-4" /> Clone
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => runAction(`/api/scenarios/${s.id}/archive`, { archived: !s.archived })}
+        >
+          {s.archived ? (
+            <><ArchiveRestore className="h-4 w-4" /> Restore</>
+          ) : (
+            <><Archive className="h-4 w-4" /> Archive</>
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+
+  return (
+    <div className="w-full max-w-2xl mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Scenario Library</h2>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+          />
+          Show archived
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {renderFilter("Domain", domains, domainFilter, setDomainFilter)}
+        {renderFilter("Difficulty", SCENARIO_DIFFICULTIES, difficultyFilter, setDifficultyFilter)}
+        {renderFilter("Tag", tags, tagFilter, setTagFilter)}
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {scenarios === null && !error ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {[...Array(2)].map((_, i) => (
+            <Skeleton key={i} className="h-48 w-full" />
+          ))}
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No saved scenarios{scenarios?.length ? " match these filters" : " yet. Save a generated scenario to reuse it"}.
+        </p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">{visible.map(renderScenario)}</div>
+      )}
+
+      <ScenarioEditor
+        scenario={editing}
+        onClose={() => setEditing(null)}
+        onSaved={(saved) => {
+          upsert(saved);
+          setEditing(null);
+        }}
+      />
+    </div>
+  );
+}
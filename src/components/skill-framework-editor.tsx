@@ -0,0 +1,404 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SkillTree } from "@/components/skill-tree";
+import { SkillGraphIssues } from "@/lib/simulation/skill-layout";
+import { toFrameworkId } from "@/lib/simulation/skills";
+import { SkillCategory, SkillDefinition, SkillFramework, SkillFrameworkDraft } from "@/lib/types";
+import { Download, Upload, X } from "lucide-react";
+
+// Saved frameworks have an id; new ones, copies and imports don't yet.
+export type SkillFrameworkFormValue = SkillFrameworkDraft & { id?: string };
+
+interface SkillFrameworkEditorProps {
+  // The framework being edited; the dialog is closed while this is null.
+  framework: SkillFrameworkFormValue | null;
+  // Metric names skills can be fed by: every rubric's, plus the derived scores
+  metricOptions: string[];
+  onClose: () => void;
+  onSaved: (framework: SkillFramework) => void;
+}
+
+const SELECT_CLASS = "h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm shadow-xs";
+
+/** Downloads the framework's editable fields, which is also the import format. */
+export function exportSkillFramework(framework: SkillFrameworkDraft) {
+  const { name, description, categories, skills } = framework;
+  const blob = new Blob([JSON.stringify({ name, description, categories, skills }, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${toFrameworkId(name, [], "skill-framework")}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Edits a skill framework: its categories, and its skills on the skill tree
+ * canvas. Drag from one skill to another to make it a prerequisite; click a
+ * connection to remove it. The server checks the whole framework on save.
+ */
+export function SkillFrameworkEditor({ framework, metricOptions, onClose, onSaved }: SkillFrameworkEditorProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [categories, setCategories] = useState<SkillCategory[]>([]);
+  const [skills, setSkills] = useState<SkillDefinition[]>([]);
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+  const [issues, setIssues] = useState<SkillGraphIssues | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = (value: SkillFrameworkDraft) => {
+    setName(value.name);
+    setDescription(value.description);
+    setCategories(value.categories);
+    setSkills(value.skills);
+    setSelectedId(undefined);
+  };
+
+  // Reset the form whenever a different framework is opened
+  useEffect(() => {
+    if (!framework) return;
+    load(framework);
+    setError(null);
+  }, [framework]);
+
+  const handleSave = async () => {
+    if (!framework) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(framework.id ? `/api/skill-frameworks/${framework.id}` : "/api/skill-frameworks", {
+        method: framework.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description, categories, skills }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.details?.join("; ") || data?.error || "Failed to save skill framework");
+      }
+      onSaved(data as SkillFramework);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Replaces the form with a file's contents; nothing is saved until Save
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const data = JSON.parse(await file.text()) as Partial<SkillFrameworkDraft>;
+      if (!Array.isArray(data.categories) || !Array.isArray(data.skills)) {
+        throw new Error("The file has no 'categories' and 'skills' lists.");
+      }
+      load({
+        name: typeof data.name === "string" ? data.name : name,
+        description: typeof data.description === "string" ? data.description : "",
+        categories: data.categories,
+        skills: data.skills.map((s) => ({ ...s, dependencies: s.dependencies ?? [], metrics: s.metrics ?? [] })),
+      });
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  // --- Categories ---
+
+  const addCategory = () =>
+    setCategories((current) => [
+      ...current,
+      { id: toFrameworkId("New category", current.map((c) => c.id), "category"), name: "New category" },
+    ]);
+
+  const renameCategory = (id: string, categoryName: string) =>
+    setCategories((current) => current.map((c) => (c.id === id ? { ...c, name: categoryName } : c)));
+
+  // --- Skills ---
+
+  const selected = skills.find((s) => s.id === selectedId);
+
+  const updateSkill = (id: string, changes: Partial<SkillDefinition>) =>
+    setSkills((current) => current.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+
+  const addSkill = () => {
+    const id = toFrameworkId("New skill", skills.map((s) => s.id), "skill");
+    setSkills((current) => [
+      ...current,
+      { id, name: "New skill", category: categories[0]?.id ?? "", description: "", dependencies: [], metrics: [] },
+    ]);
+    setSelectedId(id);
+  };
+
+  // Other skills stop depending on a removed one
+  const removeSkill = (id: string) => {
+    setSkills((current) =>
+      current.filter((s) => s.id !== id).map((s) => ({ ...s, dependencies: s.dependencies.filter((d) => d !== id) }))
+    );
+    setSelectedId(undefined);
+  };
+
+  const connect = (prerequisiteId: string, skillId: string) =>
+    setSkills((current) =>
+      current.map((s) =>
+        s.id === skillId && !s.dependencies.includes(prerequisiteId)
+          ? { ...s, dependencies: [...s.dependencies, prerequisiteId] }
+          : s
+      )
+    );
+
+  const disconnect = (prerequisiteId: string, skillId: string) =>
+    setSkills((current) =>
+      current.map((s) =>
+        s.id === skillId ? { ...s, dependencies: s.dependencies.filter((d) => d !== prerequisiteId) } : s
+      )
+    );
+
+  const toggleMetric = (skill: SkillDefinition, metric: string) =>
+    updateSkill(skill.id, {
+      metrics: skill.metrics.includes(metric)
+        ? skill.metrics.filter((m) => m !== metric)
+        : [...skill.metrics, metric],
+    });
+
+  const skillName = (id: string) => skills.find((s) => s.id === id)?.name ?? id;
+
+  // --- Render Functions ---
+
+  const renderSelectedSkill = (skill: SkillDefinition) => (
+    <div className="space-y-3 rounded-md border p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-xs text-muted-foreground">{skill.id}</span>
+        <Button type="button" variant="ghost" size="sm" onClick={() => removeSkill(skill.id)}>
+          Remove
+        </Button>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="skill-name">Name</Label>
+        <Input
+          id="skill-name"
+          value={skill.name}
+          onChange={(e) => updateSkill(skill.id, { name: e.target.value })}
+          maxLength={60}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="skill-category">Category</Label>
+        <select
+          id="skill-category"
+          className={SELECT_CLASS}
+          value={skill.category}
+          onChange={(e) => updateSkill(skill.id, { category: e.target.value })}
+        >
+          {categories.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="skill-description">Description</Label>
+        <Textarea
+          id="skill-description"
+          value={skill.description}
+          onChange={(e) => updateSkill(skill.id, { description: e.target.value })}
+          rows={2}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Fed by</Label>
+        <div className="flex flex-wrap gap-1">
+          {[...new Set([...metricOptions, ...skill.metrics])].map((metric) => (
+            <button key={metric} type="button" onClick={() => toggleMetric(skill, metric)}>
+              <Badge variant={skill.metrics.includes(metric) ? "default" : "outline"}>{metric}</Badge>
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label>Requires</Label>
+        {skill.dependencies.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Nothing. Drag from another skill to this one to add a prerequisite.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {skill.dependencies.map((id) => (
+              <Badge key={id} variant="secondary" className="gap-1">
+                {skillName(id)}
+                <button type="button" onClick={() => disconnect(id, skill.id)} aria-label={`Remove ${skillName(id)}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderIssues = ({ cycles, orphans }: SkillGraphIssues) =>
+    (cycles.length > 0 || orphans.length > 0) && (
+      <ul className="list-disc pl-5 text-sm text-amber-700">
+        {cycles.map((cycle) => (
+          <li key={cycle.join(">")}>
+            {cycle.length === 1
+              ? `${skillName(cycle[0])} depends on itself.`
+              : `${cycle.map(skillName).join(", ")} depend on each other in a loop.`}
+          </li>
+        ))}
+        {orphans.map((o) => (
+          <li key={`${o.skillId}>${o.dependencyId}`}>
+            {skillName(o.skillId)} depends on &quot;{o.dependencyId}&quot;, which is not in the framework.
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <Dialog open={framework !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[95vh] overflow-y-auto sm:max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>{framework?.id ? "Edit Skill Framework" : "New Skill Framework"}</DialogTitle>
+          <DialogDescription>
+            WorkDNA profiles are worked out from the framework each time they are viewed, so edits apply straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="framework-name">Name</Label>
+              <Input id="framework-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={60} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="framework-description">Description</Label>
+              <Input
+                id="framework-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <div className="flex flex-wrap gap-2">
+              {categories.map((category) => (
+                <div key={category.id} className="flex items-center gap-1">
+                  <Input
+                    value={category.name}
+                    onChange={(e) => renameCategory(category.id, e.target.value)}
+                    aria-label="Category name"
+                    className="w-40"
+                    maxLength={40}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCategories((current) => current.filter((c) => c.id !== category.id))}
+                    disabled={categories.length === 1 || skills.some((s) => s.category === category.id)}
+                    title="Only categories without skills can be removed, and one must be left"
+                  >
+                    <X />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" size="sm" variant="outline" onClick={addCategory} disabled={categories.length >= 12}>
+                + Category
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-3">
+            <div className="space-y-2 lg:col-span-2">
+              <div className="flex items-center justify-between">
+                <Label>Skills</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={addSkill}
+                  disabled={categories.length === 0 || skills.length >= 60}
+                >
+                  + Skill
+                </Button>
+              </div>
+              <SkillTree
+                skills={skills}
+                categories={categories}
+                selectedId={selectedId}
+                onSelect={(skill) => setSelectedId(skill.id)}
+                onIssues={setIssues}
+                onConnect={connect}
+                onDisconnect={disconnect}
+              />
+              <p className="text-xs text-muted-foreground">
+                Drag from a skill&apos;s outgoing handle to another skill to make it a prerequisite; click a connection
+                to remove it.
+              </p>
+              {issues && renderIssues(issues)}
+            </div>
+            {selected ? (
+              renderSelectedSkill(selected)
+            ) : (
+              <p className="text-sm text-muted-foreground">Pick a skill on the canvas to edit it.</p>
+            )}
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = "";
+              }}
+            />
+            <Button type="button" variant="outline" onClick={() => fileInput.current?.click()} disabled={saving}>
+              <Upload /> Import JSON
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => exportSkillFramework({ name, description, categories, skills })}
+            >
+              <Download /> Export JSON
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,129 +1,324 @@
 'use client';
 
-import React, { useMemo } from 'react';
-import { ReactFlow, Background, Controls, MiniMap, Node, Edge } from '@xyflow/react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ReactFlow, Background, Controls, MiniMap, Node, Edge, Handle, Position } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
-import { Skill } from '@/lib/types';
+import { ChevronDown, ChevronRight, Lock, Unlock } from 'lucide-react';
+import { Skill, SkillCategory, SkillDefinition } from '@/lib/types';
+import {
+  checkSkillGraph,
+  layoutGraph,
+  LayoutDirection,
+  LayoutItem,
+  SkillGraphIssues,
+} from '@/lib/simulation/skill-layout';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 
-// This is a simple auto-layout algorithm.
-// For a real app, you'd use a library like dagre.
-function getLayoutedElements(skills: Skill[]) {
-  const nodes: Node[] = [];
-  const edges: Edge[] = [];
-  const spacing = { x: 200, y: 120 };
+// The size of a node card, which the layout spaces out
+const NODE_SIZE = { width: 192, height: 96 };
+const GAPS = {
+  vertical: { nodeGap: 32, layerGap: 64 },
+  horizontal: { nodeGap: 24, layerGap: 96 },
+};
 
-  const skillsById = new Map(skills.map(s => [s.id, s]));
-  const levels: Record<string, number> = {};
+// Collapsed categories are drawn as one node with this id prefix
+const CATEGORY_PREFIX = 'category:';
 
-  // Calculate level for each skill (0 = root)
-  function getLevel(skillId: string): number {
-    if (levels[skillId] !== undefined) return levels[skillId];
+// Earned skills on a WorkDNA profile; bare definitions in the framework editor
+export type TreeSkill = Skill | SkillDefinition;
 
-    const skill = skillsById.get(skillId);
-    if (!skill || skill.dependencies.length === 0) {
-      levels[skillId] = 0;
-      return 0;
-    }
+const isEarned = (skill: TreeSkill): skill is Skill => 'level' in skill;
+
+// What a node renders: the skill plus its category's display name
+type SkillNodeData = TreeSkill & { categoryName: string; selected: boolean; direction: LayoutDirection };
 
-    const maxDepLevel = Math.max(
-      ...skill.dependencies.map(depId => getLevel(depId))
-    );
-    levels[skillId] = maxDepLevel + 1;
-    return levels[skillId];
-  }
+// A collapsed category standing in for its skills
+type CategoryNodeData = {
+  name: string;
+  skillCount: number;
+  // Only for earned skills
+  progress?: { unlockedCount: number; level: number }; // level: the mean of its skills
+  direction: LayoutDirection;
+};
 
-  skills.forEach(skill => getLevel(skill.id));
+/**
+ * Lays the skills out as a layered graph. Skills in collapsed categories
+ * are replaced by one node per category, which takes over their
+ * dependencies in both directions.
+ */
+function getLayoutedElements(
+  skills: TreeSkill[],
+  categories: SkillCategory[],
+  collapsed: Set<string>,
+  direction: LayoutDirection,
+  selectedId?: string
+) {
+  const skillsById = new Map(skills.map(s => [s.id, s]));
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name ?? id;
+  const itemOf = (skillId: string) => {
+    const skill = skillsById.get(skillId);
+    return skill && collapsed.has(skill.category) ? `${CATEGORY_PREFIX}${skill.category}` : skillId;
+  };
 
-  // Position nodes based on level
-  const nodesByLevel: Record<number, string[]> = {};
+  // One item per visible skill or collapsed category, in framework order
+  const items: LayoutItem[] = [];
+  const members = new Map<string, TreeSkill[]>();
   skills.forEach(skill => {
-    const level = levels[skill.id];
-    if (!nodesByLevel[level]) {
-      nodesByLevel[level] = [];
+    const id = itemOf(skill.id);
+    const dependencies = skill.dependencies.map(itemOf).filter(dep => dep !== id);
+    if (id === skill.id) {
+      items.push({ id, dependencies });
+      return;
     }
-    nodesByLevel[level].push(skill.id);
+    const item = items.find(i => i.id === id);
+    if (item) item.dependencies.push(...dependencies.filter(dep => !item.dependencies.includes(dep)));
+    else items.push({ id, dependencies });
+    members.set(id, [...(members.get(id) ?? []), skill]);
   });
 
-  Object.entries(nodesByLevel).forEach(([levelStr, skillIds]) => {
-    const level = parseInt(levelStr, 10);
-    skillIds.forEach((skillId, index) => {
-      const skill = skillsById.get(skillId)!;
-      nodes.push({
-        id: skill.id,
-        type: 'skillNode', // Custom node type
-        position: {
-          x: index * spacing.x - (skillIds.length - 1) * spacing.x / 2,
-          y: level * spacing.y,
-        },
-        data: skill as unknown as Record<string, unknown>,
-      });
-
-      // Create edges
-      skill.dependencies.forEach(depId => {
-        edges.push({
-          id: `${depId}-${skillId}`,
-          source: depId,
-          target: skillId,
-          animated: skill.level < 100 && (skillsById.get(depId)?.level || 0) === 100,
-          style: { strokeWidth: 2 },
-        });
-      });
-    });
+  const { positions, edges: layoutEdges } = layoutGraph(items, {
+    direction,
+    nodeWidth: NODE_SIZE.width,
+    nodeHeight: NODE_SIZE.height,
+    ...GAPS[direction],
+  });
+
+  const nodes: Node[] = items.map(item => {
+    const grouped = members.get(item.id);
+    if (grouped) {
+      const earned = grouped.filter(isEarned);
+      return {
+        id: item.id,
+        type: 'categoryNode',
+        position: positions[item.id],
+        data: {
+          name: categoryName(grouped[0].category),
+          skillCount: grouped.length,
+          ...(earned.length === grouped.length && {
+            progress: {
+              unlockedCount: earned.filter(s => s.unlocked).length,
+              level: Math.round(earned.reduce((sum, s) => sum + s.level, 0) / earned.length),
+            },
+          }),
+          direction,
+        } satisfies CategoryNodeData,
+      };
+    }
+    const skill = skillsById.get(item.id)!;
+    return {
+      id: skill.id,
+      type: 'skillNode', // Custom node type
+      position: positions[skill.id],
+      data: {
+        ...skill,
+        categoryName: categoryName(skill.category),
+        selected: skill.id === selectedId,
+        direction,
+      } satisfies SkillNodeData,
+    };
+  });
+
+  // The ones leading to the next skills to unlock are animated; the ones
+  // closing a cycle are dashed red
+  const edges: Edge[] = layoutEdges.map(({ source, target, cyclic }) => {
+    const from = skillsById.get(source);
+    const to = skillsById.get(target);
+    return {
+      id: `${source}-${target}`,
+      source,
+      target,
+      animated: !cyclic && !!from && isEarned(from) && from.unlocked && !!to && isEarned(to) && !to.unlocked,
+      style: cyclic ? { strokeWidth: 2, stroke: '#dc2626', strokeDasharray: '6 4' } : { strokeWidth: 2 },
+    };
   });
 
   return { nodes, edges };
 }
 
-// --- Custom Node Component ---
-// This renders the skill inside the node
-const SkillNode = ({ data }: { data: Skill }) => {
+// Handles on the sides edges come in and go out, for the orientation
+const NodeHandles = ({ direction }: { direction: LayoutDirection }) => (
+  <>
+    <Handle type="target" position={direction === 'vertical' ? Position.Top : Position.Left} />
+    <Handle type="source" position={direction === 'vertical' ? Position.Bottom : Position.Right} />
+  </>
+);
+
+// --- Custom Node Components ---
+// This renders the skill inside the node; definitions show the metrics that feed them
+const SkillNode = ({ data }: { data: SkillNodeData }) => {
+  const earned = isEarned(data);
   let badgeVariant: 'default' | 'secondary' | 'outline' | 'destructive' = 'secondary';
-  if (data.level === 100) badgeVariant = 'default';
-  if (data.level < 30) badgeVariant = 'outline';
+  if (earned && data.level === 100) badgeVariant = 'default';
+  if (earned && !data.unlocked) badgeVariant = 'outline';
 
   return (
-    <Card className="w-48 shadow-lg">
+    <Card
+      className={`w-48 shadow-lg cursor-pointer ${earned && !data.unlocked ? 'opacity-60' : ''} ${
+        data.selected ? 'ring-2 ring-primary' : ''
+      }`}
+    >
+      <NodeHandles direction={data.direction} />
       <CardContent className="p-4">
-        <div className="flex justify-between items-center mb-2">
-          <h3 className="font-bold text-sm">{data.name}</h3>
-          <Badge variant={badgeVariant}>{data.category}</Badge>
+        <div className="flex justify-between items-center gap-1 mb-2">
+          <h3 className="font-bold text-sm flex items-center gap-1">
+            {earned && (data.unlocked ? <Unlock className="h-3 w-3" /> : <Lock className="h-3 w-3" />)}
+            {data.name}
+          </h3>
+          <Badge variant={badgeVariant}>{data.categoryName}</Badge>
         </div>
-        <Progress value={data.level} className="h-2" />
-        <span className="text-xs text-muted-foreground mt-1">{data.level}% Mastered</span>
+        {earned ? (
+          <>
+            <Progress value={data.level} className="h-2" />
+            <span className="text-xs text-muted-foreground mt-1">
+              {data.level}% Mastered · {data.contributions.length} session{data.contributions.length === 1 ? '' : 's'}
+            </span>
+          </>
+        ) : (
+          <span className="text-xs text-muted-foreground line-clamp-2">
+            {data.metrics.length > 0 ? data.metrics.join(', ') : 'No metrics yet'}
+          </span>
+        )}
       </CardContent>
     </Card>
   );
 };
 
-// Register custom node type
+// This renders a collapsed category; clicking it expands the category again
+const CategoryNode = ({ data }: { data: CategoryNodeData }) => (
+  <Card className="w-48 shadow-lg cursor-pointer border-dashed bg-muted">
+    <NodeHandles direction={data.direction} />
+    <CardContent className="p-4">
+      <h3 className="font-bold text-sm flex items-center gap-1 mb-2">
+        <ChevronRight className="h-3 w-3" />
+        {data.name}
+      </h3>
+      {data.progress ? (
+        <>
+          <Progress value={data.progress.level} className="h-2" />
+          <span className="text-xs text-muted-foreground mt-1">
+            {data.progress.unlockedCount} of {data.skillCount} unlocked · {data.progress.level}% average
+          </span>
+        </>
+      ) : (
+        <span className="text-xs text-muted-foreground">{data.skillCount} skills</span>
+      )}
+    </CardContent>
+  </Card>
+);
+
+// Register custom node types
 const nodeTypes = {
   skillNode: SkillNode,
+  categoryNode: CategoryNode,
 };
 
 // --- Main Tree Component ---
-interface SkillTreeProps {
-  skills: Skill[];
+interface SkillTreeProps<T extends TreeSkill> {
+  skills: T[];
+  categories: SkillCategory[];
+  selectedId?: string;
+  onSelect?: (skill: T) => void;
+  // Called with the framework's cycles and orphaned dependencies whenever the skills change
+  onIssues?: (issues: SkillGraphIssues) => void;
+  defaultDirection?: LayoutDirection;
+  // Editing: dragging from one skill to another makes the first a
+  // prerequisite of the second, and clicking a connection removes it
+  onConnect?: (prerequisiteId: string, skillId: string) => void;
+  onDisconnect?: (prerequisiteId: string, skillId: string) => void;
 }
 
-export function SkillTree({ skills }: SkillTreeProps) {
-  const { nodes, edges } = useMemo(() => getLayoutedElements(skills), [skills]);
+export function SkillTree<T extends TreeSkill>({
+  skills,
+  categories,
+  selectedId,
+  onSelect,
+  onIssues,
+  defaultDirection = 'vertical',
+  onConnect,
+  onDisconnect,
+}: SkillTreeProps<T>) {
+  const [direction, setDirection] = useState<LayoutDirection>(defaultDirection);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const issues = useMemo(() => checkSkillGraph(skills), [skills]);
+  useEffect(() => {
+    onIssues?.(issues);
+  }, [issues, onIssues]);
+
+  const { nodes, edges } = useMemo(
+    () => getLayoutedElements(skills, categories, collapsed, direction, selectedId),
+    [skills, categories, collapsed, direction, selectedId]
+  );
+
+  const toggleCategory = (id: string) =>
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  // Collapsed categories stand for several skills, so can't be connected
+  const isSkill = (id: string | null): id is string => !!id && !id.startsWith(CATEGORY_PREFIX);
+
+  // Only categories that have skills can be collapsed
+  const usedCategories = categories.filter(c => skills.some(s => s.category === c.id));
 
   return (
-    <div className="w-full h-[500px] border rounded-lg bg-gray-50">
-      <ReactFlow
-        nodes={nodes}
-        edges={edges}
-        nodeTypes={nodeTypes}
-        fitView
-      >
-        <Controls />
-        <MiniMap />
-        <Background gap={12} size={1} />
-      </ReactFlow>
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setDirection(direction === 'vertical' ? 'horizontal' : 'vertical')}
+        >
+          {direction === 'vertical' ? 'Top to bottom' : 'Left to right'}
+        </Button>
+        {usedCategories.map(category => (
+          <Button
+            key={category.id}
+            size="sm"
+            variant={collapsed.has(category.id) ? 'secondary' : 'ghost'}
+            onClick={() => toggleCategory(category.id)}
+          >
+            {collapsed.has(category.id) ? <ChevronRight /> : <ChevronDown />}
+            {category.name}
+          </Button>
+        ))}
+      </div>
+      <div className="w-full h-[500px] border rounded-lg bg-gray-50">
+        <ReactFlow
+          // Remounted when the layout changes shape, so it fits the view again
+          key={`${direction}:${[...collapsed].sort().join(',')}`}
+          nodes={nodes}
+          edges={edges}
+          nodeTypes={nodeTypes}
+          nodesConnectable={!!onConnect}
+          onConnect={({ source, target }) => {
+            if (isSkill(source) && isSkill(target) && source !== target) onConnect?.(source, target);
+          }}
+          onEdgeClick={(_, edge) => {
+            if (isSkill(edge.source) && isSkill(edge.target)) onDisconnect?.(edge.source, edge.target);
+          }}
+          onNodeClick={(_, node) => {
+            if (node.id.startsWith(CATEGORY_PREFIX)) {
+              toggleCategory(node.id.slice(CATEGORY_PREFIX.length));
+              return;
+            }
+            const skill = skills.find(s => s.id === node.id);
+            if (skill) onSelect?.(skill);
+          }}
+          fitView
+        >
+          <Controls />
+          <MiniMap />
+          <Background gap={12} size={1} />
+        </ReactFlow>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Team, TeamDraft, TeamMember } from "@/lib/types";
+
+// Saved teams have an id; new ones don't yet.
+export type TeamFormValue = TeamDraft & { id?: string };
+
+interface TeamEditorProps {
+  // The team being edited; the dialog is closed while this is null.
+  team: TeamFormValue | null;
+  onClose: () => void;
+  onSaved: (team: Team) => void;
+}
+
+const BLANK_MEMBER: TeamMember = { name: "", role: "" };
+
+/**
+ * Edits a team's name, field and members. Simulations already run keep
+ * the team they were started with.
+ */
+export function TeamEditor({ team, onClose, onSaved }: TeamEditorProps) {
+  const [name, setName] = useState("");
+  const [domain, setDomain] = useState("");
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever a different team is opened
+  useEffect(() => {
+    if (!team) return;
+    setName(team.name);
+    setDomain(team.domain);
+    setMembers(team.members.length > 0 ? team.members : [BLANK_MEMBER]);
+    setError(null);
+  }, [team]);
+
+  const handleSave = async () => {
+    if (!team) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(team.id ? `/api/teams/${team.id}` : "/api/teams", {
+        method: team.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        // Rows left blank are dropped rather than rejected
+        body: JSON.stringify({ name, domain, members: members.filter((m) => m.name.trim() !== "") }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.details?.join("; ") || data?.error || "Failed to save team");
+      }
+      onSaved(data as Team);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateMember = (index: number, changes: Partial<TeamMember>) =>
+    setMembers((current) => current.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+
+  return (
+    <Dialog open={team !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{team?.id ? "Edit Team" : "New Team"}</DialogTitle>
+          <DialogDescription>
+            Pick the team when starting a simulation to follow its growth over time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Name</Label>
+              <Input id="team-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={60} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-domain">Field</Label>
+              <Input
+                id="team-domain"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                placeholder="e.g. Healthcare"
+                maxLength={60}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {members.map((member, i) => (
+              <div key={i} className="flex gap-2">
+                <Input
+                  value={member.name}
+                  onChange={(e) => updateMember(i, { name: e.target.value })}
+                  placeholder="Name"
+                  aria-label="Member name"
+                  maxLength={60}
+                />
+                <Input
+                  value={member.role ?? ""}
+                  onChange={(e) => updateMember(i, { role: e.target.value })}
+                  placeholder="Role (optional)"
+                  aria-label="Member role"
+                  maxLength={60}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setMembers((current) => current.filter((_, j) => j !== i))}
+                  disabled={members.length === 1}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => setMembers((current) => [...current, BLANK_MEMBER])}
+              disabled={members.length >= 20}
+            >
+              + Member
+            </Button>
+          </div>
+
+          {error && <div className="text-sm text-red-600">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
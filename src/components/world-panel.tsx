@@ -0,0 +1,72 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { WorldState } from "@/lib/types";
+
+function Meter({ label, value, unit = "/100" }: { label: string; value: number; unit?: string }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-muted-foreground">{label}</span>
+        <span className={`font-semibold ${value < 30 ? "text-red-600" : ""}`}>
+          {value}
+          {unit}
+        </span>
+      </div>
+      <Progress value={value} />
+    </div>
+  );
+}
+
+/**
+ * The simulation's world state: budget, reputation, stakeholder trust, open
+ * risks and the decisions made so far. Live on the interview page, final on
+ * the detail page.
+ */
+export function WorldPanel({ world }: { world: WorldState }) {
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-2 gap-4">
+        <Meter label="Budget Left" value={world.budget} unit="%" />
+        <Meter label="Reputation" value={world.reputation} />
+      </div>
+
+      {world.stakeholderTrust.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium uppercase text-muted-foreground">Stakeholder Trust</div>
+          <div className="grid grid-cols-2 gap-4">
+            {world.stakeholderTrust.map(({ stakeholder, trust }) => (
+              <Meter key={stakeholder} label={stakeholder} value={trust} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium uppercase text-muted-foreground">Open Risks</div>
+        {world.openRisks.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {world.openRisks.map((risk) => (
+              <Badge key={risk} variant="outline" className="border-red-200 text-red-700">
+                {risk}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">None</p>
+        )}
+      </div>
+
+      {world.decisions.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs font-medium uppercase text-muted-foreground">Decisions Made</div>
+          <ol className="list-decimal pl-5 space-y-1">
+            {world.decisions.map((decision, i) => (
+              <li key={i}>{decision}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { LlmError } from '@/lib/llm';
+import { InvalidMoveError } from '@/lib/simulation/graph';
+import { formatEvent } from '@/lib/sse';
+import { ConflictError, NotFoundError } from '@/lib/storage';
+import { Simulation } from '@/lib/types';
+
+// What a missing document is called in the response.
+const NOT_FOUND_LABELS: Record<string, string> = {
+  scenarios: 'Scenario',
+  rooms: 'Room',
+  participants: 'Participant',
+  rubrics: 'Rubric',
+  teams: 'Team',
+  members: 'Member',
+  skillFrameworks: 'Skill framework',
+};
+
+/**
+ * Maps the errors thrown by the LLM and storage layers to a JSON response
+ * with the right status. `label` identifies the route in the server log.
+ */
+export function errorResponse(error: unknown, label: string): NextResponse {
+  console.error(`Error in ${label}:`, error);
+
+  if (error instanceof LlmError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+  }
+  if (error instanceof NotFoundError) {
+    const label = NOT_FOUND_LABELS[error.collection] ?? 'Simulation';
+    return NextResponse.json({ error: `${label} not found` }, { status: 404 });
+  }
+  if (error instanceof ConflictError) {
+    return NextResponse.json({ error: error.message }, { status: 409 });
+  }
+  if (error instanceof InvalidMoveError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  const message = error instanceof Error ? error.message : 'Internal server error';
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+/**
+ * Sends a host turn as server-sent events:
+ *   token  { text }        host text as it arrives (uncleaned)
+ *   done   { simulation }  the saved simulation, with the cleaned host entry
+ *   error  { error }       the turn failed; nothing was saved
+ * If the client disconnects, the model call is aborted and nothing is saved.
+ */
+export function turnStreamResponse(
+  // Undefined when the stream is cancelled before the turn is saved
+  turn: AsyncGenerator<string, Simulation | undefined>,
+  signal: AbortSignal,
+  label: string
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client cancels; the stream can't be written to after that
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) controller.enqueue(encoder.encode(formatEvent(event, data)));
+      };
+      try {
+        while (true) {
+          const result = await turn.next();
+          if (result.done) {
+            send('done', { simulation: result.value });
+            break;
+          }
+          send('token', { text: result.value });
+        }
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error(`Error in ${label}:`, error);
+          const message = error instanceof Error ? error.message : 'Internal server error';
+          send('error', { error: message });
+        }
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    async cancel() {
+      closed = true;
+      await turn.return(undefined);
+    },
+  });
+
+  return new Response(stream, { headers: EVENT_STREAM_HEADERS });
+}
@@ -0,0 +1,177 @@
+import { readEventStream } from "@/lib/sse";
+import {
+  GenerateJsonRequest,
+  GenerateTextRequest,
+  LlmError,
+  LlmProvider,
+  ResponseSchema,
+} from "./types";
+
+const DEFAULT_MODEL = "gemini-2.5-flash-preview-09-2025";
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+// Safety settings as plain JSON, shared by every route.
+const safetySettings = [
+  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+];
+
+type GeminiCandidate = {
+  content?: { parts?: { text?: string }[] };
+  finishReason?: string;
+  safetyRatings?: unknown;
+};
+
+type GeminiResponse = {
+  candidates?: GeminiCandidate[];
+  promptFeedback?: { blockReason?: string };
+};
+
+/**
+ * Talks to the Gemini REST `generateContent` and `streamGenerateContent`
+ * endpoints with plain `fetch`.
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = "gemini";
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(options: { apiKey?: string; model?: string; baseUrl?: string } = {}) {
+    const apiKey = options.apiKey ?? process.env.GOOGLE_GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new LlmError("Missing GOOGLE_GEMINI_API_KEY environment variable");
+    }
+    this.apiKey = apiKey;
+    this.model = options.model ?? process.env.GEMINI_MODEL ?? DEFAULT_MODEL;
+    this.baseUrl = (options.baseUrl ?? process.env.GEMINI_API_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/$/, "");
+  }
+
+  async generateText(request: GenerateTextRequest): Promise<string> {
+    return this.generate(request);
+  }
+
+  async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+    const text = await this.generate(request, request.schema);
+    return parseJsonText<T>(text);
+  }
+
+  async *streamText(request: GenerateTextRequest): AsyncIterable<string> {
+    const response = await this.post("streamGenerateContent", request, undefined, "&alt=sse");
+    if (!response.body) {
+      throw new LlmError("Gemini API returned an empty stream");
+    }
+
+    let received = false;
+    for await (const event of readEventStream(response.body)) {
+      const text = chunkText(JSON.parse(event.data) as GeminiResponse);
+      if (text) {
+        received = true;
+        yield text;
+      }
+    }
+    if (!received) {
+      throw new LlmError("Invalid response structure from AI model");
+    }
+  }
+
+  private async generate(request: GenerateTextRequest, schema?: ResponseSchema): Promise<string> {
+    const response = await this.post("generateContent", request, schema);
+    const result = (await response.json()) as GeminiResponse;
+    return extractText(result);
+  }
+
+  private async post(
+    method: "generateContent" | "streamGenerateContent",
+    request: GenerateTextRequest,
+    schema?: ResponseSchema,
+    query = ""
+  ): Promise<Response> {
+    const payload = {
+      contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+      systemInstruction: { parts: [{ text: request.systemInstruction }] },
+      generationConfig: {
+        temperature: request.temperature ?? 0.7,
+        maxOutputTokens: request.maxOutputTokens ?? 2048,
+        ...(schema && { responseMimeType: "application/json", responseSchema: schema }),
+      },
+      safetySettings,
+    };
+
+    const url = `${this.baseUrl}/models/${this.model}:${method}?key=${this.apiKey}${query}`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error("Error from Gemini API:", errorBody);
+      throw new LlmError(`Gemini API error: ${response.statusText}`, response.status, errorBody);
+    }
+    return response;
+  }
+}
+
+/**
+ * Pulls the generated text out of a Gemini response, turning blocked or
+ * truncated completions into errors with a useful message.
+ */
+function extractText(result: GeminiResponse): string {
+  const text = chunkText(result);
+  if (!result.candidates?.[0] || text.trim().length === 0) {
+    console.error("Invalid or empty response content from Gemini:", result);
+    throw new LlmError("Invalid response structure from AI model");
+  }
+  return text;
+}
+
+/**
+ * The text of a single response (or stream chunk), which may be empty.
+ * Throws when the chunk reports a block or truncation.
+ */
+function chunkText(result: GeminiResponse): string {
+  if (result.promptFeedback?.blockReason) {
+    throw new LlmError(`Prompt was blocked by the AI model (${result.promptFeedback.blockReason})`, 502);
+  }
+
+  const candidate = result.candidates?.[0];
+  const text = candidate?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+
+  if (candidate?.finishReason === "SAFETY") {
+    console.error("Safety Ratings:", JSON.stringify(candidate.safetyRatings, null, 2));
+    throw new LlmError("AI response was blocked by safety filters", 502);
+  }
+  if (candidate?.finishReason === "MAX_TOKENS") {
+    throw new LlmError("AI response was truncated (MAX_TOKENS)", 502, text);
+  }
+
+  return text;
+}
+
+/**
+ * The model may include extra commentary or whitespace around the JSON;
+ * try to extract the first JSON object or array safely.
+ */
+function parseJsonText<T>(text: string): T {
+  let jsonText = text.trim();
+
+  if (!jsonText.startsWith("{") && !jsonText.startsWith("[")) {
+    const first = jsonText.search(/[[{]/);
+    const last = Math.max(jsonText.lastIndexOf("}"), jsonText.lastIndexOf("]"));
+    if (first !== -1 && last > first) {
+      jsonText = jsonText.slice(first, last + 1);
+    }
+  }
+
+  try {
+    return JSON.parse(jsonText) as T;
+  } catch {
+    console.error("Failed to parse AI response as JSON:", text);
+    throw new LlmError("Failed to parse AI response as JSON.", 500, text);
+  }
+}
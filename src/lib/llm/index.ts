@@ -0,0 +1,29 @@
+import { GeminiProvider } from "./gemini";
+import { MockLlmProvider } from "./mock";
+import { LlmProvider } from "./types";
+
+export * from "./types";
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Returns the provider selected by `LLM_PROVIDER` ("gemini" by default,
+ * or "mock" for a deterministic offline model). Created lazily so a missing
+ * API key surfaces as a request error instead of crashing at import time.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (provider) return provider;
+
+  const name = (process.env.LLM_PROVIDER ?? "gemini").toLowerCase();
+  switch (name) {
+    case "gemini":
+      provider = new GeminiProvider();
+      break;
+    case "mock":
+      provider = new MockLlmProvider();
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use "gemini" or "mock".`);
+  }
+  return provider;
+}
@@ -0,0 +1,89 @@
+import {
+  GenerateJsonRequest,
+  GenerateTextRequest,
+  LlmProvider,
+  ResponseSchema,
+} from "./types";
+
+// Canned host lines for free-text generation. One is picked from a hash of
+// the prompt, so the same conversation always gets the same reply.
+const hostLines = [
+  "The board has just asked for your recommendation within the hour. What will you tell them?",
+  "A key customer has heard rumours and is threatening to leave. How do you respond?",
+  "Your legal team warns that the decision you are leaning towards carries real liability. Do you change course?",
+  "The media has just published a story about the situation. What is your public statement?",
+  "New data suggests the problem is twice as large as you thought. What do you do next?",
+];
+
+/**
+ * A deterministic, offline provider. Free text comes from a fixed pool and
+ * JSON output is synthesised from the requested schema, so the whole app
+ * runs without network access or an API key.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = "mock";
+  readonly model = "mock";
+
+  async generateText(request: GenerateTextRequest): Promise<string> {
+    return hostLines[hashString(request.prompt) % hostLines.length];
+  }
+
+  async *streamText(request: GenerateTextRequest): AsyncIterable<string> {
+    const text = await this.generateText(request);
+    // Word by word, so the UI exercises the same partial rendering path
+    for (const word of text.match(/\S+\s*/g) ?? []) {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      if (request.signal?.aborted) return;
+      yield word;
+    }
+  }
+
+  async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+    return sampleFromSchema(request.schema, "value", hashString(request.prompt)) as T;
+  }
+}
+
+/**
+ * Builds a value that conforms to the schema. Numbers land at 70% of any
+ * "X-Y" range mentioned in the description, arrays honour min/maxItems.
+ */
+function sampleFromSchema(schema: ResponseSchema, key: string, seed: number): unknown {
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[seed % schema.enum.length];
+  }
+
+  switch (schema.type) {
+    case "OBJECT": {
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties ?? {}).forEach(([name, property], i) => {
+        result[name] = sampleFromSchema(property, name, seed + i);
+      });
+      return result;
+    }
+    case "ARRAY": {
+      const count = Math.min(Math.max(schema.minItems ?? 2, 1), schema.maxItems ?? Infinity);
+      return Array.from({ length: count }, (_, i) =>
+        sampleFromSchema(schema.items ?? { type: "STRING" }, `${key} ${i + 1}`, seed + i)
+      );
+    }
+    case "NUMBER":
+    case "INTEGER": {
+      const range = schema.description?.match(/(\d+)\s*-\s*(\d+)/);
+      if (!range) return 7;
+      const [min, max] = [Number(range[1]), Number(range[2])];
+      return Math.round(min + (max - min) * 0.7);
+    }
+    case "BOOLEAN":
+      return false;
+    default:
+      return `Mock ${key}`;
+  }
+}
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,63 @@
+// --- Shared LLM types ---
+// Every AI route talks to the model through an `LlmProvider`, so the
+// request/response shapes live here rather than in each route.
+
+// Mirrors the subset of the Gemini `responseSchema` format we use.
+export type SchemaType =
+  | "STRING"
+  | "NUMBER"
+  | "INTEGER"
+  | "BOOLEAN"
+  | "ARRAY"
+  | "OBJECT";
+
+export interface ResponseSchema {
+  type: SchemaType;
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface GenerateTextRequest {
+  systemInstruction: string;
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Aborts the underlying request, e.g. when the client disconnects. */
+  signal?: AbortSignal;
+}
+
+export interface GenerateJsonRequest extends GenerateTextRequest {
+  schema: ResponseSchema;
+}
+
+export interface LlmProvider {
+  /** Provider id, e.g. "gemini" or "mock". */
+  readonly name: string;
+  /** The model that produced the output (stored alongside results). */
+  readonly model: string;
+  generateText(request: GenerateTextRequest): Promise<string>;
+  /** Yields the text as the model produces it. */
+  streamText(request: GenerateTextRequest): AsyncIterable<string>;
+  generateJson<T>(request: GenerateJsonRequest): Promise<T>;
+}
+
+/**
+ * Thrown by providers for any failure the routes should surface.
+ * `status` is the HTTP status the route should answer with.
+ */
+export class LlmError extends Error {
+  status: number;
+  details?: string;
+
+  constructor(message: string, status = 500, details?: string) {
+    super(message);
+    this.name = "LlmError";
+    this.status = status;
+    this.details = details;
+  }
+}
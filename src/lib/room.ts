@@ -0,0 +1,21 @@
+import { Participant } from '@/lib/types';
+
+// --- Live room membership (browser only) ---
+// A member's device remembers who it joined as, per simulation, and the
+// token it posts messages with. The facilitator's device has no entry.
+
+// The participant plus their token, as the join response sent them.
+export type RoomMember = Participant & { token: string };
+
+const participantKey = (simulationId: string) => `interview-participant:${simulationId}`;
+
+export function saveParticipant(simulationId: string, member: RoomMember): void {
+  localStorage.setItem(participantKey(simulationId), JSON.stringify(member));
+}
+
+// Devices that joined before tokens have to join again.
+export function loadParticipant(simulationId: string): RoomMember | null {
+  const saved = localStorage.getItem(participantKey(simulationId));
+  const member = saved ? (JSON.parse(saved) as Partial<RoomMember>) : null;
+  return member?.token ? (member as RoomMember) : null;
+}
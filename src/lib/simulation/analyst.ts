@@ -0,0 +1,401 @@
+import { getLlmProvider, ResponseSchema } from '@/lib/llm';
+import { findRubric, getSimulationRepository, NotFoundError } from '@/lib/storage';
+import {
+  Analysis,
+  AnalysisVersion,
+  BiasFinding,
+  Evidence,
+  ParticipantInsight,
+  Persona,
+  PersonaHandling,
+  Rubric,
+  Simulation,
+  TranscriptEntry,
+  WorldState,
+} from '@/lib/types';
+import { BIAS_TYPES, biasSchema, normalizeBiases, RawBias } from './biases';
+import { describeEnding } from './ending';
+import { evidenceSchema, findingSchema, resolveEvidence } from './evidence';
+import { describePath } from './graph';
+import { formatTranscript } from './host';
+import { Contribution, measureContributions } from './participation';
+import { describePersonas, spokenPersonas } from './personas';
+import { buildHeatmapSchema, describeRubric, weightedScore } from './rubrics';
+import { describeTimings } from './timing';
+import { describeWorld } from './world';
+
+// --- The analyst ---
+// Turns a finished simulation into a WorkDNA analysis. Every run is stored
+// as a new version alongside the settings that produced it, so a changed
+// prompt or rubric can be re-run and compared with what came before.
+
+// Bump whenever the analyst's prompts or schema change.
+export const ANALYSIS_PROMPT_VERSION = '1';
+const ANALYSIS_TEMPERATURE = 0.5;
+
+// --- Analysis Schema ---
+// This is what we will force the model to return. The findings, metrics and
+// their citations are filled in per simulation by `buildResponseSchema`,
+// and `overallScore` is worked out from the metrics afterwards.
+const responseSchema: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    actionableFeedback: {
+      type: 'STRING',
+      description:
+        'One concise, powerful paragraph of actionable advice for the team. This is the \'how to improve\' part.',
+    },
+  },
+  required: [
+    'keyStrengths',
+    'growthAreas',
+    'actionableFeedback',
+    'heatmapData',
+    'metricEvidence',
+  ],
+};
+
+// What the model says about each speaker; shares are measured, not asked for.
+type ParticipantAssessment = Pick<ParticipantInsight, 'name' | 'influence' | 'notes'>;
+type PersonaAssessment = Pick<PersonaHandling, 'personaId' | 'score' | 'notes'>;
+// Findings arrive with their citations and are split into the two afterwards.
+type CitedFinding = { text: string; evidence?: Partial<Evidence>[] };
+type AnalystResponse = Pick<Analysis, 'actionableFeedback' | 'heatmapData'> & {
+  keyStrengths: CitedFinding[];
+  growthAreas: CitedFinding[];
+  metricEvidence?: { metric: string; evidence?: Partial<Evidence>[] }[];
+  participants?: ParticipantAssessment[];
+  personas?: PersonaAssessment[];
+};
+
+/**
+ * Adds the cited findings and the rubric's metrics (with the entries behind
+ * each score), a per-speaker section when the transcript names who said
+ * what (one item per speaker, identified by name), and a per-persona
+ * section for the stakeholders who spoke.
+ */
+function buildResponseSchema(
+  rubric: Rubric,
+  transcriptLength: number,
+  contributions: Contribution[],
+  personas: Persona[]
+): ResponseSchema {
+  const properties: Record<string, ResponseSchema> = {
+    keyStrengths: {
+      type: 'ARRAY',
+      items: findingSchema('A key strength the team demonstrated.', transcriptLength),
+      description: 'A list of 2-3 key strengths the team demonstrated.',
+    },
+    growthAreas: {
+      type: 'ARRAY',
+      items: findingSchema('A critical area for improvement.', transcriptLength),
+      description: 'A list of 2-3 critical areas for improvement.',
+    },
+    ...responseSchema.properties,
+    heatmapData: buildHeatmapSchema(rubric),
+    metricEvidence: {
+      type: 'ARRAY',
+      description: 'For each rubric metric, the transcript entries its score rests on.',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          metric: { type: 'STRING', enum: rubric.metrics.map((m) => m.name) },
+          evidence: evidenceSchema(transcriptLength),
+        },
+        required: ['metric', 'evidence'],
+      },
+      minItems: rubric.metrics.length,
+      maxItems: rubric.metrics.length,
+    },
+  };
+  const required = [...responseSchema.required!];
+
+  if (contributions.length > 0) {
+    properties.participants = {
+      type: 'ARRAY',
+      description: 'One assessment for each named team member.',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          name: {
+            type: 'STRING',
+            enum: contributions.map((c) => c.name),
+          },
+          influence: {
+            type: 'NUMBER',
+            description:
+              'Score 1-10. 1=Their points were ignored, 10=They shaped the team\'s decisions.',
+          },
+          notes: {
+            type: 'STRING',
+            description:
+              '1-2 sentences on how they behaved: e.g. challenged assumptions, deferred to others, built on ideas, pushed for a decision.',
+          },
+        },
+        required: ['name', 'influence', 'notes'],
+      },
+      minItems: contributions.length,
+      maxItems: contributions.length,
+    };
+    required.push('participants');
+  }
+
+  if (personas.length > 0) {
+    properties.personas = {
+      type: 'ARRAY',
+      description: 'One assessment for each stakeholder persona who spoke.',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          personaId: {
+            type: 'STRING',
+            enum: personas.map((p) => p.id),
+          },
+          score: {
+            type: 'NUMBER',
+            description:
+              'Score 1-10. 1=Ignored or antagonised them, 10=Addressed their concerns while holding to a sound decision.',
+          },
+          notes: {
+            type: 'STRING',
+            description:
+              '1-2 sentences on how the team handled them: e.g. acknowledged their goals, negotiated, gave in, stonewalled.',
+          },
+        },
+        required: ['personaId', 'score', 'notes'],
+      },
+      minItems: personas.length,
+      maxItems: personas.length,
+    };
+    required.push('personas');
+  }
+
+  return { ...responseSchema, properties, required };
+}
+
+/**
+ * The persona details the analyst was not asked to repeat. Personas the
+ * analyst skipped are left out rather than given a score.
+ */
+function mergePersonas(personas: Persona[], assessments: PersonaAssessment[] = []): PersonaHandling[] {
+  return personas.flatMap((persona) => {
+    const assessment = assessments.find((a) => a.personaId === persona.id);
+    if (!assessment) return [];
+    return [{ personaId: persona.id, name: persona.name, role: persona.role, score: assessment.score, notes: assessment.notes }];
+  });
+}
+
+/**
+ * Joins the measured shares with the model's assessment of each speaker. A
+ * speaker the model skipped keeps their shares but gets no influence.
+ */
+function mergeParticipants(
+  contributions: Contribution[],
+  assessments: ParticipantAssessment[] = []
+): ParticipantInsight[] {
+  return contributions.map((contribution) => {
+    const assessment = assessments.find(
+      (a) => a.name.toLowerCase() === contribution.name.toLowerCase()
+    );
+    return {
+      ...contribution,
+      ...(assessment && { influence: assessment.influence }),
+      notes: assessment?.notes ?? '',
+    };
+  });
+}
+
+// --- Prompting Logic ---
+function getSystemInstruction(): string {
+  return `
+    You are 'Lead Analyst-AI', a world-class organizational psychologist and corporate strategist.
+    Your job is to analyze a *complete* simulation transcript and provide a "WorkDNA" analysis.
+
+    The user will provide the team's context (size, domain) and the full transcript.
+
+    focus on how the TEAM replies to the HOST , if language and professionalism is not upto the mark them red.
+    make sure to account if the team replies in split like Member 1 said somthing member 2 said somthing and soo on, but if
+    the team replies in collective response then no worries.
+    When RESPONSE TIMES are given, score Decisiveness from those real timings as well as the words: slow answers and turns where time ran out count against it.
+    PERSONA lines are stakeholders with their own goals speaking for themselves; judge how the team negotiated their competing interests.
+    The DEBRIEF is the team reflecting after the simulation ended; use it to judge their self-awareness, and name any gaps between what they say they did and what the transcript shows.
+    When a TEAM line names its speaker, e.g. "TEAM (Priya):", it was said by that member; use this to judge who contributed and who steered the discussion.
+
+    Analyze the *entire* conversation. Look for patterns, biases, strengths, and weaknesses.
+    - How did they handle pressure?
+    - Did they fall into groupthink?
+    - Did they consider the ethical or long-term consequences?
+    - Was their reasoning sound?
+    - Did they act decisively or get stuck in 'analysis paralysis'?
+
+    Back every strength, growth area and metric score with evidence: the [index] of each transcript entry it rests on and the exact words quoted from it. Cite what the team said or how they reacted, not the host's prompts.
+    Score every metric in the RUBRIC from 1 to 10, using its anchors: 1 is its low anchor, 10 its high anchor.
+
+    GOAL: Understand and improve how this team makes decisions collectively.
+    
+    You MUST return your analysis in the requested JSON format. Do not add *any* other text.
+  `;
+}
+
+// The bias pass gets its own prompt, so it looks only for biases instead of
+// squeezing them in between the findings and scores.
+function getBiasInstruction(): string {
+  return `
+    You are a behavioural scientist reviewing how a team made decisions during a simulation.
+    Read the transcript and identify which of these cognitive biases the team showed:
+    ${Object.entries(BIAS_TYPES)
+      .map(([type, { description }]) => `- ${type}: ${description}`)
+      .join('\n    ')}
+
+    Only report a bias when the team's own words show it, and cite the [index] of each transcript entry and the exact words quoted from it.
+    Confidence is how sure you are, 0-100: below 50 when the signs are weak or open to another reading.
+    A team that showed none of them gets an empty list; do not invent one.
+
+    You MUST return your findings in the requested JSON format. Do not add *any* other text.
+  `;
+}
+
+/** A separate, cooler call alongside the main analysis. */
+async function detectBiases(transcript: TranscriptEntry[]): Promise<BiasFinding[]> {
+  const { biases } = await getLlmProvider().generateJson<{ biases: RawBias[] }>({
+    systemInstruction: getBiasInstruction(),
+    prompt: `TRANSCRIPT:\n---\n${formatTranscript(transcript, { numbered: true })}\n---`,
+    temperature: 0.2,
+    maxOutputTokens: 4096,
+    schema: biasSchema(transcript.length),
+  });
+  return normalizeBiases(transcript, biases);
+}
+
+function buildUserPrompt(
+  teamSize: number,
+  domain: string,
+  transcript: TranscriptEntry[],
+  decisionPath: string,
+  contributions: Contribution[],
+  timings: string,
+  world: WorldState | undefined,
+  personas: Persona[],
+  ending: string,
+  rubric: Rubric
+): string {
+  // Convert transcript to a simple, readable string
+
+  const transcriptText = formatTranscript(transcript, { numbered: true });
+  return `
+    ANALYZE THE FOLLOWING SIMULATION:
+
+    CONTEXT:
+    - Team Size: ${teamSize}
+    - Domain: ${domain}
+
+    TRANSCRIPT:
+    ---
+    ${transcriptText}
+    ---
+
+    RUBRIC (${rubric.name}):
+    ${describeRubric(rubric).split('\n').join('\n    ')}
+${decisionPath ? `
+    DECISION PATH (authored scenario; other teams faced the same decision points):
+    ${decisionPath.split('\n').join('\n    ')}
+` : ''}${personas.length > 0 ? `
+    STAKEHOLDER PERSONAS WHO SPOKE:
+    ${describePersonas(personas).split('\n').join('\n    ')}
+` : ''}${world ? `
+    FINAL STATE (the consequences of the team's decisions, as tracked turn by turn):
+    ${describeWorld(world).split('\n').join('\n    ')}
+` : ''}${ending ? `
+    ENDING AND DEBRIEF:
+    ${ending.split('\n').join('\n    ')}
+` : ''}${timings ? `
+    RESPONSE TIMES:
+    ${timings.split('\n').join('\n    ')}
+` : ''}${contributions.length > 0 ? `
+    TEAM MEMBERS (share of the team's words, measured from the transcript):
+    ${contributions
+      .map((c) => `- ${c.name}: ${c.contributionShare}% across ${c.messageCount} message(s)`)
+      .join('\n    ')}
+    Assess each member's influence on the outcome and how they behaved, not just how much they said.
+` : ''}
+    Provide your full analysis in the structured JSON format.
+  `;
+}
+
+/**
+ * Runs the analyst and the bias pass over a simulation, scored against its
+ * scenario's rubric as it stands now, and saves the result as the
+ * simulation's next analysis version.
+ */
+export async function analyzeSimulation(simulation: Simulation): Promise<AnalysisVersion> {
+  const { teamSize, domain, transcript } = simulation;
+  const rubric = await findRubric(simulation.scenario.rubricId);
+  if (!rubric) throw new NotFoundError('rubrics', simulation.scenario.rubricId!);
+
+  const contributions = measureContributions(transcript);
+  const personas = spokenPersonas(simulation);
+  const userPrompt = buildUserPrompt(
+    teamSize,
+    domain,
+    transcript,
+    describePath(simulation),
+    contributions,
+    describeTimings(simulation),
+    simulation.world,
+    personas,
+    describeEnding(simulation),
+    rubric
+  );
+
+  // The analysis and the bias pass side by side
+  const llm = getLlmProvider();
+  const [
+    {
+      keyStrengths,
+      growthAreas,
+      metricEvidence = [],
+      participants,
+      personas: personaAssessments,
+      ...result
+    },
+    biases,
+  ] = await Promise.all([
+    llm.generateJson<AnalystResponse>({
+      systemInstruction: getSystemInstruction(),
+      prompt: userPrompt,
+      temperature: ANALYSIS_TEMPERATURE,
+      maxOutputTokens: 8192,
+      schema: buildResponseSchema(rubric, transcript.length, contributions, personas),
+    }),
+    detectBiases(transcript),
+  ]);
+  const analysis: Analysis = {
+    ...result,
+    keyStrengths: keyStrengths.map((finding) => finding.text),
+    growthAreas: growthAreas.map((finding) => finding.text),
+    overallScore: weightedScore(rubric, result.heatmapData),
+    rubricId: rubric.id,
+    // Checked against the transcript, so every citation is real
+    evidence: {
+      keyStrengths: keyStrengths.map((finding) => ({ evidence: resolveEvidence(transcript, finding.evidence) })),
+      growthAreas: growthAreas.map((finding) => ({ evidence: resolveEvidence(transcript, finding.evidence) })),
+      heatmapData: Object.fromEntries(
+        rubric.metrics.map((metric) => [
+          metric.name,
+          resolveEvidence(transcript, metricEvidence.find((m) => m.metric === metric.name)?.evidence),
+        ])
+      ),
+    },
+    ...(contributions.length > 0 && { participants: mergeParticipants(contributions, participants) }),
+    ...(personas.length > 0 && { personas: mergePersonas(personas, personaAssessments) }),
+  };
+
+  return getSimulationRepository().saveAnalysis(simulation.id, {
+    model: llm.model,
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+    rubricId: rubric.id,
+    temperature: ANALYSIS_TEMPERATURE,
+    analysis,
+    biases,
+  });
+}
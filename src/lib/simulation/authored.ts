@@ -0,0 +1,78 @@
+import { Scenario } from '@/lib/types';
+
+// --- Authored scenarios ---
+// Hand-written graphs that every team walks the same way. Offered on the
+// selection page next to the generated scenarios.
+
+export const authoredScenarios: Scenario[] = [
+  {
+    title: 'The Weekend Breach',
+    description:
+      'At 2 a.m. on a Saturday, your security lead reports that a misconfigured storage bucket has exposed customer records. Nobody outside the company knows yet.',
+    keyDecision: 'When and how to disclose the breach, and to whom.',
+    // A breach doesn't wait for the team: three minutes a turn
+    timing: { turnSeconds: 180, sessionSeconds: 30 * 60, onTimeout: 'escalate' },
+    graph: {
+      start: 'discovery',
+      nodes: [
+        {
+          id: 'discovery',
+          kind: 'choice',
+          narrative:
+            'Your security lead confirms roughly 40,000 customer records were publicly readable for nine days. The bucket is now locked down. Legal is asleep, the CEO is on a flight, and the on-call engineer asks what to do first.',
+          options: [
+            { id: 'notify-now', label: 'Notify affected customers immediately', next: 'early-notice' },
+            { id: 'investigate', label: 'Investigate fully before telling anyone', next: 'investigation' },
+            { id: 'escalate', label: 'Wake legal and the board before deciding', next: 'escalation' },
+          ],
+        },
+        {
+          id: 'early-notice',
+          kind: 'free-text',
+          narrative:
+            'Your notice goes out within the hour. By morning, a journalist has it and asks how the data was exposed, and your logs are not yet complete. What do you tell the press?',
+          next: 'regulator',
+        },
+        {
+          id: 'investigation',
+          kind: 'choice',
+          narrative:
+            'Three days into the investigation, a security researcher emails to say they found the bucket last week and will publish in 48 hours unless you respond.',
+          options: [
+            { id: 'cooperate', label: 'Work with the researcher on a joint disclosure', next: 'regulator' },
+            { id: 'legal-threat', label: 'Have legal send a cease-and-desist', next: 'public-fallout' },
+          ],
+        },
+        {
+          id: 'escalation',
+          kind: 'free-text',
+          narrative:
+            'Legal advises that you likely have 72 hours to notify the regulator. The board wants a single recommendation by noon. What do you recommend, and why?',
+          next: 'regulator',
+        },
+        {
+          id: 'regulator',
+          kind: 'choice',
+          narrative:
+            'The regulator opens an inquiry and asks for your timeline of events. One internal message shows an engineer flagged the bucket policy a month ago and was overruled.',
+          options: [
+            { id: 'full-timeline', label: 'Hand over the full timeline, including the ignored warning', next: 'accountable-close' },
+            { id: 'partial-timeline', label: 'Share the timeline from the moment of discovery only', next: 'public-fallout' },
+          ],
+        },
+        {
+          id: 'public-fallout',
+          kind: 'terminal',
+          narrative:
+            'The full story surfaces through the press, including what you held back. Customer churn spikes and the regulator escalates the inquiry. The simulation ends here.',
+        },
+        {
+          id: 'accountable-close',
+          kind: 'terminal',
+          narrative:
+            'The regulator notes your cooperation. Coverage is critical but short-lived, and the engineer who raised the warning now leads the cloud configuration review. The simulation ends here.',
+        },
+      ],
+    },
+  },
+];
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { BiasType } from '@/lib/types';
+import { normalizeBiases, RawBias } from './biases';
+import { makeEntry } from './test-fixtures';
+
+const transcript = [
+  makeEntry('host', { content: 'The ward is over budget. Which one closes?' }),
+  makeEntry('team', { content: 'The director said Ward B, so Ward B it is.' }),
+];
+
+const bias = (type: string, confidence: unknown, fields: Partial<RawBias> = {}) =>
+  ({
+    type: type as BiasType,
+    confidence,
+    explanation: `${type} at ${confidence}`,
+    evidence: [{ entryIndex: 1, quote: 'The director said Ward B' }],
+    ...fields,
+  }) as RawBias;
+
+describe('normalizeBiases', () => {
+  it('keeps the most confident finding per bias, most confident first', () => {
+    const found = normalizeBiases(transcript, [
+      bias('groupthink', 40),
+      bias('authority', 60),
+      bias('authority', 85),
+      bias('authority', 70),
+    ]);
+    expect(found.map((b) => [b.type, b.confidence, b.explanation])).toEqual([
+      ['authority', 85, 'authority at 85'],
+      ['groupthink', 40, 'groupthink at 40'],
+    ]);
+    expect(found[0].evidence).toEqual([{ entryIndex: 1, quote: 'The director said Ward B' }]);
+  });
+
+  it('clamps and rounds the confidence', () => {
+    const found = normalizeBiases(transcript, [bias('anchoring', 140), bias('sunk-cost', 33.6)]);
+    expect(found.map((b) => b.confidence)).toEqual([100, 34]);
+  });
+
+  it('drops unsure, unknown and unsupported findings', () => {
+    expect(
+      normalizeBiases(transcript, [
+        bias('anchoring', 19),
+        bias('optimism', 90),
+        bias('groupthink', '90'),
+        bias('confirmation', 90, { evidence: [{ entryIndex: 9, quote: 'Anything' }] }),
+        bias('sunk-cost', 90, { evidence: undefined }),
+      ])
+    ).toEqual([]);
+    expect(normalizeBiases(transcript)).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { ResponseSchema } from '@/lib/llm';
+import { BiasFinding, BiasType, Evidence, TranscriptEntry } from '@/lib/types';
+import { evidenceSchema, resolveEvidence } from './evidence';
+
+// --- Cognitive biases ---
+// Shared by the bias pass in /api/analyze-interview and the report page.
+
+export const BIAS_TYPES: Record<BiasType, { label: string; description: string }> = {
+  anchoring: {
+    label: 'Anchoring',
+    description: 'Leaning too heavily on the first number, option or framing that came up.',
+  },
+  'sunk-cost': {
+    label: 'Sunk Cost',
+    description: 'Sticking with a course because of what has already been spent on it.',
+  },
+  confirmation: {
+    label: 'Confirmation Bias',
+    description: 'Seeking or favouring information that supports a view already held, and dismissing the rest.',
+  },
+  authority: {
+    label: 'Authority Bias',
+    description: 'Deferring to the most senior or loudest voice instead of weighing the argument.',
+  },
+  groupthink: {
+    label: 'Groupthink',
+    description: 'Converging on consensus without dissent, alternatives or critical challenge.',
+  },
+  'escalation-of-commitment': {
+    label: 'Escalation of Commitment',
+    description: 'Doubling down on a failing decision as the evidence against it grows.',
+  },
+};
+
+// Below this the pass is guessing, so the finding is dropped
+const MIN_CONFIDENCE = 20;
+
+/** What the bias pass returns. */
+export function biasSchema(transcriptLength: number): ResponseSchema {
+  return {
+    type: 'OBJECT',
+    properties: {
+      biases: {
+        type: 'ARRAY',
+        description: 'Each bias the team showed. Leave out any bias that was not observed.',
+        items: {
+          type: 'OBJECT',
+          properties: {
+            type: { type: 'STRING', enum: Object.keys(BIAS_TYPES) },
+            confidence: {
+              type: 'INTEGER',
+              description: 'How sure you are the team showed it, 0-100.',
+            },
+            explanation: {
+              type: 'STRING',
+              description: '1-2 sentences on how the bias showed up and what it cost the team.',
+            },
+            evidence: evidenceSchema(transcriptLength),
+          },
+          required: ['type', 'confidence', 'explanation', 'evidence'],
+        },
+        maxItems: Object.keys(BIAS_TYPES).length,
+      },
+    },
+    required: ['biases'],
+  };
+}
+
+// As the model returns it, before `normalizeBiases`.
+export type RawBias = Partial<Omit<BiasFinding, 'evidence'>> & { evidence?: Partial<Evidence>[] };
+
+/**
+ * Keeps one finding per bias (the most confident), drops the unsure ones
+ * and checks the quotes against the transcript. Most confident first.
+ */
+export function normalizeBiases(transcript: TranscriptEntry[], raw: RawBias[] = []): BiasFinding[] {
+  const found = new Map<BiasType, BiasFinding>();
+  for (const bias of raw) {
+    if (!bias.type || !(bias.type in BIAS_TYPES) || typeof bias.confidence !== 'number') continue;
+    const confidence = Math.round(Math.min(100, Math.max(0, bias.confidence)));
+    if (confidence < MIN_CONFIDENCE || (found.get(bias.type)?.confidence ?? -1) >= confidence) continue;
+
+    const evidence = resolveEvidence(transcript, bias.evidence);
+    if (evidence.length === 0) continue; // unsupported
+    found.set(bias.type, { type: bias.type, confidence, explanation: bias.explanation ?? '', evidence });
+  }
+  return [...found.values()].sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { Simulation, TranscriptEntry } from '@/lib/types';
+import { divergentPathDecisions, listMetrics, parseCompareIds, toComparedSimulations } from './comparison';
+import { breachGraph, makeEntry, makeSimulation } from './test-fixtures';
+
+const team = (nodeId: string, content: string, optionId?: string) =>
+  makeEntry('team', { content, nodeId, optionId });
+
+const simulation = (id: string, transcript: TranscriptEntry[], fields: Partial<Simulation> = {}) =>
+  makeSimulation({
+    id,
+    scenario: { graph: breachGraph },
+    transcript,
+    status: 'analyzed',
+    ...fields,
+  });
+
+describe('parseCompareIds', () => {
+  it('drops duplicates and checks the count', () => {
+    expect(parseCompareIds(['a', ' b ', 'a'])).toEqual({ ids: ['a', 'b'], errors: [] });
+    expect(parseCompareIds(['a', 'a']).errors).toEqual(["'ids' must name 2-6 different simulations"]);
+    expect(parseCompareIds('a,b').errors).toEqual(["'ids' must be an array of simulation ids"]);
+  });
+});
+
+describe('toComparedSimulations', () => {
+  it('labels them in order and lists every metric once', () => {
+    const compared = toComparedSimulations([
+      simulation('s1', [], {
+        analysis: {
+          overallScore: 70,
+          keyStrengths: [],
+          growthAreas: [],
+          actionableFeedback: '',
+          heatmapData: { Speed: 7, Care: 6 },
+        },
+      }),
+      simulation('s2', []),
+    ]);
+    expect(compared.map((s) => [s.label, s.overallScore, s.rubricId])).toEqual([
+      ['A', 70, 'default'],
+      ['B', 0, 'default'],
+    ]);
+    expect(listMetrics([...compared, { ...compared[1], heatmapData: { Care: 5, Risk: 4 } }])).toEqual([
+      'Speed',
+      'Care',
+      'Risk',
+    ]);
+  });
+});
+
+describe('divergentPathDecisions', () => {
+  it('lists only the points where the teams went different ways', () => {
+    const disclosed = simulation('s1', [
+      team('breach', 'Disclose now', 'disclose'),
+      team('press', 'We   apologise\nfully.'),
+    ]);
+    const waited = simulation('s2', [team('breach', 'Investigate first', 'wait')]);
+    const alsoDisclosed = simulation('s3', [team('breach', 'Disclose now', 'disclose'), team('press', 'No comment')]);
+
+    expect(divergentPathDecisions([disclosed, alsoDisclosed])).toEqual([
+      {
+        point: 'The press calls.',
+        choices: [
+          { simulationId: 's1', choice: '"We apologise fully."' },
+          { simulationId: 's3', choice: '"No comment"' },
+        ],
+      },
+    ]);
+    expect(divergentPathDecisions([disclosed, waited]).map((d) => d.choices.map((c) => c.choice))).toEqual([
+      ['Disclose now', 'Investigate first'],
+      ['"We apologise fully."', 'Did not reach this point'],
+    ]);
+  });
+
+  it('is empty unless every simulation ran the same authored scenario', () => {
+    const improvised = makeSimulation({ id: 's2' });
+    expect(divergentPathDecisions([simulation('s1', [team('breach', 'Disclose now', 'disclose')]), improvised])).toEqual([]);
+  });
+});
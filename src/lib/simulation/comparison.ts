@@ -0,0 +1,87 @@
+import { ComparedSimulation, DivergentDecision, Simulation } from '@/lib/types';
+import { getNode, getPath } from './graph';
+
+// --- Comparing simulations ---
+// Shared by /api/compare and the dashboard, which picks what to compare.
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 6;
+
+const MAX_POINT_LENGTH = 140;
+const MAX_CHOICE_LENGTH = 80;
+
+/** The `ids` of a compare request: distinct, and between the limits. */
+export function parseCompareIds(value: unknown): { ids?: string[]; errors: string[] } {
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'string' || id.trim() === '')) {
+    return { errors: ["'ids' must be an array of simulation ids"] };
+  }
+  const ids = [...new Set(value.map((id: string) => id.trim()))];
+  if (ids.length < MIN_COMPARED || ids.length > MAX_COMPARED) {
+    return { errors: [`'ids' must name ${MIN_COMPARED}-${MAX_COMPARED} different simulations`] };
+  }
+  return { ids, errors: [] };
+}
+
+/** Labels the simulations A, B, ... in the order they were picked. */
+export function toComparedSimulations(simulations: Simulation[]): ComparedSimulation[] {
+  return simulations.map((simulation, i) => ({
+    id: simulation.id,
+    label: String.fromCharCode(65 + i),
+    scenarioTitle: simulation.scenario.title,
+    domain: simulation.domain,
+    teamSize: simulation.teamSize,
+    createdAt: simulation.createdAt,
+    rubricId: simulation.analysis?.rubricId ?? 'default',
+    overallScore: simulation.analysis?.overallScore ?? 0,
+    heatmapData: simulation.analysis?.heatmapData ?? {},
+  }));
+}
+
+/** Every metric any of them was scored on, in first-seen order. */
+export function listMetrics(simulations: ComparedSimulation[]): string[] {
+  return [...new Set(simulations.flatMap((s) => Object.keys(s.heatmapData)))];
+}
+
+/**
+ * For simulations of the same authored scenario: the decision points where
+ * they didn't all take the same option. Teams that never reached a point
+ * count as having gone another way. Empty for improvised scenarios.
+ */
+export function divergentPathDecisions(simulations: Simulation[]): DivergentDecision[] {
+  const graph = simulations[0]?.scenario.graph;
+  const sameScenario = simulations.every(
+    (s) => s.scenario.graph && s.scenario.title === simulations[0].scenario.title
+  );
+  if (!graph || !sameScenario) return [];
+
+  const choices = simulations.map((simulation) => {
+    const chosen = new Map<string, string>();
+    for (const step of getPath(simulation)) {
+      const option = getNode(graph, step.nodeId)?.options?.find((o) => o.id === step.optionId);
+      chosen.set(step.nodeId, option?.label ?? freeTextAnswer(simulation, step.nodeId));
+    }
+    return chosen;
+  });
+
+  // Points in the order the first team to reach them did
+  const points = [...new Set(choices.flatMap((chosen) => [...chosen.keys()]))];
+  return points
+    .filter((nodeId) => new Set(choices.map((chosen) => chosen.get(nodeId))).size > 1)
+    .map((nodeId) => ({
+      point: shorten(getNode(graph, nodeId)?.narrative ?? nodeId, MAX_POINT_LENGTH),
+      choices: simulations.map((simulation, i) => ({
+        simulationId: simulation.id,
+        choice: choices[i].get(nodeId) ?? 'Did not reach this point',
+      })),
+    }));
+}
+
+function freeTextAnswer(simulation: Simulation, nodeId: string): string {
+  const entry = simulation.transcript.find((e) => e.role === 'team' && e.nodeId === nodeId);
+  return `"${shorten(entry?.content ?? '', MAX_CHOICE_LENGTH)}"`;
+}
+
+function shorten(content: string, limit: number): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
@@ -0,0 +1,116 @@
+import { EndConditions, EndReason, Simulation, TranscriptEntry } from '@/lib/types';
+
+// --- Ending and debrief ---
+// Shared by the session engine, the analysis prompt, the interview page and
+// the scenario editor.
+
+export const END_REASONS: Record<EndReason, string> = {
+  'max-turns': 'The turn limit was reached',
+  time: 'The session clock ran out',
+  'terminal-node': 'The scenario reached its ending',
+  'final-decision': 'The team committed to a final decision',
+  facilitator: 'The facilitator ended the simulation',
+};
+
+// Asked when neither the scenario nor the host supplies questions
+export const DEFAULT_DEBRIEF_QUESTIONS = [
+  'Which decision had the biggest effect on the outcome, and would you make it again?',
+  'What information did you wish you had, and how did its absence change what you did?',
+  'Whose view carried the most weight in the team, and was that the right call?',
+];
+
+const MAX_TURNS_LIMIT = 100;
+const MAX_QUESTIONS = 8;
+const QUESTION_LIMIT = 300;
+const ANSWER_LIMIT = 4000;
+
+/** Checks a scenario's `endConditions`. Returns every problem found. */
+export function parseEndConditions(value: unknown): { endConditions?: EndConditions; errors: string[] } {
+  if (value === undefined || value === null) return { errors: [] };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { errors: ["'endConditions' must be an object"] };
+  }
+
+  const errors: string[] = [];
+  const body = value as Record<string, unknown>;
+  const endConditions: EndConditions = {};
+
+  if (body.maxTurns !== undefined && body.maxTurns !== null) {
+    const turns = body.maxTurns;
+    if (typeof turns !== 'number' || !Number.isInteger(turns) || turns < 1 || turns > MAX_TURNS_LIMIT) {
+      errors.push(`'endConditions.maxTurns' must be a whole number from 1 to ${MAX_TURNS_LIMIT}`);
+    } else {
+      endConditions.maxTurns = turns;
+    }
+  }
+
+  if (body.finalDecision !== undefined) {
+    if (typeof body.finalDecision !== 'boolean') {
+      errors.push("'endConditions.finalDecision' must be true or false");
+    } else if (body.finalDecision) {
+      endConditions.finalDecision = true;
+    }
+  }
+
+  return { endConditions, errors };
+}
+
+/** Checks a scenario's `debriefQuestions`. Blank questions are dropped. */
+export function parseDebriefQuestions(value: unknown): { questions?: string[]; errors: string[] } {
+  if (value === undefined || value === null) return { errors: [] };
+  if (!Array.isArray(value)) return { errors: ["'debriefQuestions' must be an array"] };
+
+  const errors: string[] = [];
+  const questions: string[] = [];
+  value.forEach((item, i) => {
+    if (typeof item !== 'string' || item.trim().length > QUESTION_LIMIT) {
+      errors.push(`'debriefQuestions[${i}]' must be text of at most ${QUESTION_LIMIT} characters`);
+    } else if (item.trim()) {
+      questions.push(item.trim());
+    }
+  });
+  if (questions.length > MAX_QUESTIONS) {
+    errors.push(`'debriefQuestions' can have at most ${MAX_QUESTIONS} entries`);
+  }
+
+  return { questions, errors };
+}
+
+/**
+ * Checks the team's debrief answers, one per question in order. Blank
+ * answers are allowed and mean the question was skipped.
+ */
+export function parseDebriefAnswers(value: unknown): { answers?: string[]; errors: string[] } {
+  if (!Array.isArray(value)) return { errors: ["'answers' must be an array"] };
+  if (value.length > MAX_QUESTIONS) return { errors: [`'answers' can have at most ${MAX_QUESTIONS} entries`] };
+
+  const errors: string[] = [];
+  value.forEach((item, i) => {
+    if (typeof item !== 'string' || item.trim().length > ANSWER_LIMIT) {
+      errors.push(`'answers[${i}]' must be text of at most ${ANSWER_LIMIT} characters`);
+    }
+  });
+  return errors.length > 0 ? { errors } : { answers: (value as string[]).map((answer) => answer.trim()), errors };
+}
+
+/** Host replies after the opening prompt, i.e. turns the team has taken. */
+export function countTurns(transcript: TranscriptEntry[]): number {
+  return Math.max(0, transcript.filter((entry) => entry.role === 'host').length - 1);
+}
+
+/**
+ * How the session ended and the team's debrief, for the analyst. Empty
+ * for sessions that ended before the debrief existed.
+ */
+export function describeEnding({ ending, debrief = [] }: Simulation): string {
+  if (!ending) return '';
+  const lines = [`Ended: ${END_REASONS[ending.reason]}`, `Closing narrative: ${ending.narrative}`];
+  if (debrief.length === 0) {
+    lines.push('The team gave no debrief answers.');
+  } else {
+    for (const { question, answer } of debrief) {
+      lines.push(`Q: ${question}`, `A: ${answer}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { resolveEvidence } from './evidence';
+import { makeEntry } from './test-fixtures';
+
+const transcript = [
+  makeEntry('host', { content: 'The ward is over budget. Which one closes?' }),
+  makeEntry('team', { content: 'We close Ward B,\n  and   tell the staff today.' }),
+  makeEntry('team', { content: `Because ${'the numbers say so '.repeat(20)}` }),
+];
+
+describe('resolveEvidence', () => {
+  it('keeps quotes found in their entry, ignoring case and spacing', () => {
+    expect(resolveEvidence(transcript, [{ entryIndex: 1, quote: ' and tell the STAFF today. ' }])).toEqual([
+      { entryIndex: 1, quote: 'and tell the STAFF today.' },
+    ]);
+  });
+
+  it('replaces a quote that was never said with the start of the entry', () => {
+    expect(resolveEvidence(transcript, [{ entryIndex: 1, quote: 'We close Ward A' }])).toEqual([
+      { entryIndex: 1, quote: 'We close Ward B, and tell the staff today.' },
+    ]);
+    const [{ quote }] = resolveEvidence(transcript, [{ entryIndex: 2 }]);
+    expect(quote).toHaveLength(200);
+    expect(quote.endsWith('…')).toBe(true);
+  });
+
+  it('drops citations of entries that do not exist, and repeats', () => {
+    expect(
+      resolveEvidence(transcript, [
+        { entryIndex: 3, quote: 'Anything' },
+        { entryIndex: -1 },
+        { entryIndex: 1.5 },
+        { quote: 'We close Ward B' },
+        { entryIndex: 0, quote: 'over budget' },
+        { entryIndex: 0, quote: 'Which one closes?' },
+      ])
+    ).toEqual([{ entryIndex: 0, quote: 'over budget' }]);
+    expect(resolveEvidence(transcript)).toEqual([]);
+  });
+});
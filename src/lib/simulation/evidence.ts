@@ -0,0 +1,73 @@
+import type { ResponseSchema } from '@/lib/llm';
+import { Evidence, TranscriptEntry } from '@/lib/types';
+
+// --- Evidence ---
+// Every finding in an analysis cites the transcript entries that earned it.
+// The analyst sees the transcript numbered (`formatTranscript` with
+// `numbered`) and answers with entry indices and quotes, which are checked
+// against the transcript before they are stored.
+
+const MAX_CITATIONS = 3;
+const MAX_QUOTE_LENGTH = 200;
+
+/** The citations for one finding. */
+export function evidenceSchema(transcriptLength: number): ResponseSchema {
+  return {
+    type: 'ARRAY',
+    description: `1-${MAX_CITATIONS} transcript entries that show this, most telling first.`,
+    items: {
+      type: 'OBJECT',
+      properties: {
+        entryIndex: {
+          type: 'INTEGER',
+          description: `The [index] of the transcript entry, 0-${Math.max(0, transcriptLength - 1)}.`,
+        },
+        quote: {
+          type: 'STRING',
+          description: 'The words from that entry that show it, copied exactly. One sentence at most.',
+        },
+      },
+      required: ['entryIndex', 'quote'],
+    },
+    minItems: 1,
+    maxItems: MAX_CITATIONS,
+  };
+}
+
+/** A finding (a strength or growth area) with its citations. */
+export function findingSchema(description: string, transcriptLength: number): ResponseSchema {
+  return {
+    type: 'OBJECT',
+    description,
+    properties: {
+      text: { type: 'STRING' },
+      evidence: evidenceSchema(transcriptLength),
+    },
+    required: ['text', 'evidence'],
+  };
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Keeps the citations that point at a real entry. A quote that isn't in
+ * its entry is replaced with the start of the entry, so every stored quote
+ * is something that was actually said.
+ */
+export function resolveEvidence(transcript: TranscriptEntry[], evidence: Partial<Evidence>[] = []): Evidence[] {
+  const resolved: Evidence[] = [];
+  for (const { entryIndex, quote } of evidence) {
+    if (typeof entryIndex !== 'number' || !Number.isInteger(entryIndex)) continue;
+    const entry = transcript[entryIndex];
+    if (!entry || resolved.some((e) => e.entryIndex === entryIndex)) continue;
+
+    const found = quote?.trim() && normalize(entry.content).includes(normalize(quote));
+    resolved.push({ entryIndex, quote: found ? quote!.trim() : excerpt(entry.content) });
+  }
+  return resolved;
+}
+
+function excerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH - 1)}…` : text;
+}
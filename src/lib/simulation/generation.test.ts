@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_GENERATION_OPTIONS, parseGenerationOptions } from './generation';
+
+describe('parseGenerationOptions', () => {
+  it('fills in the defaults for an empty body', () => {
+    expect(parseGenerationOptions({})).toEqual({ options: DEFAULT_GENERATION_OPTIONS, errors: [] });
+  });
+
+  it('keeps valid settings, trimmed and de-duplicated', () => {
+    const { options, errors } = parseGenerationOptions({
+      count: 3,
+      difficulty: 'hard',
+      scenarioTypes: ['crisis', 'crisis', 'ethical'],
+      timeHorizon: 'long-term',
+      stakeholders: [' Board ', ''],
+      excludedTopics: ['layoffs'],
+      companyContext: '  A regional hospital.  ',
+    });
+    expect(errors).toEqual([]);
+    expect(options).toEqual({
+      count: 3,
+      difficulty: 'hard',
+      scenarioTypes: ['crisis', 'ethical'],
+      timeHorizon: 'long-term',
+      stakeholders: ['Board'],
+      excludedTopics: ['layoffs'],
+      companyContext: 'A regional hospital.',
+    });
+  });
+
+  it('reports every invalid field and keeps the defaults for them', () => {
+    const { options, errors } = parseGenerationOptions({
+      count: 2.5,
+      difficulty: 'extreme',
+      scenarioTypes: ['crisis', 'comedy'],
+      timeHorizon: 7,
+      stakeholders: 'Board',
+      excludedTopics: Array.from({ length: 21 }, (_, i) => `topic ${i}`),
+      companyContext: 'x'.repeat(2001),
+    });
+    expect(errors).toEqual([
+      "'count' must be a whole number from 1 to 20",
+      "'difficulty' must be one of: easy, medium, hard",
+      "'scenarioTypes' must only contain: ethical, strategic, crisis, resource-allocation",
+      "'timeHorizon' must be one of: immediate, short-term, long-term",
+      "'stakeholders' must be an array of strings",
+      "'excludedTopics' can have at most 20 entries",
+      "'companyContext' can be at most 2000 characters",
+    ]);
+    expect(options.count).toBe(DEFAULT_GENERATION_OPTIONS.count);
+    expect(options.companyContext).toBeUndefined();
+  });
+
+  it('leaves out blank company context', () => {
+    expect(parseGenerationOptions({ companyContext: '   ' }).options.companyContext).toBeUndefined();
+  });
+});
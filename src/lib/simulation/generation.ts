@@ -0,0 +1,102 @@
+import { GenerationOptions, ScenarioDifficulty, ScenarioType, TimeHorizon } from '@/lib/types';
+import { SCENARIO_DIFFICULTIES } from './library';
+
+// --- Scenario generation options ---
+// Shared by /api/gen (validation) and the selection page's advanced panel.
+
+export const SCENARIO_TYPES: Record<ScenarioType, string> = {
+  ethical: 'Ethical',
+  strategic: 'Strategic',
+  crisis: 'Crisis',
+  'resource-allocation': 'Resource allocation',
+};
+
+export const TIME_HORIZONS: Record<TimeHorizon, string> = {
+  immediate: 'Immediate (hours to days)',
+  'short-term': 'Short-term (weeks to months)',
+  'long-term': 'Long-term (years)',
+};
+
+export const MAX_SCENARIO_COUNT = 20;
+const MAX_LIST_ITEMS = 20;
+const MAX_CONTEXT_LENGTH = 2000;
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  count: 10,
+  difficulty: 'medium',
+  scenarioTypes: [],
+  stakeholders: [],
+  excludedTopics: [],
+};
+
+function parseStringList(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    errors.push(`'${field}' must be an array of strings`);
+    return [];
+  }
+  const items = value.map((item: string) => item.trim()).filter(Boolean);
+  if (items.length > MAX_LIST_ITEMS) {
+    errors.push(`'${field}' can have at most ${MAX_LIST_ITEMS} entries`);
+  }
+  return items;
+}
+
+/**
+ * Reads the optional generation settings from a request body, filling in
+ * defaults. Returns every problem found so the client can show them at once.
+ */
+export function parseGenerationOptions(
+  body: Record<string, unknown>
+): { options: GenerationOptions; errors: string[] } {
+  const errors: string[] = [];
+  const options: GenerationOptions = { ...DEFAULT_GENERATION_OPTIONS };
+
+  if (body.count !== undefined) {
+    const count = body.count;
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_SCENARIO_COUNT) {
+      errors.push(`'count' must be a whole number from 1 to ${MAX_SCENARIO_COUNT}`);
+    } else {
+      options.count = count;
+    }
+  }
+
+  if (body.difficulty !== undefined) {
+    if (!SCENARIO_DIFFICULTIES.includes(body.difficulty as ScenarioDifficulty)) {
+      errors.push(`'difficulty' must be one of: ${SCENARIO_DIFFICULTIES.join(', ')}`);
+    } else {
+      options.difficulty = body.difficulty as ScenarioDifficulty;
+    }
+  }
+
+  const types = parseStringList(body.scenarioTypes, 'scenarioTypes', errors);
+  const unknownTypes = types.filter((type) => !Object.keys(SCENARIO_TYPES).includes(type));
+  if (unknownTypes.length > 0) {
+    errors.push(`'scenarioTypes' must only contain: ${Object.keys(SCENARIO_TYPES).join(', ')}`);
+  } else {
+    options.scenarioTypes = [...new Set(types)] as ScenarioType[];
+  }
+
+  if (body.timeHorizon !== undefined) {
+    if (typeof body.timeHorizon !== 'string' || !Object.keys(TIME_HORIZONS).includes(body.timeHorizon)) {
+      errors.push(`'timeHorizon' must be one of: ${Object.keys(TIME_HORIZONS).join(', ')}`);
+    } else {
+      options.timeHorizon = body.timeHorizon as TimeHorizon;
+    }
+  }
+
+  options.stakeholders = parseStringList(body.stakeholders, 'stakeholders', errors);
+  options.excludedTopics = parseStringList(body.excludedTopics, 'excludedTopics', errors);
+
+  if (body.companyContext !== undefined) {
+    if (typeof body.companyContext !== 'string') {
+      errors.push("'companyContext' must be a string");
+    } else if (body.companyContext.length > MAX_CONTEXT_LENGTH) {
+      errors.push(`'companyContext' can be at most ${MAX_CONTEXT_LENGTH} characters`);
+    } else if (body.companyContext.trim()) {
+      options.companyContext = body.companyContext.trim();
+    }
+  }
+
+  return { options, errors };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConflictError } from '@/lib/storage/types';
+import { ScenarioGraph } from '@/lib/types';
+import { InvalidMoveError, resolveMove, validateScenarioGraph } from './graph';
+import { breachGraph as graph } from './test-fixtures';
+
+describe('validateScenarioGraph', () => {
+  it('accepts a runnable graph', () => {
+    expect(validateScenarioGraph(graph)).toEqual([]);
+  });
+
+  it('needs at least one node', () => {
+    expect(validateScenarioGraph({ start: 'a', nodes: [] })).toEqual(['Graph must have at least one node']);
+  });
+
+  it('reports missing nodes, duplicates and dead ends', () => {
+    const broken: ScenarioGraph = {
+      start: 'nowhere',
+      nodes: [
+        { id: 'a', kind: 'choice', narrative: 'A', options: [{ id: 'x', label: 'X', next: 'gone' }] },
+        { id: 'a', kind: 'free-text', narrative: ' ' },
+        { id: 'b', kind: 'terminal', narrative: 'B', next: 'a' },
+      ],
+    };
+    expect(validateScenarioGraph(broken)).toEqual([
+      'Duplicate node id "a"',
+      'Start node "nowhere" does not exist',
+      'Option "x" in "a" leads to missing node "gone"',
+      'Node "a" has no narrative',
+      'Free-text node "a" has no next node',
+      'Terminal node "b" cannot lead anywhere',
+    ]);
+  });
+
+  it('reports null nodes and options instead of throwing', () => {
+    const parsed = JSON.parse(
+      '{"start":"a","nodes":[null,{"id":"a","kind":"choice","narrative":"A","options":[null]}]}'
+    ) as ScenarioGraph;
+    expect(validateScenarioGraph(parsed)).toEqual(['Node 1 must be an object', 'Option 1 in "a" must be an object']);
+  });
+
+  it('reports fields of the wrong type instead of throwing', () => {
+    const parsed = JSON.parse(`{
+      "start": 1,
+      "nodes": [
+        { "id": "a", "kind": "choice", "narrative": 3, "options": [
+          { "id": "x", "label": 4, "next": "a" },
+          { "id": 5, "label": "Y", "next": "a" },
+          { "id": "z", "label": "Z" }
+        ] },
+        { "id": 2, "kind": "free-text", "narrative": "B", "next": 7 }
+      ]
+    }`) as ScenarioGraph;
+    expect(validateScenarioGraph(parsed)).toEqual([
+      'Every node needs an id',
+      'Graph needs a start node id',
+      'Node "a" has no narrative',
+      'Option "x" in "a" has no label',
+      'Option 2 in "a" needs an id',
+      'Option "z" in "a" has no next node',
+      'Free-text node "2" has no next node',
+    ]);
+  });
+});
+
+describe('resolveMove', () => {
+  const [choice, freeText, terminal] = graph.nodes;
+
+  it('follows the picked option and keeps the reasoning', () => {
+    const move = resolveMove(graph, choice, { optionId: 'disclose', content: ' Trust matters ' });
+    expect(move).toMatchObject({ content: 'Disclose now\n\nTrust matters', optionId: 'disclose' });
+    expect(move.next.id).toBe('press');
+  });
+
+  it('rejects unknown options and empty answers', () => {
+    expect(() => resolveMove(graph, choice, { optionId: 'panic' })).toThrow(InvalidMoveError);
+    expect(() => resolveMove(graph, freeText, { content: '  ' })).toThrow(InvalidMoveError);
+  });
+
+  it('takes no answers at a terminal node', () => {
+    expect(() => resolveMove(graph, terminal, { content: 'More' })).toThrow(ConflictError);
+  });
+});
@@ -0,0 +1,163 @@
+// Imported from the types module so client pages can use these helpers too.
+import { ConflictError } from '@/lib/storage/types';
+import { PathStep, ScenarioGraph, ScenarioNode, Simulation } from '@/lib/types';
+
+// --- Scenario graph engine ---
+// Authored scenarios are walked deterministically: the host's lines are the
+// node narratives and the team's choices pick the edges, so every team that
+// runs the same graph faces the same situations.
+
+/** Returns a list of problems; an empty list means the graph can be run. */
+export function validateScenarioGraph(graph: ScenarioGraph): string[] {
+  const errors: string[] = [];
+  if (!graph || !Array.isArray(graph.nodes) || graph.nodes.length === 0) {
+    return ['Graph must have at least one node'];
+  }
+
+  // Bodies are parsed JSON, so anything can be in the lists and fields
+  const isObject = (value: unknown) => typeof value === 'object' && value !== null;
+  const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+  const nodes = graph.nodes.filter((node, i) => {
+    if (!isObject(node)) errors.push(`Node ${i + 1} must be an object`);
+    return isObject(node);
+  });
+
+  const ids = new Set<string>();
+  for (const node of nodes) {
+    if (!isText(node.id)) errors.push('Every node needs an id');
+    else if (ids.has(node.id)) errors.push(`Duplicate node id "${node.id}"`);
+    else ids.add(node.id);
+  }
+  if (!isText(graph.start)) errors.push('Graph needs a start node id');
+  else if (!ids.has(graph.start)) errors.push(`Start node "${graph.start}" does not exist`);
+
+  // A missing link and a link to a node that isn't there read differently
+  const checkNext = (next: unknown, what: string) => {
+    if (!isText(next)) errors.push(`${what} has no next node`);
+    else if (!ids.has(next)) errors.push(`${what} leads to missing node "${next}"`);
+  };
+
+  for (const node of nodes) {
+    if (!isText(node.narrative)) errors.push(`Node "${node.id}" has no narrative`);
+
+    switch (node.kind) {
+      case 'choice': {
+        if (!Array.isArray(node.options) || node.options.length === 0) {
+          errors.push(`Choice node "${node.id}" has no options`);
+          break;
+        }
+        const optionIds = new Set<string>();
+        for (const [i, option] of node.options.entries()) {
+          if (!isObject(option)) {
+            errors.push(`Option ${i + 1} in "${node.id}" must be an object`);
+            continue;
+          }
+          if (!isText(option.id)) {
+            errors.push(`Option ${i + 1} in "${node.id}" needs an id`);
+            continue;
+          }
+          if (optionIds.has(option.id)) errors.push(`Node "${node.id}" repeats option "${option.id}"`);
+          optionIds.add(option.id);
+          if (!isText(option.label)) errors.push(`Option "${option.id}" in "${node.id}" has no label`);
+          checkNext(option.next, `Option "${option.id}" in "${node.id}"`);
+        }
+        break;
+      }
+      case 'free-text':
+        checkNext(node.next, `Free-text node "${node.id}"`);
+        break;
+      case 'terminal':
+        if (node.options?.length || node.next) {
+          errors.push(`Terminal node "${node.id}" cannot lead anywhere`);
+        }
+        break;
+      default:
+        errors.push(`Node "${node.id}" has unknown kind "${(node as ScenarioNode).kind}"`);
+    }
+  }
+
+  return errors;
+}
+
+export function getNode(graph: ScenarioGraph, id: string): ScenarioNode | undefined {
+  return graph.nodes.find((node) => node.id === id);
+}
+
+/** The node the team is currently facing: the one the host narrated last. */
+export function getCurrentNode(simulation: Simulation): ScenarioNode | undefined {
+  const graph = simulation.scenario.graph;
+  if (!graph) return undefined;
+  const lastHost = [...simulation.transcript].reverse().find((entry) => entry.role === 'host' && entry.nodeId);
+  return getNode(graph, lastHost?.nodeId ?? graph.start);
+}
+
+/** Every decision the team made, in order. Comparable across teams. */
+export function getPath(simulation: Simulation): PathStep[] {
+  return simulation.transcript
+    .filter((entry) => entry.role === 'team' && entry.nodeId)
+    .map((entry) => ({ nodeId: entry.nodeId!, optionId: entry.optionId }));
+}
+
+/**
+ * Thrown when the team's answer doesn't fit the current node (an unknown
+ * option, or an empty free-text answer). Routes map it to a 400.
+ */
+export class InvalidMoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidMoveError';
+  }
+}
+
+export interface GraphMove {
+  // What the team entry records
+  content: string;
+  optionId?: string;
+  // Where the team ends up
+  next: ScenarioNode;
+}
+
+/**
+ * Resolves the team's answer at `node`. Choice nodes need a valid
+ * `optionId`; any typed text is kept as the team's reasoning after the label.
+ * free-text nodes need content. A terminal node takes no more answers.
+ */
+export function resolveMove(
+  graph: ScenarioGraph,
+  node: ScenarioNode,
+  answer: { content?: string; optionId?: string }
+): GraphMove {
+  if (node.kind === 'terminal') {
+    throw new ConflictError('The scenario has reached its ending');
+  }
+
+  if (node.kind === 'choice') {
+    const option = node.options?.find((o) => o.id === answer.optionId);
+    if (!option) throw new InvalidMoveError(`Choose one of the options for "${node.id}"`);
+    const reasoning = answer.content?.trim();
+    return {
+      content: reasoning ? `${option.label}\n\n${reasoning}` : option.label,
+      optionId: option.id,
+      next: getNode(graph, option.next)!,
+    };
+  }
+
+  if (!answer.content?.trim()) throw new InvalidMoveError('A response is required');
+  return { content: answer.content.trim(), next: getNode(graph, node.next!)! };
+}
+
+/**
+ * A readable summary of the team's path for the analyst, e.g.
+ * `1. discovery -> "Notify affected customers immediately"`.
+ */
+export function describePath(simulation: Simulation): string {
+  const graph = simulation.scenario.graph;
+  if (!graph) return '';
+  return getPath(simulation)
+    .map((step, i) => {
+      const node = getNode(graph, step.nodeId);
+      const option = node?.options?.find((o) => o.id === step.optionId);
+      return `${i + 1}. ${step.nodeId} -> ${option ? `"${option.label}"` : '(free-text answer)'}`;
+    })
+    .join('\n');
+}
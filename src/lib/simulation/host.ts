@@ -0,0 +1,447 @@
+import { GenerateTextRequest, getLlmProvider, LlmError, ResponseSchema } from '@/lib/llm';
+import { Persona, Scenario, TimeoutAction, TranscriptEntry, WorldState } from '@/lib/types';
+import { describePersonas } from './personas';
+import { describeWorld, normalizeWorld, worldSchema } from './world';
+
+// --- The 'Simulation-Host' ---
+// Shared by the session routes and the stateless /api/makeinterview and
+// /api/next-prompt endpoints, so every turn goes through the same prompts.
+
+export interface HostContext {
+  teamSize: number;
+  domain: string;
+  scenario: Scenario;
+  // The consequences so far; sessions started before the world model have none.
+  world?: WorldState;
+}
+
+// Only role, speaker and content matter to the model.
+export type HostTranscript = Pick<TranscriptEntry, 'role' | 'content' | 'speaker'>[];
+
+/**
+ * One line per entry, e.g. `TEAM (Priya): We should wait.` or
+ * `PERSONA (Dana Whitfield, General Counsel): Not before legal signs off.`
+ * With `numbered`, each line starts with the entry's index, e.g. `[3] `,
+ * so the analyst can cite it.
+ */
+export function formatTranscript(transcript: HostTranscript, { numbered = false } = {}): string {
+  return transcript
+    .map((entry, index) => {
+      const speaker = entry.speaker ? ` (${entry.speaker})` : '';
+      return `${numbered ? `[${index}] ` : ''}${entry.role.toUpperCase()}${speaker}: ${entry.content}`;
+    })
+    .join("\n");
+}
+
+// --- Opening prompt ---
+
+const openingSchema: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    openingPrompt: {
+      type: 'STRING',
+      description: 'The immersive opening prompt for the team, ending in a question.',
+    },
+    world: worldSchema,
+  },
+  required: ['openingPrompt', 'world'],
+};
+
+/**
+ * Creates the system instruction for the AI.
+ * Its role is to *facilitate* the simulation, not create it.
+ */
+function getOpeningInstruction(): string {
+  return `
+    You are 'Simulation-Host', an expert facilitator for a team decision-making simulation.
+    Your task is to take the provided team details and scenario, and generate the *very first* prompt to begin the simulation.
+
+    This opening prompt must be immersive. It should:
+    1.  Briefly set the scene based on the scenario title and description.
+    2.  Clearly present the core dilemma and key decision.
+    3.  Address the team directly (e.g., "Your team...").
+    4.  End with a single, clear, open-ended question to kick off their discussion.
+
+    Also set up the starting 'world' state: the budget untouched, reputation and each affected stakeholder's trust where the scenario leaves them, the risks already open, and no decisions yet.
+
+    You MUST return your response as a JSON object matching the requested schema.
+  `;
+}
+
+function buildOpeningPrompt({ teamSize, domain, scenario }: HostContext): string {
+  return `
+    Here is the simulation setup:
+
+    TEAM SIZE: ${teamSize}
+    DOMAIN: ${domain}
+
+    SCENARIO:
+    Title: ${scenario.title}
+    Description: ${scenario.description}
+    Key Decision: ${scenario.keyDecision}
+${scenario.personas?.length ? `
+    STAKEHOLDERS (they will speak for themselves later; you may mention them):
+    ${describePersonas(scenario.personas).split('\n').join('\n    ')}
+` : ''}
+    ---
+
+    Craft the compelling opening prompt for the team to begin this simulation.
+  `;
+}
+
+export async function generateOpeningPrompt(
+  context: HostContext
+): Promise<{ openingPrompt: string; world: WorldState }> {
+  const { openingPrompt, world } = await getLlmProvider().generateJson<{
+    openingPrompt?: string;
+    world?: Partial<WorldState>;
+  }>({
+    systemInstruction: getOpeningInstruction(),
+    prompt: buildOpeningPrompt(context),
+    temperature: 0.7,
+    maxOutputTokens: 2048,
+    schema: openingSchema,
+  });
+
+  if (!openingPrompt) {
+    throw new LlmError('AI response missing openingPrompt');
+  }
+  return { openingPrompt, world: normalizeWorld(world ?? {}) };
+}
+
+// --- Next prompt ---
+
+/**
+ * This is the "persona" for the AI. It sets the rules for how it behaves.
+ */
+function getNextInstruction(): string {
+  return `
+You are the 'Host' of a realistic, high-pressure business simulation.
+Your role is to guide a 'Team' (the user) through a complex scenario.
+You must read the ENTIRE transcript to understand the conversation so far.
+Your job is to provide the *next* logical prompt in the conversation.
+
+CRITICAL RULES:
+1.  **NEVER break character.** You are the 'Host', not an AI assistant.
+2.  **BE CONCISE.** Your response must be 1-3 sentences.
+3.  **DRIVE THE SCENARIO.** Introduce new information, a consequence of their last action, or a question from a new stakeholder (e.g., "The legal team is concerned...", "The media has just published...", "What data will you use to...").
+4.  **DO NOT analyze or pass judgment.** (That is a different AI's job).
+5.  **DO NOT end the simulation.** Your goal is to continue it.
+6.  **RETURN ONLY YOUR PROMPT.** Do NOT add commentary like "Here is the next prompt:" or "Host:". Just return the text of your next line.
+7.  **PERSONA lines are stakeholders speaking for themselves.** Never write lines for them; react to what they said and to how the team treated them.
+  `;
+}
+
+// Added to the prompt when the turn clock ran out instead of the team answering.
+const TIMEOUT_NOTES: Record<TimeoutAction, string> = {
+  escalate:
+    'TIME IS UP: the team did not respond before the turn clock ran out. Escalate: make the situation worse or more urgent because they hesitated, and press them for an answer now.',
+  'no-decision':
+    'TIME IS UP: the team made no decision before the turn clock ran out. Describe the consequence of their inaction, then move the scenario on.',
+};
+
+/**
+ * Combines the context and the full chat history into a single string.
+ */
+function buildNextPrompt(
+  { teamSize, domain, scenario, world }: HostContext,
+  transcript: HostTranscript,
+  timeout?: TimeoutAction
+): string {
+  // Convert the array of objects into a simple, readable string
+  const transcriptText = formatTranscript(transcript);
+
+  return `
+CONTEXT:
+-   **Scenario:** ${scenario.title} (${scenario.keyDecision})
+-   **Domain:** ${domain}
+-   **Team Size:** ${teamSize}
+
+${scenario.personas?.length ? `
+STAKEHOLDERS (they speak for themselves in PERSONA lines):
+${describePersonas(scenario.personas)}
+` : ''}${world ? `
+CURRENT STATE (the consequences so far; stay consistent with it):
+${describeWorld(world)}
+` : ''}
+FULL TRANSCRIPT:
+---
+${transcriptText}
+---
+
+Based on the team's *last* response (or, if several members spoke since your last prompt, their discussion), provide the *next* Host prompt.
+${timeout ? `\n${TIMEOUT_NOTES[timeout]}\n` : ''}
+Remember the rules: be concise, drive the story, and do NOT break character.
+  `;
+}
+
+/**
+ * The model will sometimes add "Host: " or quotes. We remove them.
+ */
+export function cleanHostText(text: string): string {
+  return text
+    .replace(/^Host:/i, "") // Remove "Host:" from the start
+    .replace(/"/g, "")      // Remove all quotation marks
+    .trim();                // Remove leading/trailing whitespace
+}
+
+function nextPromptRequest(
+  context: HostContext,
+  transcript: HostTranscript,
+  signal?: AbortSignal,
+  timeout?: TimeoutAction
+): GenerateTextRequest {
+  // Stateless generation: we send the full history every time.
+  return {
+    systemInstruction: getNextInstruction(),
+    prompt: buildNextPrompt(context, transcript, timeout),
+    temperature: 0.8, // Slightly higher for more dynamic/creative responses
+    maxOutputTokens: 1024, // Increased from 256. This fixed the MAX_TOKENS error.
+    signal,
+  };
+}
+
+export async function generateNextPrompt(context: HostContext, transcript: HostTranscript): Promise<string> {
+  const nextPrompt = await getLlmProvider().generateText(nextPromptRequest(context, transcript));
+  return cleanHostText(nextPrompt);
+}
+
+/**
+ * Streams the raw host text. Callers show it as it arrives and run the
+ * concatenation through `cleanHostText` before saving it. `timeout` says
+ * the turn clock ran out, and what the host should do about it.
+ */
+export function streamNextPrompt(
+  context: HostContext,
+  transcript: HostTranscript,
+  signal?: AbortSignal,
+  timeout?: TimeoutAction
+): AsyncIterable<string> {
+  return getLlmProvider().streamText(nextPromptRequest(context, transcript, signal, timeout));
+}
+
+// --- World state ---
+
+function getWorldInstruction(): string {
+  return `
+You keep the state of a business simulation consistent from turn to turn.
+You are given the state before the latest turn, and the turn itself: what the team said and how the Host replied.
+Return the state after the turn.
+
+RULES:
+1.  Change only what this turn changed. Small moves for talk, larger ones for commitments and their consequences.
+2.  Budget only goes down when money is spent or lost, and up only when the Host says so.
+3.  Add a trust entry for any new stakeholder the Host brings in.
+4.  Add the risks this turn created; drop the ones it resolved.
+5.  Append each decision the team committed to in this turn; keep every earlier decision.
+
+You MUST return your response as a JSON object matching the requested schema.
+  `;
+}
+
+/**
+ * Asks the host for the state after `turn` (the team's entries and its
+ * reply). Structured output, so the numbers can't drift with the prose.
+ */
+export async function updateWorld(
+  context: HostContext & { world: WorldState },
+  turn: HostTranscript
+): Promise<WorldState> {
+  const world = await getLlmProvider().generateJson<Partial<WorldState>>({
+    systemInstruction: getWorldInstruction(),
+    prompt: `
+SCENARIO: ${context.scenario.title} (${context.scenario.keyDecision})
+
+STATE BEFORE THIS TURN:
+${JSON.stringify(context.world, null, 2)}
+
+THIS TURN:
+---
+${formatTranscript(turn)}
+---
+
+Return the state after this turn.
+    `,
+    temperature: 0.2, // Bookkeeping, not storytelling
+    maxOutputTokens: 2048,
+    schema: worldSchema,
+  });
+  return normalizeWorld(world);
+}
+
+// --- Persona interjections ---
+
+function getInterjectionInstruction(): string {
+  return `
+You direct the stakeholder characters in a business simulation. After each Host prompt you decide whether one of them speaks up.
+
+RULES:
+1.  Choose "none" unless the latest turn touches a stakeholder's goals, or a stakeholder has been silent while the stakes for them rose.
+2.  At most one stakeholder speaks. Avoid the one who spoke last unless the team ignored them.
+3.  Write their line in their own voice and tone: 1-3 sentences, addressed to the team, pushing their goals. Disagree with the team, or with other stakeholders, when their goals conflict.
+4.  Don't repeat what the Host just said, and never speak as the Host or the team.
+
+You MUST return your response as a JSON object matching the requested schema.
+  `;
+}
+
+/**
+ * Decides whether a persona interjects after the host's latest reply, and
+ * writes their line. Returns null when none does.
+ */
+export async function generateInterjection(
+  { teamSize, domain, scenario }: HostContext,
+  personas: Persona[],
+  transcript: HostTranscript
+): Promise<{ persona: Persona; message: string } | null> {
+  const { personaId, message } = await getLlmProvider().generateJson<{ personaId?: string; message?: string }>({
+    systemInstruction: getInterjectionInstruction(),
+    prompt: `
+SCENARIO: ${scenario.title} (${scenario.keyDecision})
+DOMAIN: ${domain}
+TEAM SIZE: ${teamSize}
+
+STAKEHOLDERS:
+${describePersonas(personas)}
+
+FULL TRANSCRIPT:
+---
+${formatTranscript(transcript)}
+---
+
+Does a stakeholder speak up now? If so, who, and what do they say?
+    `,
+    temperature: 0.8,
+    maxOutputTokens: 1024,
+    schema: {
+      type: 'OBJECT',
+      properties: {
+        personaId: {
+          type: 'STRING',
+          description: 'The id of the stakeholder who speaks, or "none".',
+          enum: ['none', ...personas.map((p) => p.id)],
+        },
+        message: {
+          type: 'STRING',
+          description: 'Their line, in their voice. Empty when nobody speaks.',
+        },
+      },
+      required: ['personaId', 'message'],
+    },
+  });
+
+  const persona = personas.find((p) => p.id === personaId);
+  if (!persona || !message) return null;
+  // Like the host, the model sometimes prefixes the speaker's name
+  const prefix = `${persona.name}:`;
+  const line = cleanHostText(message.startsWith(prefix) ? message.slice(prefix.length) : message);
+  return line ? { persona, message: line } : null;
+}
+
+// --- Ending ---
+
+/**
+ * Asks whether the team's latest turn commits them to a final answer on the
+ * key decision, for scenarios that end there. Talk about options, partial
+ * steps and plans to decide later don't count.
+ */
+export async function detectFinalDecision(
+  { scenario }: HostContext,
+  turn: HostTranscript
+): Promise<boolean> {
+  const { committed } = await getLlmProvider().generateJson<{ committed?: boolean }>({
+    systemInstruction: `
+You judge whether a team in a business simulation has made its final call.
+Answer true only if, in this turn, the team clearly committed to a final answer on the key decision and to acting on it.
+Discussing options, taking a partial step, or agreeing to decide later is not a final decision.
+
+You MUST return your response as a JSON object matching the requested schema.
+    `,
+    prompt: `
+SCENARIO: ${scenario.title}
+KEY DECISION: ${scenario.keyDecision}
+
+THIS TURN:
+---
+${formatTranscript(turn)}
+---
+
+Has the team committed to its final decision?
+    `,
+    temperature: 0,
+    maxOutputTokens: 256,
+    schema: {
+      type: 'OBJECT',
+      properties: {
+        committed: { type: 'BOOLEAN', description: 'True only for a clear, final commitment.' },
+      },
+      required: ['committed'],
+    },
+  });
+  return committed === true;
+}
+
+function getClosingInstruction(): string {
+  return `
+You are the 'Host' of a business simulation that has just ended. Close it, still in character.
+
+1.  Write the closing narrative: 3-5 sentences, addressed to the team, describing how things turned out because of the choices they made. Name the decisions that mattered and their consequences; stay consistent with the transcript and the final state.
+2.  Do not grade the team or give advice. (That is a different AI's job.)
+3.  Write 3 debrief questions that help the team reflect on this session in particular: the moments where they chose, what they assumed, and how they worked together.
+
+You MUST return your response as a JSON object matching the requested schema.
+  `;
+}
+
+/**
+ * The host's closing account of what the team's choices led to, and the
+ * questions for the debrief.
+ */
+export async function generateClosing(
+  { teamSize, domain, scenario, world }: HostContext,
+  transcript: HostTranscript,
+  reason: string
+): Promise<{ narrative: string; questions: string[] }> {
+  const { narrative, questions } = await getLlmProvider().generateJson<{ narrative?: string; questions?: string[] }>({
+    systemInstruction: getClosingInstruction(),
+    prompt: `
+SCENARIO: ${scenario.title} (${scenario.keyDecision})
+DOMAIN: ${domain}
+TEAM SIZE: ${teamSize}
+WHY IT ENDED: ${reason}
+${world ? `
+FINAL STATE:
+${describeWorld(world)}
+` : ''}
+FULL TRANSCRIPT:
+---
+${formatTranscript(transcript)}
+---
+
+Write the closing narrative and the debrief questions.
+    `,
+    temperature: 0.7,
+    maxOutputTokens: 2048,
+    schema: {
+      type: 'OBJECT',
+      properties: {
+        narrative: {
+          type: 'STRING',
+          description: 'How things turned out because of the team\'s choices, 3-5 sentences.',
+        },
+        questions: {
+          type: 'ARRAY',
+          items: { type: 'STRING' },
+          minItems: 3,
+          maxItems: 3,
+        },
+      },
+      required: ['narrative', 'questions'],
+    },
+  });
+
+  if (!narrative) {
+    throw new LlmError('AI response missing narrative');
+  }
+  return { narrative: cleanHostText(narrative), questions: (questions ?? []).map((q) => q.trim()).filter(Boolean) };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import { LibraryScenario } from '@/lib/types';
+import { parseScenarioDraft, toDraft } from './library';
+import { breachGraph } from './test-fixtures';
+
+describe('parseScenarioDraft', () => {
+  it('removes optional settings sent as null in an edit', () => {
+    const { draft, errors } = parseScenarioDraft(
+      { graph: null, timing: null, personas: null, endConditions: null, debriefQuestions: null },
+      true
+    );
+    expect(errors).toEqual([]);
+    expect(draft).toEqual({
+      graph: undefined,
+      timing: undefined,
+      personas: undefined,
+      endConditions: undefined,
+      debriefQuestions: undefined,
+    });
+    expect(Object.keys(draft)).toHaveLength(5);
+  });
+
+  it('leaves them out of a new scenario sent as null', () => {
+    const { draft, errors } = parseScenarioDraft({
+      title: 'Ward closure',
+      description: 'A ward must close.',
+      keyDecision: 'Which one?',
+      domain: 'Healthcare',
+      difficulty: 'medium',
+      personas: null,
+      endConditions: null,
+    });
+    expect(errors).toEqual([]);
+    expect('personas' in draft || 'endConditions' in draft).toBe(false);
+  });
+
+  it('keeps settings an edit does not mention', () => {
+    expect(parseScenarioDraft({ title: 'Renamed' }, true).draft).toEqual({ title: 'Renamed' });
+  });
+});
+
+describe('toDraft', () => {
+  it('keeps every editable field, so a clone has all of them', () => {
+    const scenario: LibraryScenario = {
+      id: 'sc-1',
+      title: 'Data breach',
+      description: 'Customer data has leaked.',
+      keyDecision: 'Disclose or wait?',
+      graph: breachGraph,
+      timing: { turnSeconds: 60, onTimeout: 'escalate' },
+      endConditions: { maxTurns: 5, finalDecision: true },
+      debriefQuestions: ['What would you change?'],
+      rubricId: 'crisis',
+      domain: 'Technology',
+      difficulty: 'hard',
+      tags: ['breach'],
+      archived: true,
+      clonedFrom: 'sc-0',
+      createdAt: '2026-01-01T10:00:00.000Z',
+      updatedAt: '2026-01-02T10:00:00.000Z',
+    };
+    expect(toDraft(scenario)).toEqual({
+      title: 'Data breach',
+      description: 'Customer data has leaked.',
+      keyDecision: 'Disclose or wait?',
+      graph: breachGraph,
+      timing: { turnSeconds: 60, onTimeout: 'escalate' },
+      endConditions: { maxTurns: 5, finalDecision: true },
+      debriefQuestions: ['What would you change?'],
+      rubricId: 'crisis',
+      domain: 'Technology',
+      difficulty: 'hard',
+      tags: ['breach'],
+    });
+    const personas = [{ id: 'dana', name: 'Dana', role: 'General Counsel', goals: 'Limit exposure.', tone: 'Measured' }];
+    expect(toDraft({ ...scenario, graph: undefined, personas }).personas).toEqual(personas);
+  });
+});
@@ -0,0 +1,143 @@
+import { LibraryScenario, Scenario, ScenarioDifficulty, ScenarioDraft, ScenarioGraph } from '@/lib/types';
+import { parseDebriefQuestions, parseEndConditions } from './ending';
+import { validateScenarioGraph } from './graph';
+import { checkPersonasAllowed, parsePersonas } from './personas';
+import { parseScenarioTiming } from './timing';
+
+// --- Scenario library ---
+// Shared by the /api/scenarios routes and the selection page.
+
+export const SCENARIO_DIFFICULTIES: ScenarioDifficulty[] = ['easy', 'medium', 'hard'];
+
+const TEXT_FIELDS = ['title', 'description', 'keyDecision', 'domain'] as const;
+
+/**
+ * Picks the editable fields out of a request body and checks them. With
+ * `partial`, missing fields are allowed (an edit only sends what changed),
+ * and a field present but undefined in the draft is to be removed.
+ */
+export function parseScenarioDraft(
+  body: Record<string, unknown>,
+  partial = false
+): { draft: Partial<ScenarioDraft>; errors: string[] } {
+  const draft: Partial<ScenarioDraft> = {};
+  const errors: string[] = [];
+
+  for (const field of TEXT_FIELDS) {
+    const value = body[field];
+    if (value === undefined && partial) continue;
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`'${field}' must be a non-empty string`);
+    } else {
+      draft[field] = value.trim();
+    }
+  }
+
+  if (body.difficulty !== undefined || !partial) {
+    if (!SCENARIO_DIFFICULTIES.includes(body.difficulty as ScenarioDifficulty)) {
+      errors.push(`'difficulty' must be one of: ${SCENARIO_DIFFICULTIES.join(', ')}`);
+    } else {
+      draft.difficulty = body.difficulty as ScenarioDifficulty;
+    }
+  }
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((tag) => typeof tag !== 'string')) {
+      errors.push("'tags' must be an array of strings");
+    } else {
+      // Lowercased and de-duplicated so filters match however they were typed
+      draft.tags = [...new Set((body.tags as string[]).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+    }
+  } else if (!partial) {
+    draft.tags = [];
+  }
+
+  // null removes the graph, so the scenario is improvised again
+  if (body.graph === null) {
+    if (partial) draft.graph = undefined;
+  } else if (body.graph !== undefined) {
+    const graph = body.graph as ScenarioGraph;
+    const problems = validateScenarioGraph(graph);
+    errors.push(...problems.map((problem) => `graph: ${problem}`));
+    if (problems.length === 0) draft.graph = graph;
+  }
+
+  if (body.timing !== undefined) {
+    const { timing, errors: problems } = parseScenarioTiming(body.timing);
+    errors.push(...problems);
+    // null, or an object with neither clock, switches the timers off
+    if (problems.length === 0 && (timing || partial)) draft.timing = timing;
+  }
+
+  if (body.personas !== undefined) {
+    const { personas, errors: problems } = parsePersonas(body.personas);
+    errors.push(...problems);
+    // null or an empty list removes them
+    if (problems.length === 0 && (personas || partial)) draft.personas = personas;
+  }
+
+  if (body.endConditions !== undefined) {
+    const { endConditions, errors: problems } = parseEndConditions(body.endConditions);
+    errors.push(...problems);
+    // null removes them
+    if (problems.length === 0 && (endConditions || partial)) draft.endConditions = endConditions;
+  }
+
+  if (body.debriefQuestions !== undefined) {
+    const { questions, errors: problems } = parseDebriefQuestions(body.debriefQuestions);
+    errors.push(...problems);
+    // null or an empty list leaves the questions to the host
+    if (problems.length === 0 && (questions || partial)) draft.debriefQuestions = questions;
+  }
+
+  // Whether the rubric exists is checked by the routes
+  if (body.rubricId !== undefined) {
+    if (typeof body.rubricId !== 'string' || body.rubricId.trim() === '') {
+      errors.push("'rubricId' must be a non-empty string");
+    } else {
+      draft.rubricId = body.rubricId.trim();
+    }
+  }
+
+  // An edit sending only one of the two is checked against the stored scenario by the route
+  errors.push(...checkPersonasAllowed(draft));
+
+  return { draft, errors };
+}
+
+/** The part of a library entry that a simulation keeps a copy of. */
+export function toScenario({
+  title,
+  description,
+  keyDecision,
+  graph,
+  timing,
+  personas,
+  endConditions,
+  debriefQuestions,
+  rubricId,
+}: LibraryScenario): Scenario {
+  return {
+    title,
+    description,
+    keyDecision,
+    ...(graph && { graph }),
+    ...(timing && { timing }),
+    ...(personas?.length && { personas }),
+    ...(endConditions && { endConditions }),
+    ...(debriefQuestions?.length && { debriefQuestions }),
+    ...(rubricId && { rubricId }),
+  };
+}
+
+/** Everything a facilitator can edit, e.g. to save a copy of the scenario. */
+export function toDraft({
+  id: _id,
+  archived: _archived,
+  clonedFrom: _clonedFrom,
+  createdAt: _createdAt,
+  updatedAt: _updatedAt,
+  ...draft
+}: LibraryScenario): ScenarioDraft {
+  return draft;
+}
@@ -0,0 +1,40 @@
+import { ParticipantInsight, TranscriptEntry } from '@/lib/types';
+
+// --- Participation ---
+// Measured straight from speaker-attributed team entries, so the numbers
+// don't depend on the analyst reading names out of prose.
+
+export type Contribution = Pick<ParticipantInsight, 'name' | 'participantId' | 'messageCount' | 'contributionShare'>;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * One row per speaker, in order of first appearance. Entries are grouped by
+ * participant id when there is one, so a renamed member stays one person.
+ * Unattributed team entries are left out of the shares.
+ */
+export function measureContributions(transcript: TranscriptEntry[]): Contribution[] {
+  const bySpeaker = new Map<string, Contribution & { words: number }>();
+
+  for (const entry of transcript) {
+    if (entry.role !== 'team' || !entry.speaker) continue;
+    const key = entry.participantId ?? `name:${entry.speaker.toLowerCase()}`;
+    const row = bySpeaker.get(key) ?? {
+      name: entry.speaker,
+      participantId: entry.participantId,
+      messageCount: 0,
+      contributionShare: 0,
+      words: 0,
+    };
+    row.messageCount += 1;
+    row.words += countWords(entry.content);
+    bySpeaker.set(key, row);
+  }
+
+  const rows = [...bySpeaker.values()];
+  const totalWords = rows.reduce((sum, row) => sum + row.words, 0);
+  return rows.map(({ words, ...row }) => ({
+    ...row,
+    contributionShare: totalWords > 0 ? Math.round((words / totalWords) * 100) : 0,
+  }));
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkPersonasAllowed, parsePersonas, PERSONA_PRESETS } from './personas';
+import { breachGraph } from './test-fixtures';
+
+const persona = (name: string, fields: Record<string, unknown> = {}) => ({
+  name,
+  role: 'Board Member',
+  goals: 'Protect the company.',
+  tone: 'Formal',
+  ...fields,
+});
+
+describe('parsePersonas', () => {
+  it('fills in ids from names and numbers the ones that clash', () => {
+    const { personas, errors } = parsePersonas([
+      persona('  Dana Whitfield '),
+      persona('李娜'),
+      persona('Ана'),
+      persona('Helen', { id: 'chair' }),
+    ]);
+    expect(errors).toEqual([]);
+    expect(personas?.map((p) => [p.id, p.name])).toEqual([
+      ['dana-whitfield', 'Dana Whitfield'],
+      ['persona', '李娜'],
+      ['persona-2', 'Ана'],
+      ['chair', 'Helen'],
+    ]);
+  });
+
+  it('accepts the presets', () => {
+    expect(parsePersonas(PERSONA_PRESETS).errors).toEqual([]);
+  });
+
+  it('rejects personas with the same name or id', () => {
+    expect(parsePersonas([persona('Dana'), persona('dana')]).errors).toEqual([
+      "'personas[1]' has the same name or id as another persona",
+    ]);
+    expect(parsePersonas([persona('Dana', { id: 'x' }), persona('Sam', { id: 'x' })]).errors).toEqual([
+      "'personas[1]' has the same name or id as another persona",
+    ]);
+  });
+
+  it('reports every field that is missing or too long', () => {
+    expect(parsePersonas([{ name: ' ', role: 'x'.repeat(61), goals: 'Win', tone: 7 }]).errors).toEqual([
+      "'personas[0].name' must be 1-60 characters",
+      "'personas[0].role' must be 1-60 characters",
+      "'personas[0].tone' must be 1-200 characters",
+    ]);
+  });
+
+  it('checks the list itself', () => {
+    expect(parsePersonas(null)).toEqual({ errors: [] });
+    expect(parsePersonas({}).errors).toEqual(["'personas' must be an array"]);
+    expect(parsePersonas(Array.from({ length: 7 }, (_, i) => persona(`P${i}`))).errors).toEqual([
+      "'personas' can have at most 6 entries",
+    ]);
+  });
+});
+
+describe('checkPersonasAllowed', () => {
+  it('rejects personas on an authored scenario', () => {
+    const personas = parsePersonas([persona('Dana')]).personas;
+    expect(checkPersonasAllowed({ graph: breachGraph, personas })).toEqual([
+      "'personas' can't be used with a 'graph': only improvised scenarios have them",
+    ]);
+    expect(checkPersonasAllowed({ graph: breachGraph, personas: [] })).toEqual([]);
+    expect(checkPersonasAllowed({ personas })).toEqual([]);
+  });
+});
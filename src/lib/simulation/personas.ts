@@ -0,0 +1,103 @@
+import { Persona, Scenario, Simulation } from '@/lib/types';
+
+// --- Stakeholder personas ---
+// Shared by the session engine, the analysis route and the scenario editor.
+
+// Starting points offered by the editor; facilitators adjust them per scenario.
+export const PERSONA_PRESETS: Omit<Persona, 'id'>[] = [
+  {
+    name: 'Dana Whitfield',
+    role: 'General Counsel',
+    goals: 'Limit legal exposure and make sure nothing is said publicly before legal has reviewed it.',
+    tone: 'Measured, precise, quietly insistent',
+  },
+  {
+    name: 'Marcus Reyes',
+    role: 'Angry Customer',
+    goals: 'Get a straight answer about how they are affected and what the company will do to make it right.',
+    tone: 'Frustrated, blunt, impatient with corporate language',
+  },
+  {
+    name: 'Helen Ashby',
+    role: 'Board Member',
+    goals: 'Protect shareholder value and make sure the executive team is in control of the situation.',
+    tone: 'Formal, probing, expects concise answers',
+  },
+  {
+    name: 'Sam Okafor',
+    role: 'Journalist',
+    goals: 'Get an on-record statement and find out what the company knew and when.',
+    tone: 'Friendly on the surface, persistent, quick to spot evasion',
+  },
+];
+
+const MAX_PERSONAS = 6;
+const FIELD_LIMITS = { name: 60, role: 60, goals: 500, tone: 200 } as const;
+
+// Stable ids from names, so transcripts stay readable: 'Dana Whitfield' -> 'dana-whitfield'
+const toPersonaId = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'persona';
+
+// Names that give the same id (or none, like '李娜') are numbered: 'persona', 'persona-2'
+function uniquePersonaId(base: string, personas: Persona[]): string {
+  let id = base;
+  for (let n = 2; personas.some((p) => p.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * Checks a scenario's `personas`, filling in ids from names. Returns every
+ * problem found.
+ */
+export function parsePersonas(value: unknown): { personas?: Persona[]; errors: string[] } {
+  if (value === undefined || value === null) return { errors: [] };
+  if (!Array.isArray(value)) return { errors: ["'personas' must be an array"] };
+  if (value.length > MAX_PERSONAS) return { errors: [`'personas' can have at most ${MAX_PERSONAS} entries`] };
+
+  const errors: string[] = [];
+  const personas: Persona[] = [];
+  value.forEach((item, i) => {
+    const body = (item ?? {}) as Record<string, unknown>;
+    const fields = {} as Omit<Persona, 'id'>;
+    for (const [field, limit] of Object.entries(FIELD_LIMITS) as [keyof typeof FIELD_LIMITS, number][]) {
+      const text = body[field];
+      if (typeof text !== 'string' || text.trim() === '' || text.trim().length > limit) {
+        errors.push(`'personas[${i}].${field}' must be 1-${limit} characters`);
+      } else {
+        fields[field] = text.trim();
+      }
+    }
+    const givenId = typeof body.id === 'string' && body.id.trim() ? body.id.trim() : undefined;
+    const sameName = fields.name && personas.some((p) => p.name.toLowerCase() === fields.name.toLowerCase());
+    if (sameName || (givenId && personas.some((p) => p.id === givenId))) {
+      errors.push(`'personas[${i}]' has the same name or id as another persona`);
+    }
+    personas.push({ id: givenId ?? uniquePersonaId(toPersonaId(fields.name ?? ''), personas), ...fields });
+  });
+
+  return { personas, errors };
+}
+
+/**
+ * Personas only speak in improvised sessions; an authored graph decides
+ * every reply itself, so a scenario can't have both.
+ */
+export function checkPersonasAllowed({ graph, personas }: Pick<Scenario, 'graph' | 'personas'>): string[] {
+  return graph && personas?.length ? ["'personas' can't be used with a 'graph': only improvised scenarios have them"] : [];
+}
+
+/** e.g. "Dana Whitfield, General Counsel" — the speaker label in transcripts. */
+export const personaLabel = (persona: Pick<Persona, 'name' | 'role'>) => `${persona.name}, ${persona.role}`;
+
+/** One line per persona, for prompts. */
+export function describePersonas(personas: Persona[]): string {
+  return personas
+    .map((p) => `- ${personaLabel(p)} [id: ${p.id}]. Goals: ${p.goals} Tone: ${p.tone}.`)
+    .join('\n');
+}
+
+/** The scenario's personas that actually spoke, in scenario order. */
+export function spokenPersonas(simulation: Simulation): Persona[] {
+  const spoke = new Set(simulation.transcript.map((entry) => entry.personaId).filter(Boolean));
+  return (simulation.scenario.personas ?? []).filter((persona) => spoke.has(persona.id));
+}
@@ -0,0 +1,79 @@
+import { getSimulationRepository } from '@/lib/storage';
+import { Simulation } from '@/lib/types';
+import { endIfTimeUp } from './sessions';
+
+// --- Room feed ---
+// Backs the /api/sessions/:id/events stream. Each watched session is polled
+// once, however many devices are connected to it, and every watcher is told
+// when something a room member redraws for changes. Both backends are polled
+// the same way, so the local store needs no change feed. A session whose
+// clock has run out is ended here, so it closes even if nobody acts.
+
+const POLL_INTERVAL_MS = 1000;
+
+export interface Watcher {
+  update: (simulation: Simulation) => void;
+  // The session is over, gone, or could not be read
+  end: () => void;
+}
+
+interface Feed {
+  watchers: Set<Watcher>;
+  latest?: Simulation;
+}
+
+const feeds = new Map<string, Feed>();
+
+// Anything a room member needs to redraw for
+function revision(simulation: Simulation): string {
+  return `${simulation.status}:${simulation.transcript.length}:${simulation.participants.length}`;
+}
+
+/** Whether the room still changes; the feed stops after the debrief. */
+function isLive(simulation: Simulation): boolean {
+  return simulation.status === 'pending' || simulation.status === 'debriefing';
+}
+
+/**
+ * Updates `watcher` with the session now and whenever it changes, until the
+ * returned function is called or the session is over.
+ */
+export function watchSimulation(id: string, watcher: Watcher): () => void {
+  let feed = feeds.get(id);
+  if (!feed) {
+    feed = { watchers: new Set() };
+    feeds.set(id, feed);
+    poll(id, feed);
+  } else if (feed.latest) {
+    watcher.update(feed.latest);
+  }
+  feed.watchers.add(watcher);
+  return () => feed.watchers.delete(watcher);
+}
+
+async function poll(id: string, feed: Feed) {
+  let last = '';
+  try {
+    // Checked after the first read, so the first watcher is added by then
+    do {
+      const stored = await getSimulationRepository().get(id);
+      if (!stored) break;
+      const simulation = await endIfTimeUp(stored).catch((error) => {
+        console.error(`Could not end simulation ${id}:`, error);
+        return stored;
+      });
+      feed.latest = simulation;
+      if (revision(simulation) !== last) {
+        last = revision(simulation);
+        feed.watchers.forEach((watcher) => watcher.update(simulation));
+      }
+      if (!isLive(simulation)) break;
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    } while (feed.watchers.size > 0);
+  } catch (error) {
+    console.error(`Error polling simulation ${id}:`, error);
+  }
+
+  feeds.delete(id);
+  feed.watchers.forEach((watcher) => watcher.end());
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { Rubric } from '@/lib/types';
+import { DEFAULT_RUBRIC, parseRubricDraft, weightedScore } from './rubrics';
+
+const metric = (name: string, weight: number) => ({ name, description: name, low: 'Low', high: 'High', weight });
+
+const rubric: Rubric = {
+  ...DEFAULT_RUBRIC,
+  id: 'weighted',
+  metrics: [metric('Speed', 3), metric('Care', 1)],
+};
+
+describe('weightedScore', () => {
+  it('weights each metric and scales to 100', () => {
+    // (8 * 3 + 4 * 1) / 4 = 7
+    expect(weightedScore(rubric, { Speed: 8, Care: 4 })).toBe(70);
+  });
+
+  it('clamps scores to 1-10', () => {
+    expect(weightedScore(rubric, { Speed: 14, Care: -2 })).toBe(78);
+  });
+
+  it('skips metrics the analyst left out instead of counting them as zero', () => {
+    expect(weightedScore(rubric, { Care: 6, Other: 1 })).toBe(60);
+    expect(weightedScore(rubric, { Speed: Number.NaN, Care: 6 })).toBe(60);
+  });
+
+  it('is 0 when no metric was scored', () => {
+    expect(weightedScore(rubric, {})).toBe(0);
+  });
+
+  it('is the plain average for the default rubric', () => {
+    const heatmap = Object.fromEntries(DEFAULT_RUBRIC.metrics.map((m, i) => [m.name, i + 3]));
+    // 3..8 average to 5.5
+    expect(weightedScore(DEFAULT_RUBRIC, heatmap)).toBe(55);
+  });
+});
+
+describe('parseRubricDraft', () => {
+  it('fills in defaults for a new rubric', () => {
+    expect(parseRubricDraft({ name: ' Sales ', metrics: [{ ...metric('Close', 2), weight: undefined }] })).toEqual({
+      draft: { name: 'Sales', description: '', metrics: [metric('Close', 1)] },
+      errors: [],
+    });
+  });
+
+  it('reports bad weights and duplicate metric names', () => {
+    const { errors } = parseRubricDraft({ name: 'Sales', metrics: [metric('Close', 0), metric('close', 11)] });
+    expect(errors).toEqual([
+      "'metrics[0].weight' must be a number above 0 and at most 10",
+      "'metrics[1].weight' must be a number above 0 and at most 10",
+      "'metrics[1].name' is used by another metric",
+    ]);
+  });
+
+  it('only checks the fields an edit sends', () => {
+    expect(parseRubricDraft({ description: 'New' }, true)).toEqual({ draft: { description: 'New' }, errors: [] });
+    expect(parseRubricDraft({ metrics: [] }, true).errors).toEqual(["'metrics' must be an array of 1-10 metrics"]);
+  });
+});
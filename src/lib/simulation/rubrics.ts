@@ -0,0 +1,179 @@
+import type { ResponseSchema } from '@/lib/llm';
+import { HeatmapData, Rubric, RubricDraft, RubricMetric } from '@/lib/types';
+
+// --- Analysis rubrics ---
+// Shared by the analysis route, the /api/rubrics routes and the rubric
+// editor. The analyst scores each metric 1-10; the overall score is the
+// rubric's weighted average, worked out here rather than by the model.
+
+// The metrics every analysis used before rubrics, kept as the built-in
+// default. It can be copied but not edited.
+export const DEFAULT_RUBRIC: Rubric = {
+  id: 'default',
+  name: 'Team Decision-Making',
+  description: 'The standard WorkDNA metrics for how a team makes decisions together.',
+  metrics: [
+    {
+      name: 'Decisiveness',
+      description: 'How quickly and confidently the team reached decisions.',
+      low: 'Paralyzed',
+      high: 'Acted swiftly and confidently',
+      weight: 1,
+    },
+    {
+      name: 'Ethical Focus',
+      description: 'How central ethics were to the team\'s reasoning.',
+      low: 'Ignored ethics',
+      high: 'Ethics were central to the decision',
+      weight: 1,
+    },
+    {
+      name: 'Data-Driven',
+      description: 'How far the team grounded its decisions in the information it had.',
+      low: 'Pure gut-feel',
+      high: 'Used available data to inform the decision',
+      weight: 1,
+    },
+    {
+      name: 'Long-Term Thinking',
+      description: 'How far ahead the team looked.',
+      low: 'Purely short-term fix',
+      high: 'Considered long-term impact',
+      weight: 1,
+    },
+    {
+      name: 'Bias for Action',
+      description: 'Whether the team turned its plan into action.',
+      low: 'Analysis paralysis',
+      high: 'Acted on their plan',
+      weight: 1,
+    },
+    {
+      name: 'Collaboration',
+      description: 'How the team worked together.',
+      low: 'One person dominated',
+      high: 'All members contributed and built on ideas',
+      weight: 1,
+    },
+  ],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const MAX_METRICS = 10;
+const MAX_WEIGHT = 10;
+const FIELD_LIMITS = { name: 40, description: 300, low: 200, high: 200 } as const;
+
+/**
+ * Picks the editable fields out of a request body and checks them. With
+ * `partial`, missing fields are allowed (an edit only sends what changed).
+ */
+export function parseRubricDraft(
+  body: Record<string, unknown>,
+  partial = false
+): { draft: Partial<RubricDraft>; errors: string[] } {
+  const draft: Partial<RubricDraft> = {};
+  const errors: string[] = [];
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || body.name.trim() === '' || body.name.trim().length > 60) {
+      errors.push("'name' must be 1-60 characters");
+    } else {
+      draft.name = body.name.trim();
+    }
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string' || body.description.trim().length > 500) {
+      errors.push("'description' must be text of at most 500 characters");
+    } else {
+      draft.description = body.description.trim();
+    }
+  } else if (!partial) {
+    draft.description = '';
+  }
+
+  if (body.metrics !== undefined || !partial) {
+    const { metrics, errors: problems } = parseMetrics(body.metrics);
+    errors.push(...problems);
+    if (problems.length === 0) draft.metrics = metrics;
+  }
+
+  return { draft, errors };
+}
+
+function parseMetrics(value: unknown): { metrics?: RubricMetric[]; errors: string[] } {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_METRICS) {
+    return { errors: [`'metrics' must be an array of 1-${MAX_METRICS} metrics`] };
+  }
+
+  const errors: string[] = [];
+  const metrics: RubricMetric[] = [];
+  value.forEach((item, i) => {
+    const body = (item ?? {}) as Record<string, unknown>;
+    const metric = {} as RubricMetric;
+    for (const [field, limit] of Object.entries(FIELD_LIMITS) as [keyof typeof FIELD_LIMITS, number][]) {
+      const text = body[field];
+      if (typeof text !== 'string' || text.trim() === '' || text.trim().length > limit) {
+        errors.push(`'metrics[${i}].${field}' must be 1-${limit} characters`);
+      } else {
+        metric[field] = text.trim();
+      }
+    }
+    const weight = body.weight ?? 1;
+    if (typeof weight !== 'number' || !(weight > 0) || weight > MAX_WEIGHT) {
+      errors.push(`'metrics[${i}].weight' must be a number above 0 and at most ${MAX_WEIGHT}`);
+    } else {
+      metric.weight = weight;
+    }
+    // Names are heatmapData keys, so they must be unique
+    if (metric.name && metrics.some((m) => m.name.toLowerCase() === metric.name.toLowerCase())) {
+      errors.push(`'metrics[${i}].name' is used by another metric`);
+    }
+    metrics.push(metric);
+  });
+
+  return { metrics, errors };
+}
+
+/** One line per metric, for the analyst's prompt. */
+export function describeRubric(rubric: Rubric): string {
+  return rubric.metrics
+    .map((m) => `- ${m.name} (weight ${m.weight}): ${m.description} 1=${m.low}, 10=${m.high}.`)
+    .join('\n');
+}
+
+/** The `heatmapData` part of the analysis schema: one 1-10 score per metric. */
+export function buildHeatmapSchema(rubric: Rubric): ResponseSchema {
+  return {
+    type: 'OBJECT',
+    description: `A key-value map of the ${rubric.metrics.length} rubric metrics and their scores (1-10).`,
+    properties: Object.fromEntries(
+      rubric.metrics.map((metric) => [
+        metric.name,
+        {
+          type: 'NUMBER',
+          description: `Score 1-10. ${metric.description} 1=${metric.low}, 10=${metric.high}.`,
+        },
+      ])
+    ),
+    required: rubric.metrics.map((metric) => metric.name),
+  };
+}
+
+/**
+ * The overall score out of 100: the weighted average of the metric scores
+ * (each clamped to 1-10), times ten. Metrics the analyst left out are
+ * skipped rather than counted as zero.
+ */
+export function weightedScore(rubric: Rubric, heatmap: HeatmapData): number {
+  let total = 0;
+  let weights = 0;
+  for (const metric of rubric.metrics) {
+    const score = heatmap[metric.name];
+    if (typeof score !== 'number' || Number.isNaN(score)) continue;
+    total += Math.min(10, Math.max(1, score)) * metric.weight;
+    weights += metric.weight;
+  }
+  return weights > 0 ? Math.round((total / weights) * 10) : 0;
+}
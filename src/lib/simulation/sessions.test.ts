@@ -0,0 +1,178 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ConflictError, getSimulationRepository } from '@/lib/storage';
+import { NewSimulation, Scenario, Simulation } from '@/lib/types';
+import { generateInterjection, updateWorld } from './host';
+import { expireTimer, finishSession, startSession, streamTurn, submitDebrief, takeTurn } from './sessions';
+import { breachGraph, CREATED_AT } from './test-fixtures';
+import { CLOCK_GRACE_MS } from './timing';
+
+// The real host, so each test can make one of its calls fail
+vi.mock('./host', async (importOriginal) => {
+  const host = await importOriginal<typeof import('./host')>();
+  return { ...host, generateInterjection: vi.fn(host.generateInterjection), updateWorld: vi.fn(host.updateWorld) };
+});
+
+const START = Date.parse(CREATED_AT);
+
+const start = (scenario: Partial<Scenario> = {}) =>
+  startSession({
+    teamSize: 3,
+    domain: 'Healthcare',
+    scenario: { title: 'Ward closure', description: 'A ward must close.', keyDecision: 'Which one?', ...scenario },
+  } satisfies NewSimulation);
+
+// Runs a streamed host turn to the end
+async function drain(stream: AsyncGenerator<string, Simulation>): Promise<{ text: string; simulation: Simulation }> {
+  let text = '';
+  for (;;) {
+    const next = await stream.next();
+    if (next.done) return { text, simulation: next.value };
+    text += next.value;
+  }
+}
+
+const stored = async (id: string) => (await getSimulationRepository().get(id))!;
+
+describe('session lifecycle', () => {
+  let dataDir: string;
+
+  beforeAll(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), 'workdna-'));
+    vi.stubEnv('STORAGE_BACKEND', 'local');
+    vi.stubEnv('LOCAL_DATA_DIR', dataDir);
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  // Only the clock is faked: the mock model's streams still wait between words
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  describe('ending', () => {
+    it('moves to the debrief once the turn limit is reached', async () => {
+      const sim = await start({ endConditions: { maxTurns: 1 }, debriefQuestions: ['What would you change?'] });
+      const ended = await takeTurn(sim.id, { content: 'Close Ward B' });
+
+      expect(ended.status).toBe('debriefing');
+      expect(ended.ending).toMatchObject({ reason: 'max-turns', questions: ['What would you change?'] });
+      await expect(takeTurn(sim.id, { content: 'And then?' })).rejects.toThrow('Simulation is already debriefing');
+
+      const completed = await submitDebrief(sim.id, ['Ask the staff sooner']);
+      expect(completed.status).toBe('completed');
+      expect(completed.debrief).toEqual([{ question: 'What would you change?', answer: 'Ask the staff sooner' }]);
+      expect(completed.statusHistory.map((s) => s.status)).toEqual(['pending', 'debriefing', 'completed']);
+    });
+
+    it('ends an authored scenario at a terminal node', async () => {
+      const sim = await start({ graph: breachGraph });
+      const ended = await takeTurn(sim.id, { content: '', optionId: 'wait' });
+      expect(ended.ending?.reason).toBe('terminal-node');
+      expect(ended.transcript.at(-1)).toMatchObject({ role: 'host', nodeId: 'end' });
+    });
+
+    it('saves the ending only once', async () => {
+      const sim = await start({ graph: breachGraph });
+      await takeTurn(sim.id, { content: '', optionId: 'disclose' });
+      const results = await Promise.allSettled([finishSession(sim.id), finishSession(sim.id)]);
+
+      expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect((await stored(sim.id)).statusHistory.map((s) => s.status)).toEqual(['pending', 'debriefing']);
+    });
+  });
+
+  describe('clocks', () => {
+    const timing = { sessionSeconds: 60, turnSeconds: 30, onTimeout: 'no-decision' as const };
+
+    it('closes a session past its clock on the next turn', async () => {
+      const sim = await start({ graph: breachGraph, timing });
+      vi.setSystemTime(START + 60_000 + CLOCK_GRACE_MS + 1);
+
+      await expect(takeTurn(sim.id, { content: '', optionId: 'wait' })).rejects.toThrow('Time is up for this session');
+      const closed = await stored(sim.id);
+      expect(closed.status).toBe('debriefing');
+      expect(closed.ending?.reason).toBe('time');
+      expect(closed.transcript.at(-1)).toMatchObject({
+        role: 'host',
+        content: 'Time is up. The simulation has ended.',
+        timedOut: true,
+      });
+    });
+
+    it('lets the session clock run out through expireTimer', async () => {
+      const sim = await start({ graph: breachGraph, timing });
+      vi.setSystemTime(START + 60_000 + CLOCK_GRACE_MS + 1);
+
+      const { text, simulation } = await drain(await expireTimer(sim.id));
+      expect(text).toBe('Time is up. The simulation has ended.');
+      expect(simulation.ending?.reason).toBe('time');
+      expect(simulation.transcript.filter((e) => e.timedOut)).toHaveLength(1);
+    });
+
+    it('waits out the grace period before acting on the turn clock', async () => {
+      const sim = await start({ graph: breachGraph, timing });
+      vi.setSystemTime(START + 30_000 + CLOCK_GRACE_MS);
+      await expect(expireTimer(sim.id)).rejects.toThrow('The turn clock has not run out');
+
+      vi.setSystemTime(START + 30_000 + CLOCK_GRACE_MS + 1);
+      const { simulation } = await drain(await expireTimer(sim.id));
+      expect(simulation.status).toBe('pending');
+      expect(simulation.transcript.slice(1).map((e) => [e.role, e.content, e.timedOut])).toEqual([
+        ['team', 'No decision was made before time ran out.', true],
+        ['host', 'No decision was made in time. Customer data has leaked.', undefined],
+      ]);
+    });
+  });
+
+  describe('extras on a turn', () => {
+    const personas = [
+      { id: 'dana', name: 'Dana', role: 'General Counsel', goals: 'Limit exposure.', tone: 'Measured' },
+    ];
+
+    it('saves the turn when the personas cannot be asked', async () => {
+      vi.mocked(generateInterjection).mockRejectedValueOnce(new Error('Model unavailable'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const sim = await start({ personas });
+
+      const saved = await takeTurn(sim.id, { content: 'Close Ward B' });
+      expect(generateInterjection).toHaveBeenCalled();
+      expect(saved.transcript.map((e) => e.role)).toEqual(['host', 'team', 'host']);
+    });
+
+    it('keeps the previous world when it cannot be updated', async () => {
+      vi.mocked(updateWorld).mockRejectedValueOnce(new Error('Model unavailable'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const sim = await start();
+      expect(sim.world).toBeDefined();
+
+      const saved = await takeTurn(sim.id, { content: 'Close Ward B' });
+      expect(updateWorld).toHaveBeenCalled();
+      expect(saved.transcript).toHaveLength(3);
+      expect(saved.world).toEqual(sim.world);
+    });
+  });
+
+  it('refuses a reply to a host turn that was answered in the meantime', async () => {
+    const sim = await start({ graph: breachGraph });
+    const late = await streamTurn(sim.id, { content: '', optionId: 'wait' });
+    await takeTurn(sim.id, { content: '', optionId: 'disclose' });
+
+    await expect(drain(late)).rejects.toBeInstanceOf(ConflictError);
+    expect((await stored(sim.id)).transcript.map((e) => e.nodeId)).toEqual(['breach', 'breach', 'press']);
+  });
+});
@@ -0,0 +1,556 @@
+import { randomBytes, randomInt, randomUUID } from 'crypto';
+
+import { LlmError } from '@/lib/llm';
+import { ConflictError, getSimulationRepository, NotFoundError } from '@/lib/storage';
+import {
+  DebriefAnswer,
+  EndReason,
+  NewSimulation,
+  Participant,
+  Simulation,
+  TimeoutAction,
+  TranscriptEntry,
+  WorldState,
+} from '@/lib/types';
+import { countTurns, DEFAULT_DEBRIEF_QUESTIONS, END_REASONS } from './ending';
+import { getCurrentNode, getNode, InvalidMoveError, resolveMove } from './graph';
+import {
+  cleanHostText,
+  detectFinalDecision,
+  generateClosing,
+  generateInterjection,
+  generateNextPrompt,
+  generateOpeningPrompt,
+  streamNextPrompt,
+  updateWorld,
+} from './host';
+import { personaLabel } from './personas';
+import { CLOCK_GRACE_MS, getDeadlines, responseLatency } from './timing';
+
+// --- Session lifecycle ---
+// The server owns every write to a simulation: the client only sends the
+// team's text and gets the updated simulation back.
+
+async function getPendingSimulation(id: string): Promise<Simulation> {
+  const simulation = await getSimulationRepository().get(id);
+  if (!simulation) throw new NotFoundError('simulations', id);
+  if (simulation.status !== 'pending') {
+    throw new ConflictError(`Simulation is already ${simulation.status}`);
+  }
+  return simulation;
+}
+
+/**
+ * Asks the host for the opening prompt and starting world state, then
+ * creates the simulation with them. If the model fails, nothing is written.
+ * Authored scenarios open with the start node's narrative instead (callers
+ * validate the graph first) and keep no world state.
+ */
+export async function startSession(input: NewSimulation): Promise<Simulation> {
+  const graph = input.scenario.graph;
+  const joinCode = await newJoinCode();
+  if (graph) {
+    const opening = newEntry('host', getNode(graph, graph.start)!.narrative, { nodeId: graph.start });
+    return getSimulationRepository().create({ ...input, joinCode }, [opening]);
+  }
+
+  const { openingPrompt, world } = await generateOpeningPrompt(input);
+  return getSimulationRepository().create({ ...input, joinCode, world }, [newEntry('host', openingPrompt)]);
+}
+
+/**
+ * What the facilitator submits for a turn. `participantId` names the
+ * in-person speaker who said it; without one the entry is the team's as a
+ * whole. Members on their own devices post their own messages.
+ */
+export interface TeamAnswer {
+  content: string;
+  optionId?: string;
+  participantId?: string;
+}
+
+/**
+ * Records the team's response and the host's reply in a single write.
+ * The host is called first, so a failed AI call leaves the transcript as it
+ * was and the team can simply resubmit. On an authored scenario the reply is
+ * the narrative of the node the team's answer leads to; `optionId` picks the
+ * edge at a choice node.
+ */
+export async function takeTurn(id: string, answer: TeamAnswer): Promise<Simulation> {
+  const simulation = await getPendingSimulation(id);
+  await requireTimeLeft(simulation);
+  requireTurnsLeft(simulation);
+  if (simulation.scenario.graph) {
+    const [teamEntry, hostEntry] = walkGraph(simulation, answer);
+    return saveEntries(simulation, [teamEntry, hostEntry]);
+  }
+
+  const teamEntry = newTeamEntry(simulation, requireContent(answer.content), speakerFields(simulation, answer.participantId));
+  const nextPrompt = await generateNextPrompt(simulation, [...simulation.transcript, teamEntry]);
+  return saveTurn(simulation, [teamEntry, newEntry('host', nextPrompt)]);
+}
+
+/**
+ * The streaming variant of `takeTurn`. Checks the session up front (so a
+ * missing or finished session is still a plain error response), then yields
+ * host text as it arrives and returns the saved simulation once the reply is
+ * complete. Nothing is written if the stream fails or `signal` aborts.
+ */
+export async function streamTurn(
+  id: string,
+  answer: TeamAnswer,
+  signal?: AbortSignal
+): Promise<AsyncGenerator<string, Simulation>> {
+  const simulation = await getPendingSimulation(id);
+  await requireTimeLeft(simulation);
+  requireTurnsLeft(simulation);
+
+  if (simulation.scenario.graph) {
+    // Nothing to stream: the narrative is sent as a single chunk.
+    const [teamEntry, hostEntry] = walkGraph(simulation, answer);
+    return (async function* () {
+      yield hostEntry.content;
+      return saveEntries(simulation, [teamEntry, hostEntry]);
+    })();
+  }
+
+  const teamEntry = newTeamEntry(simulation, requireContent(answer.content), speakerFields(simulation, answer.participantId));
+  return streamHost(simulation, [teamEntry], signal);
+}
+
+/**
+ * Streams host text for the transcript plus `teamEntries`, then saves them
+ * together with the cleaned reply. With `timeout`, the reply reacts to the
+ * turn clock running out.
+ */
+async function* streamHost(
+  simulation: Simulation,
+  teamEntries: TranscriptEntry[],
+  signal?: AbortSignal,
+  timeout?: TimeoutAction
+): AsyncGenerator<string, Simulation> {
+  let text = '';
+  const transcript = [...simulation.transcript, ...teamEntries];
+  for await (const chunk of streamNextPrompt(simulation, transcript, signal, timeout)) {
+    text += chunk;
+    yield chunk;
+  }
+  if (signal?.aborted) {
+    throw new LlmError('The turn was cancelled', 499);
+  }
+  const nextPrompt = cleanHostText(text);
+  if (!nextPrompt) {
+    throw new LlmError('AI did not return a valid response.');
+  }
+  // Only an escalation is the host's doing; a 'no decision' entry is the team's.
+  const hostEntry = newEntry('host', nextPrompt, timeout === 'escalate' ? { timedOut: true } : {});
+  return saveTurn(simulation, [...teamEntries, hostEntry]);
+}
+
+/**
+ * Saves an improvised turn once the host has replied. A persona's
+ * interjection and the world update are asked for together; both are
+ * extras on top of the reply, so neither failing loses the turn.
+ */
+async function saveTurn(simulation: Simulation, turnEntries: TranscriptEntry[]): Promise<Simulation> {
+  const [entries, world] = await Promise.all([
+    withInterjection(simulation, turnEntries),
+    nextWorld(simulation, turnEntries),
+  ]);
+  return saveEntries(simulation, entries, world);
+}
+
+/**
+ * Lets one of the scenario's personas speak up after the host's reply, as
+ * its own entry in the same write. If the model fails, nobody does.
+ */
+async function withInterjection(simulation: Simulation, newEntries: TranscriptEntry[]): Promise<TranscriptEntry[]> {
+  const personas = simulation.scenario.personas ?? [];
+  if (personas.length === 0) return newEntries;
+
+  try {
+    const interjection = await generateInterjection(simulation, personas, [...simulation.transcript, ...newEntries]);
+    if (!interjection) return newEntries;
+    const { persona, message } = interjection;
+    return [...newEntries, newEntry('persona', message, { personaId: persona.id, speaker: personaLabel(persona) })];
+  } catch (error) {
+    console.error(`Could not ask the personas of simulation ${simulation.id}:`, error);
+    return newEntries;
+  }
+}
+
+/**
+ * The world state after a turn: the team's entries since the host last
+ * spoke (members may have posted several) and the host's reply. The state
+ * is bookkeeping on top of the reply, so if the model fails the previous
+ * state is kept and the turn is saved anyway.
+ */
+async function nextWorld(simulation: Simulation, newEntries: TranscriptEntry[]): Promise<WorldState | undefined> {
+  const { world } = simulation;
+  if (!world) return undefined;
+
+  const lastHost = simulation.transcript.map((entry) => entry.role).lastIndexOf('host');
+  const turn = [...simulation.transcript.slice(lastHost + 1), ...newEntries];
+  try {
+    return await updateWorld({ ...simulation, world }, turn);
+  } catch (error) {
+    console.error(`Could not update the world of simulation ${simulation.id}:`, error);
+    return world;
+  }
+}
+
+function newEntry(
+  role: TranscriptEntry['role'],
+  content: string,
+  fields: Pick<TranscriptEntry, 'nodeId' | 'optionId' | 'participantId' | 'personaId' | 'speaker' | 'timedOut'> = {}
+): TranscriptEntry {
+  return { role, content, timestamp: new Date().toISOString(), ...fields };
+}
+
+// Team entries record how long the team took since the host's last prompt.
+function newTeamEntry(
+  simulation: Simulation,
+  content: string,
+  fields: Parameters<typeof newEntry>[2] = {}
+): TranscriptEntry {
+  const entry = newEntry('team', content, fields);
+  const latencyMs = responseLatency(simulation.transcript, Date.parse(entry.timestamp));
+  return latencyMs === undefined ? entry : { ...entry, latencyMs };
+}
+
+// Tags an entry with the in-person speaker who said it. Members on their own
+// devices are attributed only through their token, in `postMessage`.
+function speakerFields(
+  simulation: Simulation,
+  participantId?: string
+): Pick<TranscriptEntry, 'participantId' | 'speaker'> {
+  if (!participantId) return {};
+  const participant = simulation.participants.find((p) => p.id === participantId);
+  if (!participant) throw new NotFoundError('participants', participantId);
+  if (!participant.inPerson) {
+    throw new ConflictError(`${participant.name} joined on their own device; only they can post as themselves`);
+  }
+  return { participantId, speaker: participant.name };
+}
+
+// Only choice nodes can be answered with an option alone.
+function requireContent(content: string): string {
+  if (!content) throw new InvalidMoveError('A response is required');
+  return content;
+}
+
+/**
+ * Moves an authored scenario one step: the team entry records the node it
+ * answered (and the option picked), the host entry narrates the next node.
+ */
+function walkGraph(simulation: Simulation, answer: TeamAnswer): [TranscriptEntry, TranscriptEntry] {
+  const graph = simulation.scenario.graph!;
+  const node = getCurrentNode(simulation)!;
+  const move = resolveMove(graph, node, answer);
+  return [
+    newTeamEntry(simulation, move.content, {
+      nodeId: node.id,
+      optionId: move.optionId,
+      ...speakerFields(simulation, answer.participantId),
+    }),
+    newEntry('host', move.next.narrative, { nodeId: move.next.id }),
+  ];
+}
+
+/**
+ * Writes a turn's entries (the team's, then the host reply) and the world
+ * state after it together, as long as the host hasn't replied since
+ * `simulation` was read, then ends the session if the turn met an end
+ * condition. Members' messages posted while the reply was being written
+ * stay ahead of it.
+ */
+async function saveEntries(simulation: Simulation, entries: TranscriptEntry[], world?: WorldState) {
+  const saved = await getSimulationRepository().appendTranscriptEntries(simulation.id, entries, {
+    since: simulation.transcript.length,
+    world,
+  });
+  return endIfOver(saved, entries);
+}
+
+/** Ends the session early, from the facilitator's screen. */
+export async function finishSession(id: string): Promise<Simulation> {
+  const simulation = await getPendingSimulation(id);
+  if (simulation.transcript.length < 2) {
+    throw new ConflictError('The team has not responded yet');
+  }
+  return endSession(simulation, 'facilitator');
+}
+
+// --- Ending and debrief ---
+// When a session ends, the host narrates where the team's choices led and
+// the session waits in 'debriefing' for the team's reflections. Only then
+// is it completed and ready for analysis.
+
+// Authored scenarios end at their terminal nodes instead
+function requireTurnsLeft(simulation: Simulation) {
+  const maxTurns = simulation.scenario.endConditions?.maxTurns;
+  if (maxTurns && countTurns(simulation.transcript) >= maxTurns) {
+    throw new ConflictError('The turn limit has been reached');
+  }
+}
+
+/** Why a session that just saved `entries` is over, if it is. */
+async function endReason(simulation: Simulation, entries: TranscriptEntry[]): Promise<EndReason | null> {
+  const { graph, endConditions } = simulation.scenario;
+  if (graph && getCurrentNode(simulation)?.kind === 'terminal') return 'terminal-node';
+  if (endConditions?.maxTurns && countTurns(simulation.transcript) >= endConditions.maxTurns) return 'max-turns';
+  // On authored scenarios every choice is final, so only improvised ones are checked
+  if (!graph && endConditions?.finalDecision && entries.some((entry) => entry.role === 'team')) {
+    if (await detectFinalDecision(simulation, entries)) return 'final-decision';
+  }
+  return null;
+}
+
+/**
+ * Ends the session after a saved turn that met an end condition. The turn
+ * is already stored, so if checking the conditions or saving the ending
+ * fails the session stays open for the facilitator to end by hand.
+ */
+async function endIfOver(simulation: Simulation, entries: TranscriptEntry[]): Promise<Simulation> {
+  try {
+    const reason = await endReason(simulation, entries);
+    return reason ? await endSession(simulation, reason) : simulation;
+  } catch (error) {
+    console.error(`Could not end simulation ${simulation.id}:`, error);
+    return simulation;
+  }
+}
+
+/**
+ * Asks the host for the closing narrative and debrief questions, and moves
+ * the session to 'debriefing'. The scenario's own questions win over the
+ * host's. If the model fails, the session still ends, with a plain
+ * narrative and the default questions.
+ */
+async function endSession(simulation: Simulation, reason: EndReason): Promise<Simulation> {
+  const closing = await generateClosing(simulation, simulation.transcript, END_REASONS[reason]).catch((error) => {
+    console.error(`Could not write the closing of simulation ${simulation.id}:`, error);
+    return { narrative: `${END_REASONS[reason]}.`, questions: [] };
+  });
+  const questions = simulation.scenario.debriefQuestions?.length
+    ? simulation.scenario.debriefQuestions
+    : closing.questions.length > 0 ? closing.questions : DEFAULT_DEBRIEF_QUESTIONS;
+
+  return getSimulationRepository().saveEnding(simulation.id, {
+    reason,
+    narrative: closing.narrative,
+    questions,
+    at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Stores the team's answers to the debrief questions, in order, and
+ * completes the session. Blank answers are left out, so an empty list
+ * skips the debrief.
+ */
+export async function submitDebrief(id: string, answers: string[]): Promise<Simulation> {
+  const simulation = await getSimulationRepository().get(id);
+  if (!simulation) throw new NotFoundError('simulations', id);
+  if (simulation.status !== 'debriefing') {
+    throw new ConflictError(
+      simulation.status === 'pending' ? 'The simulation has not ended yet' : `Simulation is already ${simulation.status}`
+    );
+  }
+  const debrief: DebriefAnswer[] = (simulation.ending?.questions ?? [])
+    .map((question, i) => ({ question, answer: answers[i] ?? '' }))
+    .filter(({ answer }) => answer);
+  return getSimulationRepository().saveDebrief(id, debrief);
+}
+
+// --- Live rooms ---
+// Every session has a room. Members join with its code from their own
+// device and post messages under their name; the facilitator decides when
+// the host replies to the discussion so far.
+
+// No 0/O or 1/I, so codes survive being read aloud
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+async function newJoinCode(): Promise<string> {
+  const repository = getSimulationRepository();
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = Array.from(
+      { length: JOIN_CODE_LENGTH },
+      () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]
+    ).join('');
+    if (!(await repository.findByJoinCode(code))) return code;
+  }
+  throw new Error('Could not allocate a room code');
+}
+
+/**
+ * Adds a member to the room with this code. Names must be unique in a room.
+ * The token is the member's secret: their device posts messages with it,
+ * and this is the only response it is ever sent in.
+ */
+export async function joinSession(
+  code: string,
+  name: string
+): Promise<{ simulation: Simulation; participant: Participant; token: string }> {
+  const repository = getSimulationRepository();
+  const found = await repository.findByJoinCode(code.trim().toUpperCase());
+  if (!found) throw new NotFoundError('rooms', code);
+  if (found.status !== 'pending') {
+    throw new ConflictError(`Simulation is already ${found.status}`);
+  }
+  const token = randomBytes(24).toString('hex');
+  return { ...(await addToRoom(found, name, { token })), token };
+}
+
+/**
+ * Adds a speaker to the room from the facilitator's screen, for members
+ * who talk in person rather than joining on their own device. They get no
+ * token, so no device can post as them.
+ */
+export async function addSpeaker(
+  id: string,
+  name: string
+): Promise<{ simulation: Simulation; participant: Participant }> {
+  return addToRoom(await getPendingSimulation(id), name, { inPerson: true });
+}
+
+// The repository checks the name is free in the same write that adds them.
+async function addToRoom(
+  simulation: Simulation,
+  name: string,
+  { token, inPerson }: { token?: string; inPerson?: true }
+): Promise<{ simulation: Simulation; participant: Participant }> {
+  const participant: Participant = {
+    id: randomUUID(),
+    name,
+    joinedAt: new Date().toISOString(),
+    ...(inPerson && { inPerson }),
+  };
+  const updated = await getSimulationRepository().addParticipant(simulation.id, participant, token);
+  return { simulation: updated, participant };
+}
+
+/**
+ * Appends a message from the member whose device holds `token`. The host
+ * does not reply until asked.
+ */
+export async function postMessage(id: string, token: string, content: string): Promise<Simulation> {
+  const simulation = await getPendingSimulation(id);
+  await requireTimeLeft(simulation);
+  const participant = await getSimulationRepository().findParticipantByToken(id, token);
+  if (!participant) throw new NotFoundError('participants', '(unknown token)');
+  return getSimulationRepository().appendTranscriptEntry(
+    id,
+    newTeamEntry(simulation, content, { participantId: participant.id, speaker: participant.name })
+  );
+}
+
+/**
+ * Streams the host's reply to the members' messages since it last spoke.
+ * Authored scenarios only move on when the facilitator picks an option.
+ */
+export async function streamHostReply(id: string, signal?: AbortSignal): Promise<AsyncGenerator<string, Simulation>> {
+  const simulation = await getPendingSimulation(id);
+  if (simulation.scenario.graph) {
+    throw new ConflictError('Authored scenarios move on when the facilitator answers');
+  }
+  if (simulation.transcript.at(-1)?.role !== 'team') {
+    throw new ConflictError('Nobody has spoken since the host last replied');
+  }
+  await requireTimeLeft(simulation);
+  requireTurnsLeft(simulation);
+  return streamHost(simulation, [], signal);
+}
+
+// --- Timers ---
+// The clocks are enforced here. The interview page counts down and calls
+// `expireTimer` when one reaches zero, but a session past its clock is also
+// ended by the next turn or message and by the room feed, so it closes even
+// with no facilitator's screen open.
+
+// Both clocks give a reply sent at the last second the grace period to arrive.
+const isPast = (deadline: number | undefined) => deadline !== undefined && Date.now() > deadline + CLOCK_GRACE_MS;
+
+const TIME_UP_MESSAGE = 'Time is up. The simulation has ended.';
+
+const sessionTimeUp = (simulation: Simulation) => isPast(getDeadlines(simulation).session);
+
+async function requireTimeLeft(simulation: Simulation) {
+  if (!sessionTimeUp(simulation)) return;
+  try {
+    await closeOnTime(simulation);
+  } catch (error) {
+    console.error(`Could not end simulation ${simulation.id}:`, error);
+  }
+  throw new ConflictError('Time is up for this session');
+}
+
+/**
+ * Ends a session whose clock has run out, if it hasn't been ended yet. For
+ * the room feed, which sees every live session whether or not anyone acts.
+ */
+export async function endIfTimeUp(simulation: Simulation): Promise<Simulation> {
+  return simulation.status === 'pending' && sessionTimeUp(simulation) ? closeOnTime(simulation) : simulation;
+}
+
+/**
+ * Writes the host's final entry and moves the session to the debrief. The
+ * entry is not written twice if an earlier attempt stopped after it.
+ */
+async function closeOnTime(simulation: Simulation): Promise<Simulation> {
+  const last = simulation.transcript.at(-1);
+  if (last?.role === 'host' && last.content === TIME_UP_MESSAGE) {
+    return endSession(simulation, 'time');
+  }
+  const saved = await getSimulationRepository().appendTranscriptEntries(
+    simulation.id,
+    [newEntry('host', TIME_UP_MESSAGE, { timedOut: true })],
+    { since: simulation.transcript.length }
+  );
+  return endSession(saved, 'time');
+}
+
+/**
+ * Handles a clock that has run out. When the session clock is up, the
+ * session ends with a final host entry and moves on to the debrief. When
+ * the turn clock is up, the host either escalates or a "no decision" entry
+ * is recorded for the team, as the scenario's timing says, and the clock
+ * restarts from the host's reply. Streams like `streamTurn`.
+ */
+export async function expireTimer(id: string, signal?: AbortSignal): Promise<AsyncGenerator<string, Simulation>> {
+  const simulation = await getPendingSimulation(id);
+  const timing = simulation.scenario.timing;
+  const deadlines = getDeadlines(simulation);
+
+  if (isPast(deadlines.session)) {
+    return (async function* () {
+      yield TIME_UP_MESSAGE;
+      return closeOnTime(simulation);
+    })();
+  }
+
+  if (!timing || !isPast(deadlines.turn)) {
+    throw new ConflictError('The turn clock has not run out');
+  }
+
+  // Not a decision, so it carries no node and stays out of the path
+  const noDecision = timing.onTimeout === 'no-decision'
+    ? [newTeamEntry(simulation, 'No decision was made before time ran out.', { timedOut: true })]
+    : [];
+
+  if (simulation.scenario.graph) {
+    // Authored scenarios stay on the same node: its narrative is repeated
+    // with the pressure the timeout adds.
+    const node = getCurrentNode(simulation)!;
+    const hostEntry = noDecision.length > 0
+      ? newEntry('host', `No decision was made in time. ${node.narrative}`, { nodeId: node.id })
+      : newEntry('host', `Time's up, and the situation won't wait. ${node.narrative}`, { nodeId: node.id, timedOut: true });
+    return (async function* () {
+      yield hostEntry.content;
+      return saveEntries(simulation, [...noDecision, hostEntry]);
+    })();
+  }
+
+  return streamHost(simulation, noDecision, signal, timing.onTimeout);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { checkSkillGraph, LayoutItem, LayoutOptions, layoutGraph } from './skill-layout';
+
+const item = (id: string, ...dependencies: string[]): LayoutItem => ({ id, dependencies });
+
+const options: LayoutOptions = { direction: 'vertical', nodeWidth: 100, nodeHeight: 40, nodeGap: 20, layerGap: 60 };
+
+describe('checkSkillGraph', () => {
+  it('finds nothing wrong with a tree', () => {
+    expect(checkSkillGraph([item('a'), item('b', 'a'), item('c', 'a', 'b')])).toEqual({ cycles: [], orphans: [] });
+  });
+
+  it('reports cycles in framework order, including self-dependencies', () => {
+    const items = [item('a', 'c'), item('b', 'a'), item('c', 'b'), item('d', 'd'), item('e', 'a')];
+    expect(checkSkillGraph(items).cycles).toEqual([['a', 'b', 'c'], ['d']]);
+  });
+
+  it('reports dependencies on skills that are not in the framework', () => {
+    expect(checkSkillGraph([item('a', 'gone'), item('b', 'a')]).orphans).toEqual([
+      { skillId: 'a', dependencyId: 'gone' },
+    ]);
+  });
+});
+
+describe('layoutGraph', () => {
+  it('puts each item a layer below its deepest prerequisite', () => {
+    const { positions, edges } = layoutGraph([item('a'), item('b', 'a'), item('c', 'a', 'b')], options);
+    expect([positions.a.y, positions.b.y, positions.c.y]).toEqual([0, 100, 200]);
+    expect(edges.map((e) => `${e.source}>${e.target}`)).toEqual(['a>b', 'a>c', 'b>c']);
+  });
+
+  it('runs along the x axis when horizontal', () => {
+    const { positions } = layoutGraph([item('a'), item('b', 'a')], { ...options, direction: 'horizontal' });
+    expect([positions.a.x, positions.b.x]).toEqual([0, 160]);
+    expect(positions.a.y).toBe(positions.b.y);
+  });
+
+  it('centres each layer and keeps neighbours apart', () => {
+    const { positions } = layoutGraph([item('a'), item('b')], options);
+    expect([positions.a.x, positions.b.x]).toEqual([-110, 10]);
+  });
+
+  it('reorders a layer to avoid crossing edges', () => {
+    const { positions } = layoutGraph([item('a'), item('b'), item('x', 'b'), item('y', 'a')], options);
+    expect(positions.y.x).toBeLessThan(positions.x.x);
+  });
+
+  it('still places every item when there is a cycle, marking the edge that closes it', () => {
+    const { positions, edges } = layoutGraph([item('a', 'b'), item('b', 'a'), item('c', 'missing')], options);
+    expect(Object.keys(positions).sort()).toEqual(['a', 'b', 'c']);
+    expect(edges.filter((e) => e.cyclic)).toHaveLength(1);
+  });
+});
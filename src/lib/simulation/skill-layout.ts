@@ -0,0 +1,298 @@
+// --- Skill graph layout ---
+// Places a skill framework's dependency graph in layers (prerequisites
+// first) for the skill tree, and finds the problems that stop it being a
+// proper tree: dependency cycles and dependencies on skills that don't exist.
+// Pure and client-safe; the framework editor uses the checks too.
+
+export type LayoutDirection = 'vertical' | 'horizontal';
+
+// Anything with dependencies: a skill, or a collapsed category standing in for its skills.
+export interface LayoutItem {
+  id: string;
+  dependencies: string[];
+}
+
+export interface OrphanedDependency {
+  skillId: string;
+  dependencyId: string; // not in the framework
+}
+
+export interface LayoutEdge {
+  source: string; // the prerequisite
+  target: string;
+  // Closes a dependency cycle, so it is left out when placing the layers
+  cyclic: boolean;
+}
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  nodeWidth: number;
+  nodeHeight: number;
+  nodeGap: number; // between neighbours in a layer
+  layerGap: number; // between layers
+}
+
+export interface GraphLayout {
+  // Top-left corner of each item, as React Flow positions nodes
+  positions: Record<string, { x: number; y: number }>;
+  edges: LayoutEdge[];
+}
+
+// What keeps a framework from being a proper tree. Skills in a cycle can
+// never unlock; orphaned dependencies are ignored.
+export interface SkillGraphIssues {
+  cycles: string[][]; // each cycle's items, in framework order
+  orphans: OrphanedDependency[];
+}
+
+// Barycenter sweeps before settling for the best ordering found
+const MAX_SWEEPS = 8;
+// Room given to an edge passing through a layer
+const DUMMY_BREADTH = 24;
+
+/** Both checks, as the skill tree reports them. */
+export function checkSkillGraph(items: LayoutItem[]): SkillGraphIssues {
+  return { cycles: findDependencyCycles(items), orphans: findOrphanedDependencies(items) };
+}
+
+/** Dependencies naming an id that isn't in the graph. */
+export function findOrphanedDependencies(items: LayoutItem[]): OrphanedDependency[] {
+  const ids = new Set(items.map((item) => item.id));
+  return items.flatMap((item) =>
+    item.dependencies
+      .filter((id) => !ids.has(id))
+      .map((dependencyId) => ({ skillId: item.id, dependencyId }))
+  );
+}
+
+/**
+ * Groups of items that depend on each other in a loop (Tarjan's strongly
+ * connected components), including items that depend on themselves.
+ */
+export function findDependencyCycles(items: LayoutItem[]): string[][] {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const order = new Map(items.map((item, i) => [item.id, i]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let next = 0;
+
+  const visit = (id: string) => {
+    index.set(id, next);
+    lowLink.set(id, next);
+    next++;
+    stack.push(id);
+    onStack.add(id);
+
+    for (const dependency of byId.get(id)!.dependencies) {
+      if (!byId.has(dependency)) continue;
+      if (!index.has(dependency)) {
+        visit(dependency);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(dependency)!));
+      } else if (onStack.has(dependency)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(dependency)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1 || byId.get(id)!.dependencies.includes(id)) {
+        cycles.push(component.sort((a, b) => order.get(a)! - order.get(b)!));
+      }
+    }
+  };
+
+  for (const item of items) {
+    if (!index.has(item.id)) visit(item.id);
+  }
+  return cycles.sort((a, b) => order.get(a[0])! - order.get(b[0])!);
+}
+
+/**
+ * A layered (Sugiyama-style) layout: cycles are broken, items are put one
+ * layer below their deepest prerequisite, long edges get placeholder nodes
+ * so they can be routed between items, and each layer is reordered by
+ * barycenter to cut down edge crossings.
+ */
+export function layoutGraph(items: LayoutItem[], options: LayoutOptions): GraphLayout {
+  const ids = new Set(items.map((item) => item.id));
+  const edges = collectEdges(items, ids);
+  markCyclicEdges(items, edges);
+  const acyclic = edges.filter((edge) => !edge.cyclic);
+
+  // 1. Layers by longest path from the items with no prerequisites
+  const layerOf = assignLayers(items, acyclic);
+
+  // 2. Placeholder nodes where an edge skips layers
+  const layers: string[][] = [];
+  const place = (id: string, layer: number) => (layers[layer] ??= []).push(id);
+  items.forEach((item) => place(item.id, layerOf.get(item.id)!));
+  const links: [string, string][] = [];
+  for (const edge of acyclic) {
+    let from = edge.source;
+    for (let layer = layerOf.get(edge.source)! + 1; layer < layerOf.get(edge.target)!; layer++) {
+      const dummy = `~${edge.source}>${edge.target}#${layer}`;
+      place(dummy, layer);
+      layerOf.set(dummy, layer);
+      links.push([from, dummy]);
+      from = dummy;
+    }
+    links.push([from, edge.target]);
+  }
+
+  // 3. Order each layer to reduce crossings
+  const ordered = minimizeCrossings(Array.from(layers, (layer) => layer ?? []), links, layerOf);
+
+  // 4. Coordinates: layers along the main axis, each centred on the cross axis
+  const vertical = options.direction === 'vertical';
+  const breadth = vertical ? options.nodeWidth : options.nodeHeight;
+  const depth = vertical ? options.nodeHeight : options.nodeWidth;
+  const positions: GraphLayout['positions'] = {};
+  ordered.forEach((layer, i) => {
+    const sizes = layer.map((id) => (ids.has(id) ? breadth : DUMMY_BREADTH));
+    const total = sizes.reduce((sum, size) => sum + size, 0) + options.nodeGap * (layer.length - 1);
+    let cross = -total / 2;
+    layer.forEach((id, j) => {
+      if (ids.has(id)) {
+        const main = i * (depth + options.layerGap);
+        positions[id] = vertical ? { x: cross, y: main } : { x: main, y: cross };
+      }
+      cross += sizes[j] + options.nodeGap;
+    });
+  });
+
+  return { positions, edges };
+}
+
+function collectEdges(items: LayoutItem[], ids: Set<string>): LayoutEdge[] {
+  const seen = new Set<string>();
+  const edges: LayoutEdge[] = [];
+  for (const item of items) {
+    for (const dependency of item.dependencies) {
+      const key = `${dependency}>${item.id}`;
+      if (!ids.has(dependency) || seen.has(key)) continue;
+      seen.add(key);
+      edges.push({ source: dependency, target: item.id, cyclic: false });
+    }
+  }
+  return edges;
+}
+
+// Depth-first from each item in framework order; an edge back to an item
+// still being visited closes a cycle.
+function markCyclicEdges(items: LayoutItem[], edges: LayoutEdge[]) {
+  const outgoing = new Map<string, LayoutEdge[]>();
+  for (const edge of edges) outgoing.set(edge.source, [...(outgoing.get(edge.source) ?? []), edge]);
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    for (const edge of outgoing.get(id) ?? []) {
+      const target = state.get(edge.target);
+      if (target === 'visiting') edge.cyclic = true;
+      else if (!target) visit(edge.target);
+    }
+    state.set(id, 'done');
+  };
+  for (const item of items) {
+    if (!state.has(item.id)) visit(item.id);
+  }
+}
+
+function assignLayers(items: LayoutItem[], edges: LayoutEdge[]): Map<string, number> {
+  const incoming = new Map<string, number>(items.map((item) => [item.id, 0]));
+  for (const edge of edges) incoming.set(edge.target, incoming.get(edge.target)! + 1);
+
+  const layerOf = new Map<string, number>(items.map((item) => [item.id, 0]));
+  const queue = items.filter((item) => incoming.get(item.id) === 0).map((item) => item.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.source !== id) continue;
+      layerOf.set(edge.target, Math.max(layerOf.get(edge.target)!, layerOf.get(id)! + 1));
+      incoming.set(edge.target, incoming.get(edge.target)! - 1);
+      if (incoming.get(edge.target) === 0) queue.push(edge.target);
+    }
+  }
+  return layerOf;
+}
+
+/**
+ * Alternating down and up sweeps, each sorting a layer by the mean position
+ * of its neighbours in the layer just placed. Items without neighbours there
+ * keep their place. Returns the ordering with the fewest crossings seen.
+ */
+function minimizeCrossings(
+  layers: string[][],
+  links: [string, string][],
+  layerOf: Map<string, number>
+): string[][] {
+  const above = new Map<string, string[]>();
+  const below = new Map<string, string[]>();
+  for (const [source, target] of links) {
+    above.set(target, [...(above.get(target) ?? []), source]);
+    below.set(source, [...(below.get(source) ?? []), target]);
+  }
+
+  let current = layers.map((layer) => [...layer]);
+  let best = current;
+  let fewest = countCrossings(current, below, layerOf);
+
+  for (let sweep = 0; sweep < MAX_SWEEPS && fewest > 0; sweep++) {
+    const down = sweep % 2 === 0;
+    const next = current.map((layer) => [...layer]);
+    const indices = next.map((_, i) => i);
+    for (const i of down ? indices.slice(1) : indices.slice(0, -1).reverse()) {
+      const reference = next[down ? i - 1 : i + 1];
+      const position = new Map(reference.map((id, j) => [id, j]));
+      const neighbours = down ? above : below;
+      const barycenter = (id: string, fallback: number) => {
+        const placed = (neighbours.get(id) ?? []).filter((n) => position.has(n));
+        return placed.length === 0
+          ? fallback
+          : placed.reduce((sum, n) => sum + position.get(n)!, 0) / placed.length;
+      };
+      // Scaled to the reference layer so unconnected items hold their relative place
+      const scale = reference.length / Math.max(next[i].length, 1);
+      next[i] = next[i]
+        .map((id, j) => ({ id, key: barycenter(id, j * scale), j }))
+        .sort((a, b) => a.key - b.key || a.j - b.j)
+        .map(({ id }) => id);
+    }
+    current = next;
+    const crossings = countCrossings(current, below, layerOf);
+    if (crossings < fewest) {
+      fewest = crossings;
+      best = current;
+    }
+  }
+  return best;
+}
+
+function countCrossings(layers: string[][], below: Map<string, string[]>, layerOf: Map<string, number>): number {
+  let crossings = 0;
+  for (let i = 0; i < layers.length - 1; i++) {
+    const position = new Map(layers[i + 1].map((id, j) => [id, j]));
+    const segments = layers[i].flatMap((id, j) =>
+      (below.get(id) ?? [])
+        .filter((target) => layerOf.get(target) === i + 1)
+        .map((target) => [j, position.get(target)!] as const)
+    );
+    for (let a = 0; a < segments.length; a++) {
+      for (let b = a + 1; b < segments.length; b++) {
+        const [s1, t1] = segments[a];
+        const [s2, t2] = segments[b];
+        if ((s1 - s2) * (t1 - t2) < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+}
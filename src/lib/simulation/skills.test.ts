@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_SKILL_FRAMEWORK, parseSkillFrameworkDraft } from './skills';
+
+const categories = [{ id: 'people', name: ' People ' }];
+
+const skill = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  name: id,
+  category: 'people',
+  metrics: ['Collaboration'],
+  ...fields,
+});
+
+describe('parseSkillFrameworkDraft', () => {
+  it('accepts the default framework', () => {
+    const { name, description, categories, skills } = DEFAULT_SKILL_FRAMEWORK;
+    expect(parseSkillFrameworkDraft({ name, description, categories, skills }).errors).toEqual([]);
+  });
+
+  it('trims and de-duplicates what it keeps', () => {
+    const { draft, errors } = parseSkillFrameworkDraft({
+      name: ' Leadership ',
+      categories,
+      skills: [skill('listen'), skill('lead', { dependencies: ['listen', 'listen'], metrics: [' Influence ', 'Influence'] })],
+    });
+    expect(errors).toEqual([]);
+    expect(draft).toEqual({
+      name: 'Leadership',
+      description: '',
+      categories: [{ id: 'people', name: 'People' }],
+      skills: [
+        { id: 'listen', name: 'listen', category: 'people', description: '', dependencies: [], metrics: ['Collaboration'] },
+        { id: 'lead', name: 'lead', category: 'people', description: '', dependencies: ['listen'], metrics: ['Influence'] },
+      ],
+    });
+  });
+
+  it('reports skills in unknown categories and bad ids', () => {
+    const { draft, errors } = parseSkillFrameworkDraft({
+      name: 'Leadership',
+      categories,
+      skills: [skill('Lead'), skill('listen', { category: 'gone' })],
+    });
+    expect(errors).toEqual([
+      "'skills[0].id' must be 1-40 lowercase letters, digits and dashes",
+      "'skills[1].category' must be one of the framework's category ids",
+    ]);
+    expect(draft.skills).toBeUndefined();
+  });
+
+  it('rejects dependency cycles and missing prerequisites', () => {
+    const { errors } = parseSkillFrameworkDraft({
+      name: 'Leadership',
+      categories,
+      skills: [
+        skill('a', { dependencies: ['b'] }),
+        skill('b', { dependencies: ['a'] }),
+        skill('c', { dependencies: ['c', 'gone'] }),
+      ],
+    });
+    expect(errors).toEqual([
+      "Skills 'a', 'b' depend on each other in a loop",
+      "Skill 'c' depends on itself",
+      "Skill 'c' depends on 'gone', which is not in the framework",
+    ]);
+  });
+
+  it('needs categories and skills together in an edit', () => {
+    expect(parseSkillFrameworkDraft({ name: 'Renamed' }, true)).toEqual({ draft: { name: 'Renamed' }, errors: [] });
+    expect(parseSkillFrameworkDraft({ categories }, true).errors).toEqual([
+      "'categories' and 'skills' must be sent together",
+    ]);
+  });
+});
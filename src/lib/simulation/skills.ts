@@ -0,0 +1,381 @@
+import {
+  Simulation,
+  Skill,
+  SkillCategory,
+  SkillContribution,
+  SkillDefinition,
+  SkillFramework,
+  SkillFrameworkDraft,
+  Team,
+  WorkDNA,
+} from '@/lib/types';
+import { checkSkillGraph } from './skill-layout';
+
+// --- WorkDNA skills ---
+// Shared by the /api/teams/:id/workdna and /api/skill-frameworks routes,
+// the WorkDNA page and the framework editor. Skill levels are worked out
+// from the team's analyzed simulations each time they are read, like the
+// team profile, so they follow re-analyses and framework edits.
+
+// Scores a skill can be mapped to besides the rubric metrics. They come
+// from the rest of the analysis rather than from heatmapData.
+export const DERIVED_METRICS = {
+  overall: 'Overall Score', // the 1-100 overall score, on the 1-10 scale
+  stakeholders: 'Stakeholder Handling', // the mean persona score
+  influence: 'Influence', // the member's influence; individual profiles only
+} as const;
+
+// The built-in competencies, mapped onto the default rubric's metrics. It
+// can be copied but not edited.
+export const DEFAULT_SKILL_FRAMEWORK: SkillFramework = {
+  id: 'default',
+  name: 'Decision-Making Competencies',
+  description: 'The standard WorkDNA skills, built from the default rubric\'s metrics.',
+  categories: [
+    { id: 'foundations', name: 'Foundations' },
+    { id: 'judgement', name: 'Judgement' },
+    { id: 'leadership', name: 'Leadership' },
+  ],
+  skills: [
+    {
+      id: 'decisiveness',
+      name: 'Decisive Calls',
+      category: 'foundations',
+      description: 'Reaching a decision with confidence instead of deferring it.',
+      dependencies: [],
+      metrics: ['Decisiveness'],
+    },
+    {
+      id: 'evidence',
+      name: 'Evidence Use',
+      category: 'foundations',
+      description: 'Grounding decisions in the information at hand.',
+      dependencies: [],
+      metrics: ['Data-Driven'],
+    },
+    {
+      id: 'teamwork',
+      name: 'Teamwork',
+      category: 'foundations',
+      description: 'Building on each other\'s ideas so everyone contributes.',
+      dependencies: [],
+      metrics: ['Collaboration'],
+    },
+    {
+      id: 'ethics',
+      name: 'Ethical Reasoning',
+      category: 'judgement',
+      description: 'Weighing who is affected and what is right, not just what works.',
+      dependencies: ['evidence'],
+      metrics: ['Ethical Focus'],
+    },
+    {
+      id: 'foresight',
+      name: 'Strategic Foresight',
+      category: 'judgement',
+      description: 'Looking past the immediate fix to the long-term consequences.',
+      dependencies: ['evidence'],
+      metrics: ['Long-Term Thinking'],
+    },
+    {
+      id: 'execution',
+      name: 'Execution',
+      category: 'leadership',
+      description: 'Turning a decision into a plan and acting on it.',
+      dependencies: ['decisiveness'],
+      metrics: ['Bias for Action', 'Decisiveness'],
+    },
+    {
+      id: 'stakeholders',
+      name: 'Stakeholder Management',
+      category: 'leadership',
+      description: 'Hearing out the people with a stake in the decision and keeping their trust.',
+      dependencies: ['teamwork'],
+      metrics: [DERIVED_METRICS.stakeholders, 'Collaboration'],
+    },
+    {
+      id: 'balanced-judgement',
+      name: 'Balanced Judgement',
+      category: 'judgement',
+      description: 'Weighing evidence, ethics and the long term together.',
+      dependencies: ['ethics', 'foresight'],
+      metrics: ['Data-Driven', 'Ethical Focus', 'Long-Term Thinking'],
+    },
+    {
+      id: 'decision-leadership',
+      name: 'Decision Leadership',
+      category: 'leadership',
+      description: 'Consistently strong decisions across the whole rubric.',
+      dependencies: ['balanced-judgement', 'execution', 'stakeholders'],
+      metrics: [DERIVED_METRICS.overall],
+    },
+  ],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+// A skill's level is the mean of its latest session scores...
+const RECENT_SESSIONS = 5;
+// ...scaled down until it has been shown this many times
+const SESSIONS_FOR_FULL_LEVEL = 3;
+// Skills unlock from this level, once their dependencies have
+export const UNLOCK_LEVEL = 60;
+
+/**
+ * The WorkDNA of a team, or of one member when `member` is given. A member's
+ * profile uses only the sessions naming them as a participant; sessions
+ * played from one device with nobody named count for the team alone.
+ */
+export function buildWorkDna(
+  team: Team,
+  simulations: Simulation[],
+  framework: SkillFramework,
+  member?: string
+): WorkDNA {
+  const analyzed = simulations
+    .filter((s) => s.analysis && (!member || tookPart(s, member)))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const earned = framework.skills.map((skill) => earnSkill(skill, analyzed, member));
+  const skills = unlockSkills(earned);
+
+  return {
+    teamId: team.id,
+    frameworkId: framework.id,
+    ...(member && { member }),
+    name: member ?? team.name,
+    categories: framework.categories,
+    skills,
+    simulationCount: analyzed.length,
+  };
+}
+
+function tookPart(simulation: Simulation, member: string): boolean {
+  const names = [
+    ...simulation.participants.map((p) => p.name),
+    ...(simulation.analysis?.participants ?? []).map((p) => p.name),
+  ].map((name) => name.toLowerCase());
+  return names.includes(member.toLowerCase());
+}
+
+// A score per rubric metric and derived score, on the 1-10 scale.
+function sessionScores(simulation: Simulation, member?: string): Record<string, number> {
+  const analysis = simulation.analysis!;
+  const scores: Record<string, number> = {
+    ...analysis.heatmapData,
+    [DERIVED_METRICS.overall]: Math.round(analysis.overallScore) / 10,
+  };
+  if (analysis.personas && analysis.personas.length > 0) {
+    scores[DERIVED_METRICS.stakeholders] =
+      analysis.personas.reduce((sum, p) => sum + p.score, 0) / analysis.personas.length;
+  }
+  const insight = member && analysis.participants?.find((p) => p.name.toLowerCase() === member.toLowerCase());
+  if (insight && insight.influence !== undefined) scores[DERIVED_METRICS.influence] = insight.influence;
+  return scores;
+}
+
+function earnSkill(skill: SkillDefinition, simulations: Simulation[], member?: string): Skill {
+  const contributions: SkillContribution[] = [];
+  for (const simulation of simulations) {
+    const scores = sessionScores(simulation, member);
+    const matched = skill.metrics.map((metric) => scores[metric]).filter((score) => score !== undefined);
+    // Sessions scored against a rubric without these metrics don't count
+    if (matched.length === 0) continue;
+    contributions.push({
+      simulationId: simulation.id,
+      scenarioTitle: simulation.scenario.title,
+      createdAt: simulation.createdAt,
+      score: Math.round((matched.reduce((sum, s) => sum + s, 0) / matched.length) * 10) / 10,
+    });
+  }
+
+  const recent = contributions.slice(-RECENT_SESSIONS);
+  const mean = recent.length > 0 ? recent.reduce((sum, c) => sum + c.score, 0) / recent.length : 0;
+  const experience = Math.min(1, contributions.length / SESSIONS_FOR_FULL_LEVEL);
+  return { ...skill, level: Math.round(mean * 10 * experience), unlocked: false, contributions };
+}
+
+/**
+ * A skill is unlocked once it reaches UNLOCK_LEVEL and everything it
+ * depends on is unlocked. Dependencies missing from the framework are
+ * ignored; skills caught in a dependency cycle stay locked.
+ */
+function unlockSkills(skills: Skill[]): Skill[] {
+  const byId = new Map(skills.map((s) => [s.id, s]));
+  const unlocked = new Map<string, boolean>();
+  const visiting = new Set<string>();
+
+  const isUnlocked = (skill: Skill): boolean => {
+    const known = unlocked.get(skill.id);
+    if (known !== undefined) return known;
+    if (visiting.has(skill.id)) return false;
+    visiting.add(skill.id);
+    const result =
+      skill.level >= UNLOCK_LEVEL &&
+      skill.dependencies.every((id) => {
+        const dependency = byId.get(id);
+        return !dependency || isUnlocked(dependency);
+      });
+    visiting.delete(skill.id);
+    unlocked.set(skill.id, result);
+    return result;
+  };
+
+  return skills.map((skill) => ({ ...skill, unlocked: isUnlocked(skill) }));
+}
+
+// --- Framework validation ---
+
+const MAX_CATEGORIES = 12;
+const MAX_SKILLS = 60;
+const MAX_SKILL_METRICS = 6;
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+/**
+ * A lowercase, dash-separated id made from a name, numbered if it is taken.
+ * Used by the editor for new categories and skills.
+ */
+export function toFrameworkId(name: string, taken: string[], fallback: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 36) || fallback;
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/**
+ * Picks the editable fields out of a request body (or an imported file) and
+ * checks them. With `partial`, missing fields are allowed, but categories
+ * and skills are only sent together since each skill names its category.
+ */
+export function parseSkillFrameworkDraft(
+  body: Record<string, unknown>,
+  partial = false
+): { draft: Partial<SkillFrameworkDraft>; errors: string[] } {
+  const draft: Partial<SkillFrameworkDraft> = {};
+  const errors: string[] = [];
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || body.name.trim() === '' || body.name.trim().length > 60) {
+      errors.push("'name' must be 1-60 characters");
+    } else {
+      draft.name = body.name.trim();
+    }
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string' || body.description.trim().length > 500) {
+      errors.push("'description' must be text of at most 500 characters");
+    } else {
+      draft.description = body.description.trim();
+    }
+  } else if (!partial) {
+    draft.description = '';
+  }
+
+  if (body.categories !== undefined || body.skills !== undefined || !partial) {
+    if (partial && (body.categories === undefined || body.skills === undefined)) {
+      errors.push("'categories' and 'skills' must be sent together");
+      return { draft, errors };
+    }
+    const { categories, errors: categoryErrors } = parseCategories(body.categories);
+    errors.push(...categoryErrors);
+    if (categories) {
+      const { skills, errors: skillErrors } = parseSkills(body.skills, categories);
+      errors.push(...skillErrors);
+      if (categoryErrors.length === 0 && skillErrors.length === 0) {
+        draft.categories = categories;
+        draft.skills = skills;
+      }
+    }
+  }
+
+  return { draft, errors };
+}
+
+function parseCategories(value: unknown): { categories?: SkillCategory[]; errors: string[] } {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CATEGORIES) {
+    return { errors: [`'categories' must be an array of 1-${MAX_CATEGORIES} categories`] };
+  }
+
+  const errors: string[] = [];
+  const categories: SkillCategory[] = [];
+  value.forEach((item, i) => {
+    const { id, name } = (item ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+      errors.push(`'categories[${i}].id' must be 1-40 lowercase letters, digits and dashes`);
+    } else if (categories.some((c) => c.id === id)) {
+      errors.push(`'categories[${i}].id' is used by another category`);
+    } else if (typeof name !== 'string' || name.trim() === '' || name.trim().length > 40) {
+      errors.push(`'categories[${i}].name' must be 1-40 characters`);
+    } else {
+      categories.push({ id, name: name.trim() });
+    }
+  });
+  return { categories, errors };
+}
+
+function parseSkills(value: unknown, categories: SkillCategory[]): { skills?: SkillDefinition[]; errors: string[] } {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_SKILLS) {
+    return { errors: [`'skills' must be an array of 1-${MAX_SKILLS} skills`] };
+  }
+
+  const errors: string[] = [];
+  const skills: SkillDefinition[] = [];
+  value.forEach((item, i) => {
+    const body = (item ?? {}) as Record<string, unknown>;
+    const problems: string[] = [];
+    const { id, name, category, description = '', dependencies = [], metrics } = body;
+
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) {
+      problems.push(`'skills[${i}].id' must be 1-40 lowercase letters, digits and dashes`);
+    } else if (skills.some((s) => s.id === id)) {
+      problems.push(`'skills[${i}].id' is used by another skill`);
+    }
+    if (typeof name !== 'string' || name.trim() === '' || name.trim().length > 60) {
+      problems.push(`'skills[${i}].name' must be 1-60 characters`);
+    }
+    if (typeof category !== 'string' || !categories.some((c) => c.id === category)) {
+      problems.push(`'skills[${i}].category' must be one of the framework's category ids`);
+    }
+    if (typeof description !== 'string' || description.trim().length > 300) {
+      problems.push(`'skills[${i}].description' must be text of at most 300 characters`);
+    }
+    if (!Array.isArray(dependencies) || dependencies.some((d) => typeof d !== 'string')) {
+      problems.push(`'skills[${i}].dependencies' must be an array of skill ids`);
+    }
+    if (
+      !Array.isArray(metrics) ||
+      metrics.length === 0 ||
+      metrics.length > MAX_SKILL_METRICS ||
+      metrics.some((m) => typeof m !== 'string' || m.trim() === '' || m.trim().length > 40)
+    ) {
+      problems.push(`'skills[${i}].metrics' must be an array of 1-${MAX_SKILL_METRICS} metric names`);
+    }
+
+    errors.push(...problems);
+    if (problems.length > 0) return;
+    skills.push({
+      id: id as string,
+      name: (name as string).trim(),
+      category: category as string,
+      description: (description as string).trim(),
+      dependencies: [...new Set(dependencies as string[])],
+      metrics: [...new Set((metrics as string[]).map((m) => m.trim()))],
+    });
+  });
+  if (errors.length > 0) return { errors };
+
+  // The graph itself: saved frameworks must be proper trees
+  const { cycles, orphans } = checkSkillGraph(skills);
+  for (const cycle of cycles) {
+    errors.push(
+      cycle.length === 1
+        ? `Skill '${cycle[0]}' depends on itself`
+        : `Skills ${cycle.map((id) => `'${id}'`).join(', ')} depend on each other in a loop`
+    );
+  }
+  for (const { skillId, dependencyId } of orphans) {
+    errors.push(`Skill '${skillId}' depends on '${dependencyId}', which is not in the framework`);
+  }
+  return { skills, errors };
+}
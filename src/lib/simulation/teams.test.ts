@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+
+import { LibraryScenario, Rubric, Simulation, Team } from '@/lib/types';
+import { DEFAULT_RUBRIC } from './rubrics';
+import { at, makeSimulation } from './test-fixtures';
+import { buildTeamProfile } from './teams';
+
+const team: Team = {
+  id: 'team-1',
+  name: 'Ward leads',
+  domain: 'Healthcare',
+  members: [],
+  createdAt: at(0),
+  updatedAt: at(0),
+};
+
+// Created `day` days after the fixtures' start, analyzed with these scores
+const analyzed = (
+  id: string,
+  day: number,
+  overallScore: number,
+  heatmapData: Record<string, number>,
+  growthAreas: string[] = [],
+  scenarioId?: string
+): Simulation =>
+  makeSimulation({
+    id,
+    scenarioId,
+    createdAt: at(day * 86_400),
+    status: 'analyzed',
+    analysis: { overallScore, keyStrengths: [], growthAreas, actionableFeedback: '', heatmapData },
+  });
+
+const metric = (name: string, description: string) => ({ name, description, low: 'Low', high: 'High', weight: 1 });
+
+const rubric: Rubric = {
+  ...DEFAULT_RUBRIC,
+  metrics: [metric('Decisiveness', 'Commits in time.'), metric('Risk', 'Weighs the risks before acting.')],
+};
+
+const scenario = (id: string, description: string, fields: Partial<LibraryScenario> = {}): LibraryScenario => ({
+  id,
+  title: id,
+  description,
+  keyDecision: 'What now?',
+  domain: 'Healthcare',
+  difficulty: 'medium',
+  tags: [],
+  archived: false,
+  createdAt: at(0),
+  updatedAt: at(0),
+  ...fields,
+});
+
+describe('buildTeamProfile', () => {
+  it('orders the history and compares the latest score with up to three before it', () => {
+    const simulations = [
+      analyzed('s5', 5, 68, { Decisiveness: 8, Risk: 4 }),
+      analyzed('s1', 1, 60, { Decisiveness: 2 }),
+      analyzed('s3', 3, 64, { Decisiveness: 5 }),
+      makeSimulation({ id: 'unfinished', createdAt: at(6 * 86_400) }),
+      analyzed('s2', 2, 62, { Decisiveness: 4 }),
+      analyzed('s4', 4, 66, { Decisiveness: 6, Risk: 6 }),
+    ];
+    const profile = buildTeamProfile(team, simulations, [], [rubric]);
+
+    expect(profile.history.map((point) => point.simulationId)).toEqual(['s1', 's2', 's3', 's4', 's5']);
+    expect(profile.metrics).toEqual(['Decisiveness', 'Risk']);
+    // s1 is outside the window: (4 + 5 + 6) / 3 = 5
+    expect(profile.trends).toEqual([
+      { metric: 'Decisiveness', latest: 8, previous: 5, trend: 'up' },
+      { metric: 'Risk', latest: 4, previous: 6, trend: 'down' },
+    ]);
+    // Four points up on the overall score is still flat
+    expect(profile.overall).toEqual({ metric: 'Overall', latest: 68, previous: 64, trend: 'flat' });
+  });
+
+  it('is flat after a single session and empty before any', () => {
+    expect(buildTeamProfile(team, [analyzed('s1', 1, 60, { Risk: 4 })], [], []).trends).toEqual([
+      { metric: 'Risk', latest: 4, trend: 'flat' },
+    ]);
+    const empty = buildTeamProfile(team, [], [], []);
+    expect([empty.overall, empty.trends, empty.recommendation]).toEqual([undefined, [], undefined]);
+  });
+
+  it('groups growth areas worded differently and keeps those from two or more sessions', () => {
+    const profile = buildTeamProfile(
+      team,
+      [
+        analyzed('s1', 1, 60, {}, ['Slow to involve frontline staff', 'Budget communication was vague']),
+        analyzed('s2', 2, 62, {}, ['Ignored the legal risk']),
+        analyzed('s3', 3, 64, {}, ['Involve frontline staff sooner', 'Frontline staff were involved late']),
+        analyzed('s4', 4, 66, {}, ['Overlooked the legal risk']),
+      ],
+      [],
+      []
+    );
+    expect(profile.recurringGrowthAreas).toEqual([
+      { text: 'Slow to involve frontline staff', simulationIds: ['s1', 's3'] },
+      { text: 'Ignored the legal risk', simulationIds: ['s2', 's4'] },
+    ]);
+  });
+
+  it('recommends an unplayed scenario for the weakest metric, favouring ones whose rubric scores it', () => {
+    const simulations = [analyzed('s1', 1, 60, { Decisiveness: 7, Risk: 4 }, [], 'played')];
+    const library = [
+      scenario('played', 'Every risk, weighs every risk before acting.'),
+      scenario('mentions', 'A recall carries legal risk.', { rubricId: 'sales' }),
+      // No rubric of its own, so the default one, which scores Risk
+      scenario('scored', 'A ward must close.'),
+    ];
+
+    expect(buildTeamProfile(team, simulations, library, [rubric]).recommendation).toEqual({
+      metric: 'Risk',
+      reason: `Risk is the team's weakest metric (4/10 last session). "scored" puts it to the test.`,
+      scenario: { id: 'scored', title: 'scored' },
+    });
+    expect(buildTeamProfile(team, simulations, library.slice(0, 1), [rubric]).recommendation).toEqual({
+      metric: 'Risk',
+      reason: "Risk is the team's weakest metric (4/10 last session). No library scenario targets it yet.",
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  LibraryScenario,
+  MetricTrend,
+  RecurringGrowthArea,
+  Rubric,
+  ScenarioRecommendation,
+  Simulation,
+  Team,
+  TeamDraft,
+  TeamMember,
+  TeamProfile,
+  TeamProfilePoint,
+} from '@/lib/types';
+
+// --- Teams ---
+// Shared by the /api/teams routes and the team pages. A team's profile is
+// worked out from its analyzed simulations each time it is read, so it
+// follows re-analyses without being stored.
+
+const MAX_MEMBERS = 20;
+// Earlier sessions averaged for a trend
+const TREND_WINDOW = 3;
+// Smaller moves than these read as flat
+const METRIC_TREND_THRESHOLD = 0.5; // on the 1-10 metric scale
+const OVERALL_TREND_THRESHOLD = 5; // on the 100-point overall score
+// Share of significant words two growth areas need in common to be the same one
+const SIMILARITY_THRESHOLD = 0.4;
+
+/**
+ * Picks the editable fields out of a request body and checks them. With
+ * `partial`, missing fields are allowed (an edit only sends what changed).
+ */
+export function parseTeamDraft(
+  body: Record<string, unknown>,
+  partial = false
+): { draft: Partial<TeamDraft>; errors: string[] } {
+  const draft: Partial<TeamDraft> = {};
+  const errors: string[] = [];
+
+  for (const field of ['name', 'domain'] as const) {
+    const value = body[field];
+    if (value === undefined && partial) continue;
+    if (typeof value !== 'string' || value.trim() === '' || value.trim().length > 60) {
+      errors.push(`'${field}' must be 1-60 characters`);
+    } else {
+      draft[field] = value.trim();
+    }
+  }
+
+  if (body.members !== undefined || !partial) {
+    const { members, errors: problems } = parseMembers(body.members ?? []);
+    errors.push(...problems);
+    if (problems.length === 0) draft.members = members;
+  }
+
+  return { draft, errors };
+}
+
+function parseMembers(value: unknown): { members?: TeamMember[]; errors: string[] } {
+  if (!Array.isArray(value) || value.length > MAX_MEMBERS) {
+    return { errors: [`'members' must be an array of at most ${MAX_MEMBERS} members`] };
+  }
+
+  const errors: string[] = [];
+  const members: TeamMember[] = [];
+  value.forEach((item, i) => {
+    const { name, role } = (item ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || name.trim() === '' || name.trim().length > 60) {
+      errors.push(`'members[${i}].name' must be 1-60 characters`);
+      return;
+    }
+    if (role !== undefined && (typeof role !== 'string' || role.trim().length > 60)) {
+      errors.push(`'members[${i}].role' must be text of at most 60 characters`);
+      return;
+    }
+    // Names label a member's turns, so they must be unique
+    if (members.some((m) => m.name.toLowerCase() === name.trim().toLowerCase())) {
+      errors.push(`'members[${i}].name' is used by another member`);
+      return;
+    }
+    members.push({ name: name.trim(), ...(typeof role === 'string' && role.trim() && { role: role.trim() }) });
+  });
+
+  return { members, errors };
+}
+
+// --- Team profile ---
+
+/**
+ * The team's growth across its analyzed simulations: the scores over time,
+ * the trend of each metric, the growth areas that keep coming back and a
+ * scenario that targets the weakest metric.
+ */
+export function buildTeamProfile(
+  team: Team,
+  simulations: Simulation[],
+  library: LibraryScenario[],
+  rubrics: Rubric[]
+): TeamProfile {
+  const analyzed = simulations
+    .filter((s) => s.analysis)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const history: TeamProfilePoint[] = analyzed.map((s) => ({
+    simulationId: s.id,
+    scenarioTitle: s.scenario.title,
+    scenarioId: s.scenarioId,
+    createdAt: s.createdAt,
+    overallScore: s.analysis!.overallScore,
+    heatmapData: s.analysis!.heatmapData,
+  }));
+  const metrics = [...new Set(history.flatMap((point) => Object.keys(point.heatmapData)))];
+
+  const trends = metrics
+    .map((metric) =>
+      trendOf(
+        metric,
+        history.map((point) => point.heatmapData[metric]),
+        METRIC_TREND_THRESHOLD
+      )
+    )
+    .filter((trend): trend is MetricTrend => trend !== null);
+
+  return {
+    team,
+    history,
+    metrics,
+    overall: trendOf('Overall', history.map((point) => point.overallScore), OVERALL_TREND_THRESHOLD) ?? undefined,
+    trends,
+    recurringGrowthAreas: findRecurringGrowthAreas(analyzed),
+    recommendation: recommendScenario(trends, history, library, rubrics),
+  };
+}
+
+// Sessions that didn't score the metric (another rubric) are skipped.
+function trendOf(metric: string, scores: (number | undefined)[], threshold: number): MetricTrend | null {
+  const scored = scores.filter((score): score is number => typeof score === 'number');
+  if (scored.length === 0) return null;
+
+  const latest = scored[scored.length - 1];
+  const earlier = scored.slice(-1 - TREND_WINDOW, -1);
+  if (earlier.length === 0) return { metric, latest, trend: 'flat' };
+
+  const previous = Math.round((earlier.reduce((sum, s) => sum + s, 0) / earlier.length) * 10) / 10;
+  const change = latest - previous;
+  return {
+    metric,
+    latest,
+    previous,
+    trend: change >= threshold ? 'up' : change <= -threshold ? 'down' : 'flat',
+  };
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'their', 'they', 'them', 'team', 'more', 'from',
+  'into', 'when', 'than', 'before', 'about', 'should', 'could', 'would', 'were', 'have', 'been',
+]);
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9-]+/)
+      .filter((word) => word.length > 3 && !STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * Growth areas are free text, so ones sharing most of their significant
+ * words are counted as the same. Only those from two or more sessions are
+ * kept, most frequent first.
+ */
+function findRecurringGrowthAreas(simulations: Simulation[]): RecurringGrowthArea[] {
+  const groups: (RecurringGrowthArea & { words: Set<string> })[] = [];
+  for (const simulation of simulations) {
+    for (const text of simulation.analysis!.growthAreas) {
+      const words = significantWords(text);
+      const group = groups.find((g) => similarity(g.words, words) >= SIMILARITY_THRESHOLD);
+      if (!group) {
+        groups.push({ text, simulationIds: [simulation.id], words });
+      } else if (!group.simulationIds.includes(simulation.id)) {
+        group.simulationIds.push(simulation.id);
+      }
+    }
+  }
+  return groups
+    .filter((g) => g.simulationIds.length > 1)
+    .sort((a, b) => b.simulationIds.length - a.simulationIds.length)
+    .map(({ text, simulationIds }) => ({ text, simulationIds }));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter((word) => b.has(word)).length;
+  return shared / Math.min(a.size, b.size);
+}
+
+/**
+ * Targets the metric with the lowest latest score. Library scenarios the
+ * team hasn't played are ranked by how often the metric's words (its name
+ * and rubric description) appear in them, with a head start for those
+ * whose rubric (the default one if they have none) scores it.
+ */
+function recommendScenario(
+  trends: MetricTrend[],
+  history: TeamProfilePoint[],
+  library: LibraryScenario[],
+  rubrics: Rubric[]
+): ScenarioRecommendation | undefined {
+  if (trends.length === 0) return undefined;
+  const weakest = trends.reduce((low, t) => (t.latest < low.latest ? t : low));
+
+  const description = rubrics.flatMap((r) => r.metrics).find((m) => m.name === weakest.metric)?.description ?? '';
+  const keywords = [...significantWords(`${weakest.metric} ${description}`)].map((word) => word.slice(0, 6));
+  const played = new Set(history.map((point) => point.scenarioId).filter(Boolean));
+
+  const ranked = library
+    .filter((scenario) => !played.has(scenario.id))
+    .map((scenario) => {
+      const text = [scenario.title, scenario.description, scenario.keyDecision, ...scenario.tags]
+        .join(' ')
+        .toLowerCase();
+      const rubric = rubrics.find((r) => r.id === (scenario.rubricId ?? 'default'));
+      const scoresMetric = rubric?.metrics.some((m) => m.name === weakest.metric) ?? false;
+      return {
+        scenario,
+        score: keywords.filter((word) => text.includes(word)).length + (scoresMetric ? 2 : 0),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+  const best = ranked[0]?.score > 0 ? ranked[0].scenario : undefined;
+
+  const reason = `${weakest.metric} is the team's weakest metric (${weakest.latest}/10 last session${
+    weakest.trend === 'down' ? ', and falling' : ''
+  }).`;
+  return {
+    metric: weakest.metric,
+    reason: best ? `${reason} "${best.title}" puts it to the test.` : `${reason} No library scenario targets it yet.`,
+    ...(best && { scenario: { id: best.id, title: best.title } }),
+  };
+}
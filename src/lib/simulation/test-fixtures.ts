@@ -0,0 +1,51 @@
+import { Scenario, ScenarioGraph, Simulation, TranscriptEntry } from '@/lib/types';
+
+// --- Test fixtures ---
+// Shared by the simulation engine's unit tests; not used by the app.
+
+export const CREATED_AT = '2026-01-01T10:00:00.000Z';
+
+/** The ISO time `seconds` after the fixtures' simulations were created. */
+export const at = (seconds: number) => new Date(Date.parse(CREATED_AT) + seconds * 1000).toISOString();
+
+// A choice, a free-text answer on one branch, and a shared ending.
+export const breachGraph: ScenarioGraph = {
+  start: 'breach',
+  nodes: [
+    {
+      id: 'breach',
+      kind: 'choice',
+      narrative: 'Customer data has leaked.',
+      options: [
+        { id: 'disclose', label: 'Disclose now', next: 'press' },
+        { id: 'wait', label: 'Investigate first', next: 'end' },
+      ],
+    },
+    { id: 'press', kind: 'free-text', narrative: 'The press calls.', next: 'end' },
+    { id: 'end', kind: 'terminal', narrative: 'It is over.' },
+  ],
+};
+
+/** A transcript entry written when the simulation was created; its content is its role unless given. */
+export function makeEntry(role: TranscriptEntry['role'], fields: Partial<TranscriptEntry> = {}): TranscriptEntry {
+  return { role, content: role, timestamp: CREATED_AT, ...fields };
+}
+
+/** A pending, improvised simulation with an empty transcript, changed by `fields`. */
+export function makeSimulation({
+  scenario,
+  ...fields
+}: Omit<Partial<Simulation>, 'scenario'> & { scenario?: Partial<Scenario> } = {}): Simulation {
+  return {
+    id: 'sim-1',
+    teamSize: 3,
+    domain: 'Healthcare',
+    scenario: { title: 'Ward closure', description: 'A ward must close.', keyDecision: 'Which one?', ...scenario },
+    transcript: [],
+    status: 'pending',
+    statusHistory: [],
+    participants: [],
+    createdAt: CREATED_AT,
+    ...fields,
+  };
+}
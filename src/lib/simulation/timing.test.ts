@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import { Scenario, TranscriptEntry } from '@/lib/types';
+import { at, CREATED_AT, makeEntry, makeSimulation } from './test-fixtures';
+import { describeTimings, formatDuration, getDeadlines, parseScenarioTiming, responseLatency } from './timing';
+
+const START = Date.parse(CREATED_AT);
+
+const entry = (role: TranscriptEntry['role'], seconds: number, fields: Partial<TranscriptEntry> = {}) =>
+  makeEntry(role, { timestamp: at(seconds), ...fields });
+
+const simulation = (scenario: Partial<Scenario>, transcript: TranscriptEntry[]) =>
+  makeSimulation({ scenario, transcript });
+
+describe('parseScenarioTiming', () => {
+  it('keeps the clocks and defaults the timeout action', () => {
+    expect(parseScenarioTiming({ turnSeconds: 60, sessionSeconds: 600 })).toEqual({
+      timing: { turnSeconds: 60, sessionSeconds: 600, onTimeout: 'escalate' },
+      errors: [],
+    });
+  });
+
+  it('drops timing with neither clock set', () => {
+    expect(parseScenarioTiming({ onTimeout: 'no-decision' })).toEqual({ errors: [] });
+    expect(parseScenarioTiming({ turnSeconds: null })).toEqual({ errors: [] });
+    expect(parseScenarioTiming(null)).toEqual({ errors: [] });
+  });
+
+  it('reports every invalid field', () => {
+    expect(parseScenarioTiming({ turnSeconds: 5, sessionSeconds: 1.5, onTimeout: 'panic' }).errors).toEqual([
+      "'timing.turnSeconds' must be a whole number from 10 to 86400",
+      "'timing.sessionSeconds' must be a whole number from 10 to 86400",
+      "'timing.onTimeout' must be one of: escalate, no-decision",
+    ]);
+    expect(parseScenarioTiming([]).errors).toEqual(["'timing' must be an object"]);
+  });
+});
+
+describe('getDeadlines', () => {
+  it('runs the turn clock from the last host entry and the session clock from the start', () => {
+    const sim = simulation({ timing: { turnSeconds: 60, sessionSeconds: 600, onTimeout: 'escalate' } }, [
+      entry('host', 0),
+      entry('team', 30),
+      entry('host', 40),
+    ]);
+    expect(getDeadlines(sim)).toEqual({ turn: START + 100_000, session: START + 600_000 });
+  });
+
+  it('has no deadlines without timing', () => {
+    expect(getDeadlines(simulation({}, [entry('host', 0)]))).toEqual({});
+  });
+});
+
+describe('responseLatency', () => {
+  it('measures from the last host entry', () => {
+    expect(responseLatency([entry('host', 0), entry('team', 5)], START + 12_000)).toBe(12_000);
+    expect(responseLatency([], START)).toBeUndefined();
+  });
+});
+
+describe('formatDuration', () => {
+  it('rounds up to whole seconds', () => {
+    expect(formatDuration(95_000)).toBe('1:35');
+    expect(formatDuration(500)).toBe('0:01');
+    expect(formatDuration(-1)).toBe('0:00');
+  });
+});
+
+describe('describeTimings', () => {
+  it('lists the limits and what happened on each prompt', () => {
+    const sim = simulation({ timing: { turnSeconds: 60, sessionSeconds: 600, onTimeout: 'escalate' } }, [
+      entry('host', 0),
+      entry('team', 20, { latencyMs: 20_000, speaker: 'Ann' }),
+      entry('host', 25),
+      entry('host', 85, { timedOut: true }),
+      entry('team', 90, { timedOut: true }),
+      entry('host', 600, { timedOut: true }),
+    ]);
+    expect(describeTimings(sim).split('\n')).toEqual([
+      'Turn limit: 1:00',
+      'Session limit: 10:00',
+      'Prompt 1 (Ann): responded after 0:20',
+      'Prompt 2: time ran out; the host escalated',
+      'Prompt 3: time ran out with no decision',
+      'The session clock ran out',
+    ]);
+  });
+
+  it('is empty for an untimed session', () => {
+    expect(describeTimings(simulation({}, [entry('host', 0), entry('team', 5)]))).toBe('');
+  });
+});
@@ -0,0 +1,126 @@
+import { ScenarioTiming, Simulation, TimeoutAction, TranscriptEntry } from '@/lib/types';
+import { getCurrentNode } from './graph';
+
+// --- Timers ---
+// Shared by the session engine (enforcement), the interview page
+// (countdown) and the analysis prompt (latencies).
+
+export const TIMEOUT_ACTIONS: Record<TimeoutAction, string> = {
+  escalate: 'Host escalates',
+  'no-decision': 'Record "no decision"',
+};
+
+// How long after a deadline the server still accepts a reply, for one sent
+// just before time ran out. Clocks are acted on only once it has passed.
+export const CLOCK_GRACE_MS = 2000;
+
+const MIN_SECONDS = 10;
+const MAX_SECONDS = 24 * 60 * 60;
+
+/**
+ * Checks a scenario's `timing`. Returns every problem found, and no timing
+ * when neither clock is set.
+ */
+export function parseScenarioTiming(value: unknown): { timing?: ScenarioTiming; errors: string[] } {
+  if (value === undefined || value === null) return { errors: [] };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { errors: ["'timing' must be an object"] };
+  }
+
+  const errors: string[] = [];
+  const body = value as Record<string, unknown>;
+  const timing: ScenarioTiming = { onTimeout: 'escalate' };
+
+  for (const field of ['turnSeconds', 'sessionSeconds'] as const) {
+    const seconds = body[field];
+    if (seconds === undefined || seconds === null) continue;
+    if (typeof seconds !== 'number' || !Number.isInteger(seconds) || seconds < MIN_SECONDS || seconds > MAX_SECONDS) {
+      errors.push(`'timing.${field}' must be a whole number from ${MIN_SECONDS} to ${MAX_SECONDS}`);
+    } else {
+      timing[field] = seconds;
+    }
+  }
+
+  if (body.onTimeout !== undefined) {
+    if (typeof body.onTimeout !== 'string' || !Object.keys(TIMEOUT_ACTIONS).includes(body.onTimeout)) {
+      errors.push(`'timing.onTimeout' must be one of: ${Object.keys(TIMEOUT_ACTIONS).join(', ')}`);
+    } else {
+      timing.onTimeout = body.onTimeout as TimeoutAction;
+    }
+  }
+
+  if (timing.turnSeconds === undefined && timing.sessionSeconds === undefined) return { errors };
+  return { timing, errors };
+}
+
+export interface Deadlines {
+  turn?: number; // epoch ms
+  session?: number;
+}
+
+/**
+ * When each clock runs out, for a session that is still running. There is
+ * no turn clock once an authored scenario reaches its ending.
+ */
+export function getDeadlines(simulation: Simulation): Deadlines {
+  const timing = simulation.scenario.timing;
+  if (!timing) return {};
+
+  const lastHost = lastHostEntry(simulation.transcript);
+  const ended = getCurrentNode(simulation)?.kind === 'terminal';
+  return {
+    turn: timing.turnSeconds && lastHost && !ended
+      ? Date.parse(lastHost.timestamp) + timing.turnSeconds * 1000
+      : undefined,
+    session: timing.sessionSeconds
+      ? Date.parse(simulation.createdAt) + timing.sessionSeconds * 1000
+      : undefined,
+  };
+}
+
+/** Time since the host's last prompt, for a team entry written `at`. */
+export function responseLatency(transcript: TranscriptEntry[], at = Date.now()): number | undefined {
+  const lastHost = lastHostEntry(transcript);
+  return lastHost ? Math.max(0, at - Date.parse(lastHost.timestamp)) : undefined;
+}
+
+function lastHostEntry(transcript: TranscriptEntry[]): TranscriptEntry | undefined {
+  return [...transcript].reverse().find((entry) => entry.role === 'host');
+}
+
+/** e.g. 95000 -> "1:35" */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The limits and every response time, one line each, for the analyst.
+ * Empty when the scenario had no clock and nothing was timed.
+ */
+export function describeTimings(simulation: Simulation): string {
+  const timing = simulation.scenario.timing;
+  const lines: string[] = [];
+  if (timing?.turnSeconds) lines.push(`Turn limit: ${formatDuration(timing.turnSeconds * 1000)}`);
+  if (timing?.sessionSeconds) lines.push(`Session limit: ${formatDuration(timing.sessionSeconds * 1000)}`);
+
+  const sessionDeadline = getDeadlines(simulation).session;
+  let turn = 0;
+  for (const entry of simulation.transcript) {
+    if (entry.role === 'host') {
+      turn += 1;
+      if (!entry.timedOut) continue;
+      // The entry that closed the session, or an escalation
+      const closedSession =
+        sessionDeadline !== undefined && Date.parse(entry.timestamp) + CLOCK_GRACE_MS >= sessionDeadline;
+      lines.push(closedSession ? 'The session clock ran out' : `Prompt ${turn - 1}: time ran out; the host escalated`);
+    } else if (entry.timedOut) {
+      lines.push(`Prompt ${turn}: time ran out with no decision`);
+    } else if (entry.latencyMs !== undefined) {
+      const speaker = entry.speaker ? ` (${entry.speaker})` : '';
+      lines.push(`Prompt ${turn}${speaker}: responded after ${formatDuration(entry.latencyMs)}`);
+    }
+  }
+
+  return timing || lines.length > 0 ? lines.join('\n') : '';
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import { AnalysisVersion } from '@/lib/types';
+import { diffAnalyses } from './versions';
+
+const version = (number: number, fields: Partial<AnalysisVersion> = {}): AnalysisVersion => ({
+  id: `v${number}`,
+  version: number,
+  model: 'gemini-2.5-flash',
+  promptVersion: '3',
+  rubricId: 'default',
+  temperature: 0.2,
+  biases: [],
+  createdAt: '2026-01-01T10:00:00.000Z',
+  analysis: {
+    overallScore: 70,
+    keyStrengths: ['Clear plan'],
+    growthAreas: ['Slow start'],
+    actionableFeedback: 'Decide sooner.',
+    heatmapData: { Decisiveness: 7, Empathy: 5 },
+  },
+  ...fields,
+});
+
+const evidence = [{ entryIndex: 1, quote: 'Ward B' }];
+
+describe('diffAnalyses', () => {
+  it('finds nothing changed between identical runs', () => {
+    expect(diffAnalyses(version(1), version(2))).toEqual({
+      settings: [],
+      overallScore: { name: 'Overall Score', before: 70, after: 70 },
+      metrics: [
+        { name: 'Decisiveness', before: 7, after: 7 },
+        { name: 'Empathy', before: 5, after: 5 },
+      ],
+      keyStrengths: { added: [], removed: [] },
+      growthAreas: { added: [], removed: [] },
+      biases: [],
+      feedbackChanged: false,
+    });
+  });
+
+  it('lists the settings, scores, findings and biases that changed', () => {
+    const before = version(1, {
+      biases: [
+        { type: 'anchoring', confidence: 40, explanation: '', evidence },
+        { type: 'groupthink', confidence: 70, explanation: '', evidence },
+      ],
+    });
+    const after = version(2, {
+      rubricId: 'crisis',
+      temperature: 0.5,
+      analysis: {
+        overallScore: 62,
+        keyStrengths: ['clear  PLAN', 'Calm tone'],
+        growthAreas: [],
+        actionableFeedback: 'Consult the staff.',
+        heatmapData: { Composure: 8, Decisiveness: 6 },
+      },
+      biases: [
+        { type: 'authority', confidence: 80, explanation: '', evidence },
+        { type: 'groupthink', confidence: 50, explanation: '', evidence },
+      ],
+    });
+
+    const diff = diffAnalyses(before, after);
+    expect(diff.settings).toEqual([
+      { field: 'rubricId', before: 'default', after: 'crisis' },
+      { field: 'temperature', before: '0.2', after: '0.5' },
+    ]);
+    expect(diff.overallScore).toEqual({ name: 'Overall Score', before: 70, after: 62 });
+    // The newer rubric's metrics first, then the ones it dropped
+    expect(diff.metrics).toEqual([
+      { name: 'Composure', before: undefined, after: 8 },
+      { name: 'Decisiveness', before: 7, after: 6 },
+      { name: 'Empathy', before: 5, after: undefined },
+    ]);
+    expect(diff.keyStrengths).toEqual({ added: ['Calm tone'], removed: [] });
+    expect(diff.growthAreas).toEqual({ added: [], removed: ['Slow start'] });
+    expect(diff.biases).toEqual([
+      { type: 'authority', before: undefined, after: 80 },
+      { type: 'groupthink', before: 70, after: 50 },
+      { type: 'anchoring', before: 40, after: undefined },
+    ]);
+    expect(diff.feedbackChanged).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { AnalysisRunInfo, AnalysisVersion, BiasType } from '@/lib/types';
+
+// --- Analysis versions ---
+// Compares two runs of the analyst for the diff on the report page.
+
+export const RUN_INFO_LABELS: Record<keyof AnalysisRunInfo, string> = {
+  model: 'Model',
+  promptVersion: 'Prompt version',
+  rubricId: 'Rubric',
+  temperature: 'Temperature',
+};
+
+export interface ScoreChange {
+  name: string;
+  before?: number; // absent when the older version didn't score it
+  after?: number;
+}
+
+export interface BiasChange {
+  type: BiasType;
+  before?: number; // confidence; absent when not detected
+  after?: number;
+}
+
+export interface AnalysisDiff {
+  // Only the settings that differ
+  settings: { field: keyof AnalysisRunInfo; before: string; after: string }[];
+  overallScore: ScoreChange;
+  metrics: ScoreChange[];
+  keyStrengths: { added: string[]; removed: string[] };
+  growthAreas: { added: string[]; removed: string[] };
+  biases: BiasChange[];
+  feedbackChanged: boolean;
+}
+
+/** `before` is the older version, `after` the newer. */
+export function diffAnalyses(before: AnalysisVersion, after: AnalysisVersion): AnalysisDiff {
+  const settings = (Object.keys(RUN_INFO_LABELS) as (keyof AnalysisRunInfo)[])
+    .filter((field) => before[field] !== after[field])
+    .map((field) => ({ field, before: String(before[field]), after: String(after[field]) }));
+
+  // Metrics in the newer version's order, then any the newer rubric dropped
+  const names = [
+    ...Object.keys(after.analysis.heatmapData),
+    ...Object.keys(before.analysis.heatmapData).filter((name) => !(name in after.analysis.heatmapData)),
+  ];
+  const metrics = names.map((name) => ({
+    name,
+    before: before.analysis.heatmapData[name],
+    after: after.analysis.heatmapData[name],
+  }));
+
+  const types = [...new Set([...after.biases, ...before.biases].map((bias) => bias.type))];
+  const biases = types.map((type) => ({
+    type,
+    before: before.biases.find((bias) => bias.type === type)?.confidence,
+    after: after.biases.find((bias) => bias.type === type)?.confidence,
+  }));
+
+  return {
+    settings,
+    overallScore: {
+      name: 'Overall Score',
+      before: before.analysis.overallScore,
+      after: after.analysis.overallScore,
+    },
+    metrics,
+    keyStrengths: diffLists(before.analysis.keyStrengths, after.analysis.keyStrengths),
+    growthAreas: diffLists(before.analysis.growthAreas, after.analysis.growthAreas),
+    biases,
+    feedbackChanged: before.analysis.actionableFeedback !== after.analysis.actionableFeedback,
+  };
+}
+
+// Findings are free text, so only exact repeats (ignoring case and spacing)
+// count as unchanged.
+function diffLists(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const key = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  return {
+    added: after.filter((text) => !beforeKeys.has(key(text))),
+    removed: before.filter((text) => !afterKeys.has(key(text))),
+  };
+}
@@ -0,0 +1,82 @@
+import type { ResponseSchema } from '@/lib/llm';
+import { WorldState } from '@/lib/types';
+
+// --- World model ---
+// The schema the host fills in, and how the state is shown to the models.
+// Kept free of server imports so the interview page can use it too.
+
+const percent = (description: string): ResponseSchema => ({
+  type: 'NUMBER',
+  description: `${description} 0-100.`,
+});
+
+export const worldSchema: ResponseSchema = {
+  type: 'OBJECT',
+  description: 'The state of the simulated world after the latest turn.',
+  properties: {
+    budget: percent('Share of the starting budget still available, where 100 = untouched.'),
+    reputation: percent('Public and market reputation, where 50 = neutral.'),
+    stakeholderTrust: {
+      type: 'ARRAY',
+      description: 'How much each stakeholder affected by the scenario trusts the team.',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          stakeholder: { type: 'STRING' },
+          trust: percent('Trust in the team, where 50 = neutral.'),
+        },
+        required: ['stakeholder', 'trust'],
+      },
+    },
+    openRisks: {
+      type: 'ARRAY',
+      items: { type: 'STRING' },
+      description: 'Unresolved risks, one short phrase each.',
+    },
+    decisions: {
+      type: 'ARRAY',
+      items: { type: 'STRING' },
+      description: 'Every decision the team has committed to so far, oldest first, one short line each.',
+    },
+  },
+  required: ['budget', 'reputation', 'stakeholderTrust', 'openRisks', 'decisions'],
+};
+
+const clampPercent = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : 50;
+
+const strings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+// One entry per stakeholder; a later entry wins.
+function uniqueStakeholders(entries: WorldState['stakeholderTrust']): WorldState['stakeholderTrust'] {
+  const byName = new Map(entries.map((entry) => [entry.stakeholder.toLowerCase(), entry]));
+  return [...byName.values()];
+}
+
+/** Keeps model output in range, whatever it returned. */
+export function normalizeWorld(world: Partial<WorldState>): WorldState {
+  return {
+    budget: clampPercent(world.budget),
+    reputation: clampPercent(world.reputation),
+    stakeholderTrust: uniqueStakeholders(
+      (Array.isArray(world.stakeholderTrust) ? world.stakeholderTrust : [])
+        .filter((entry) => entry && typeof entry.stakeholder === 'string' && entry.stakeholder.trim() !== '')
+        .map((entry) => ({ stakeholder: entry.stakeholder.trim(), trust: clampPercent(entry.trust) }))
+    ),
+    openRisks: strings(world.openRisks),
+    decisions: strings(world.decisions),
+  };
+}
+
+/** A plain-text block for prompts. */
+export function describeWorld(world: WorldState): string {
+  const lines = [
+    `Budget left: ${world.budget}%`,
+    `Reputation: ${world.reputation}/100`,
+    ...world.stakeholderTrust.map(({ stakeholder, trust }) => `Trust of ${stakeholder}: ${trust}/100`),
+    `Open risks: ${world.openRisks.length > 0 ? world.openRisks.join('; ') : 'none'}`,
+    `Decisions so far: ${world.decisions.length > 0 ? world.decisions.join('; ') : 'none'}`,
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,510 @@
+import {
+  DocumentData,
+  DocumentSnapshot,
+  FieldValue,
+  Firestore,
+  Timestamp,
+} from 'firebase-admin/firestore';
+
+import {
+  AnalysisVersion,
+  DebriefAnswer,
+  LibraryScenario,
+  NewAnalysisVersion,
+  NewSimulation,
+  Participant,
+  Rubric,
+  RubricDraft,
+  ScenarioDraft,
+  Simulation,
+  SimulationEnding,
+  SimulationStatus,
+  SkillFramework,
+  SkillFrameworkDraft,
+  Team,
+  TeamDraft,
+  TranscriptEntry,
+} from '@/lib/types';
+import {
+  AppendOptions,
+  ConflictError,
+  NotFoundError,
+  requireJoinable,
+  requireNoReplySince,
+  RubricRepository,
+  ScenarioListOptions,
+  ScenarioRepository,
+  SimulationRepository,
+  SkillFrameworkRepository,
+  TeamRepository,
+} from './types';
+
+/**
+ * Loads the Admin SDK on first use. `firebase-admin.ts` throws when its
+ * credentials are missing, so the local backend must never import it.
+ */
+export async function getAdminDb(): Promise<Firestore> {
+  const { db } = await import('@/lib/firebase-admin');
+  return db;
+}
+
+/** Firestore `Timestamp` (or anything date-like) to an ISO string. */
+export function toIso(value: unknown): string {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return new Date(0).toISOString();
+}
+
+export function toTimestamp(iso: string): Timestamp {
+  return Timestamp.fromDate(new Date(iso));
+}
+
+/** Firestore rejects `undefined` field values, so drop them before writing. */
+export function withoutUndefined<T extends object>(value: T): DocumentData {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined));
+}
+
+/** For updates: fields set to `undefined` are deleted from the document. */
+function withDeletes<T extends object>(changes: T): DocumentData {
+  return Object.fromEntries(
+    Object.entries(changes).map(([key, value]) => [key, value === undefined ? FieldValue.delete() : value])
+  );
+}
+
+function toTranscriptEntry(data: DocumentData): TranscriptEntry {
+  return { ...data, timestamp: toIso(data.timestamp) } as TranscriptEntry;
+}
+
+function fromTranscriptEntry(entry: TranscriptEntry): DocumentData {
+  return withoutUndefined({ ...entry, timestamp: toTimestamp(entry.timestamp) });
+}
+
+function toSimulation(snap: DocumentSnapshot): Simulation {
+  const data = snap.data() ?? {};
+  return {
+    id: snap.id,
+    teamSize: data.teamSize,
+    domain: data.domain,
+    scenario: data.scenario,
+    scenarioId: data.scenarioId,
+    teamId: data.teamId,
+    status: data.status,
+    joinCode: data.joinCode,
+    participants: (data.participants ?? []).map((p: DocumentData) => ({ ...p, joinedAt: toIso(p.joinedAt) })),
+    // Documents written before status tracking have no history.
+    statusHistory: (data.statusHistory ?? []).map((change: DocumentData) => ({
+      status: change.status,
+      at: toIso(change.at),
+    })),
+    transcript: (data.transcript ?? []).map(toTranscriptEntry),
+    world: data.world,
+    ...(data.ending && { ending: { ...data.ending, at: toIso(data.ending.at) } }),
+    debrief: data.debrief,
+    biases: data.biases,
+    analysis: data.analysis,
+    analysisVersion: data.analysisVersion,
+    createdAt: toIso(data.createdAt),
+  };
+}
+
+function toAnalysisVersion(snap: DocumentSnapshot): AnalysisVersion {
+  const data = snap.data() ?? {};
+  return { ...data, id: snap.id, createdAt: toIso(data.createdAt) } as AnalysisVersion;
+}
+
+function statusChange(status: SimulationStatus): DocumentData {
+  return {
+    status,
+    statusHistory: FieldValue.arrayUnion({ status, at: Timestamp.now() }),
+  };
+}
+
+/**
+ * The hosted backend. Documents keep the original shape written by the
+ * client SDK (Firestore `Timestamp`s), so existing data reads unchanged.
+ */
+export class FirestoreSimulationRepository implements SimulationRepository {
+  private async collection() {
+    return (await getAdminDb()).collection('simulations');
+  }
+
+  async create(input: NewSimulation, transcript: TranscriptEntry[] = []): Promise<Simulation> {
+    const createdAt = Timestamp.now();
+    const ref = await (await this.collection()).add(withoutUndefined({
+      teamSize: input.teamSize,
+      domain: input.domain,
+      scenario: input.scenario,
+      scenarioId: input.scenarioId,
+      teamId: input.teamId,
+      joinCode: input.joinCode,
+      world: input.world,
+      participants: [],
+      status: 'pending',
+      statusHistory: [{ status: 'pending', at: createdAt }],
+      createdAt,
+      transcript: transcript.map(fromTranscriptEntry),
+    }));
+    return {
+      id: ref.id,
+      ...input,
+      participants: [],
+      status: 'pending',
+      statusHistory: [{ status: 'pending', at: toIso(createdAt) }],
+      transcript,
+      createdAt: toIso(createdAt),
+    };
+  }
+
+  async appendTranscriptEntry(id: string, entry: TranscriptEntry): Promise<Simulation> {
+    return this.appendTranscriptEntries(id, [entry]);
+  }
+
+  async appendTranscriptEntries(
+    id: string,
+    entries: TranscriptEntry[],
+    { since, world }: AppendOptions = {}
+  ): Promise<Simulation> {
+    const db = await getAdminDb();
+    const ref = (await this.collection()).doc(id);
+
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw new NotFoundError('simulations', id);
+      const status = snap.data()?.status;
+      if (status !== 'pending') throw new ConflictError(`Simulation is already ${status}`);
+      const current = toSimulation(snap);
+      requireNoReplySince(current.transcript, since);
+      tx.update(ref, {
+        transcript: [...(snap.data()?.transcript ?? []), ...entries.map(fromTranscriptEntry)],
+        ...(world && { world }),
+      });
+      return { ...current, transcript: [...current.transcript, ...entries], ...(world && { world }) };
+    });
+  }
+
+  // Tokens live in the `memberTokens` map (token to participant id), which
+  // toSimulation leaves out.
+  async addParticipant(id: string, participant: Participant, token?: string): Promise<Simulation> {
+    const db = await getAdminDb();
+    const ref = (await this.collection()).doc(id);
+
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw new NotFoundError('simulations', id);
+      const current = toSimulation(snap);
+      requireJoinable(current, participant.name);
+      tx.update(ref, {
+        participants: FieldValue.arrayUnion({ ...participant, joinedAt: toTimestamp(participant.joinedAt) }),
+        ...(token && { [`memberTokens.${token}`]: participant.id }),
+      });
+      return { ...current, participants: [...current.participants, participant] };
+    });
+  }
+
+  async findParticipantByToken(id: string, token: string): Promise<Participant | null> {
+    const snap = await (await this.collection()).doc(id).get();
+    const participantId = snap.data()?.memberTokens?.[token];
+    if (!participantId) return null;
+    return toSimulation(snap).participants.find((p) => p.id === participantId) ?? null;
+  }
+
+  async findByJoinCode(code: string): Promise<Simulation | null> {
+    const snapshot = await (await this.collection()).where('joinCode', '==', code).limit(1).get();
+    return snapshot.empty ? null : toSimulation(snapshot.docs[0]);
+  }
+
+  async setStatus(id: string, status: SimulationStatus): Promise<void> {
+    await this.update(id, statusChange(status));
+  }
+
+  async saveEnding(id: string, ending: SimulationEnding): Promise<Simulation> {
+    const db = await getAdminDb();
+    const ref = (await this.collection()).doc(id);
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw new NotFoundError('simulations', id);
+      const status = snap.data()?.status;
+      if (status !== 'pending') throw new ConflictError(`Simulation is already ${status}`);
+      tx.update(ref, { ...statusChange('debriefing'), ending: { ...ending, at: toTimestamp(ending.at) } });
+    });
+    return (await this.get(id)) as Simulation;
+  }
+
+  async saveDebrief(id: string, debrief: DebriefAnswer[]): Promise<Simulation> {
+    await this.update(id, { ...statusChange('completed'), debrief });
+    return (await this.get(id)) as Simulation;
+  }
+
+  // Versions live in the `analyses` sub-collection of the simulation.
+  async saveAnalysis(id: string, input: NewAnalysisVersion): Promise<AnalysisVersion> {
+    const db = await getAdminDb();
+    const ref = (await this.collection()).doc(id);
+    const versionRef = ref.collection('analyses').doc();
+    const createdAt = Timestamp.now();
+
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      if (!snap.exists) throw new NotFoundError('simulations', id);
+      const version = (snap.data()?.analysisVersion ?? 0) + 1;
+      tx.set(versionRef, withoutUndefined({ ...input, version, createdAt }));
+      tx.update(ref, {
+        ...statusChange('analyzed'),
+        analysis: input.analysis,
+        biases: input.biases,
+        analysisVersion: version,
+      });
+      return { ...input, id: versionRef.id, version, createdAt: toIso(createdAt) };
+    });
+  }
+
+  async listAnalyses(id: string): Promise<AnalysisVersion[]> {
+    const snapshot = await (await this.collection()).doc(id).collection('analyses').get();
+    return snapshot.docs.map(toAnalysisVersion).sort((a, b) => b.version - a.version);
+  }
+
+  async list(): Promise<Simulation[]> {
+    const snapshot = await (await this.collection()).get();
+    return snapshot.docs
+      .map(toSimulation)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async listByTeam(teamId: string): Promise<Simulation[]> {
+    const snapshot = await (await this.collection()).where('teamId', '==', teamId).get();
+    return snapshot.docs
+      .map(toSimulation)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<Simulation | null> {
+    const snap = await (await this.collection()).doc(id).get();
+    return snap.exists ? toSimulation(snap) : null;
+  }
+
+  private async update(id: string, data: DocumentData): Promise<void> {
+    try {
+      await (await this.collection()).doc(id).update(data);
+    } catch (error) {
+      // gRPC NOT_FOUND
+      if ((error as { code?: number }).code === 5) throw new NotFoundError('simulations', id);
+      throw error;
+    }
+  }
+}
+
+function toLibraryScenario(snap: DocumentSnapshot): LibraryScenario {
+  const data = snap.data() ?? {};
+  return {
+    ...(data as ScenarioDraft),
+    id: snap.id,
+    tags: data.tags ?? [],
+    archived: data.archived ?? false,
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+  };
+}
+
+/** The hosted scenario library, in the `scenarios` collection. */
+export class FirestoreScenarioRepository implements ScenarioRepository {
+  private async collection() {
+    return (await getAdminDb()).collection('scenarios');
+  }
+
+  async create(draft: ScenarioDraft, clonedFrom?: string): Promise<LibraryScenario> {
+    const now = Timestamp.now();
+    const ref = await (await this.collection()).add(
+      withoutUndefined({ ...draft, archived: false, clonedFrom, createdAt: now, updatedAt: now })
+    );
+    return toLibraryScenario(await ref.get());
+  }
+
+  async update(id: string, changes: Partial<ScenarioDraft>): Promise<LibraryScenario> {
+    return this.write(id, withDeletes({ ...changes, updatedAt: Timestamp.now() }));
+  }
+
+  async setArchived(id: string, archived: boolean): Promise<LibraryScenario> {
+    return this.write(id, { archived, updatedAt: Timestamp.now() });
+  }
+
+  async list({ includeArchived = false }: ScenarioListOptions = {}): Promise<LibraryScenario[]> {
+    const snapshot = await (await this.collection()).get();
+    return snapshot.docs
+      .map(toLibraryScenario)
+      .filter((scenario) => includeArchived || !scenario.archived)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<LibraryScenario | null> {
+    const snap = await (await this.collection()).doc(id).get();
+    return snap.exists ? toLibraryScenario(snap) : null;
+  }
+
+  private async write(id: string, data: DocumentData): Promise<LibraryScenario> {
+    const ref = (await this.collection()).doc(id);
+    try {
+      await ref.update(data);
+    } catch (error) {
+      // gRPC NOT_FOUND
+      if ((error as { code?: number }).code === 5) throw new NotFoundError('scenarios', id);
+      throw error;
+    }
+    return toLibraryScenario(await ref.get());
+  }
+}
+
+function toRubric(snap: DocumentSnapshot): Rubric {
+  const data = snap.data() ?? {};
+  return {
+    id: snap.id,
+    name: data.name,
+    description: data.description ?? '',
+    metrics: data.metrics ?? [],
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+  };
+}
+
+/** The hosted rubrics, in the `rubrics` collection. */
+export class FirestoreRubricRepository implements RubricRepository {
+  private async collection() {
+    return (await getAdminDb()).collection('rubrics');
+  }
+
+  async create(draft: RubricDraft): Promise<Rubric> {
+    const now = Timestamp.now();
+    const ref = await (await this.collection()).add(withoutUndefined({ ...draft, createdAt: now, updatedAt: now }));
+    return toRubric(await ref.get());
+  }
+
+  async update(id: string, changes: Partial<RubricDraft>): Promise<Rubric> {
+    const ref = (await this.collection()).doc(id);
+    try {
+      await ref.update(withoutUndefined({ ...changes, updatedAt: Timestamp.now() }));
+    } catch (error) {
+      // gRPC NOT_FOUND
+      if ((error as { code?: number }).code === 5) throw new NotFoundError('rubrics', id);
+      throw error;
+    }
+    return toRubric(await ref.get());
+  }
+
+  async list(): Promise<Rubric[]> {
+    const snapshot = await (await this.collection()).get();
+    return snapshot.docs
+      .map(toRubric)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<Rubric | null> {
+    const snap = await (await this.collection()).doc(id).get();
+    return snap.exists ? toRubric(snap) : null;
+  }
+}
+
+function toSkillFramework(snap: DocumentSnapshot): SkillFramework {
+  const data = snap.data() ?? {};
+  return {
+    id: snap.id,
+    name: data.name,
+    description: data.description ?? '',
+    categories: data.categories ?? [],
+    skills: data.skills ?? [],
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+  };
+}
+
+/** The hosted skill frameworks, in the `skillFrameworks` collection. */
+export class FirestoreSkillFrameworkRepository implements SkillFrameworkRepository {
+  private async collection() {
+    return (await getAdminDb()).collection('skillFrameworks');
+  }
+
+  async create(draft: SkillFrameworkDraft): Promise<SkillFramework> {
+    const now = Timestamp.now();
+    const ref = await (await this.collection()).add(withoutUndefined({ ...draft, createdAt: now, updatedAt: now }));
+    return toSkillFramework(await ref.get());
+  }
+
+  async update(id: string, changes: Partial<SkillFrameworkDraft>): Promise<SkillFramework> {
+    const ref = (await this.collection()).doc(id);
+    try {
+      await ref.update(withoutUndefined({ ...changes, updatedAt: Timestamp.now() }));
+    } catch (error) {
+      // gRPC NOT_FOUND
+      if ((error as { code?: number }).code === 5) throw new NotFoundError('skillFrameworks', id);
+      throw error;
+    }
+    return toSkillFramework(await ref.get());
+  }
+
+  async remove(id: string): Promise<void> {
+    try {
+      await (await this.collection()).doc(id).delete({ exists: true });
+    } catch (error) {
+      // gRPC NOT_FOUND
+      if ((error as { code?: number }).code === 5) throw new NotFoundError('skillFrameworks', id);
+      throw error;
+    }
+  }
+
+  async list(): Promise<SkillFramework[]> {
+    const snapshot = await (await this.collection()).get();
+    return snapshot.docs
+      .map(toSkillFramework)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<SkillFramework | null> {
+    const snap = await (await this.collection()).doc(id).get();
+    return snap.exists ? toSkillFramework(snap) : null;
+  }
+}
+
+function toTeam(snap: DocumentSnapshot): Team {
+  const data = snap.data() ?? {};
+  return {
+    id: snap.id,
+    name: data.name,
+    domain: data.domain ?? '',
+    members: data.members ?? [],
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+  };
+}
+
+/** The hosted teams, in the `teams` collection. */
+export class FirestoreTeamRepository implements TeamRepository {
+  private async collection() {
+    return (await getAdminDb()).collection('teams');
+  }
+
+  async create(draft: TeamDraft): Promise<Team> {
+    const now = Timestamp.now();
+    const ref = await (await this.collection()).add(withoutUndefined({ ...draft, createdAt: now, updatedAt: now }));
+    return toTeam(await ref.get());
+  }
+
+  async update(id: string, changes: Partial<TeamDraft>): Promise<Team> {
+    const ref = (await this.collection()).doc(id);
+    try {
+      await ref.update(withoutUndefined({ ...changes, updatedAt: Timestamp.now() }));
+    } catch (error) {
+      // gRPC NOT_FOUND
+      if ((error as { code?: number }).code === 5) throw new NotFoundError('teams', id);
+      throw error;
+    }
+    return toTeam(await ref.get());
+  }
+
+  async list(): Promise<Team[]> {
+    const snapshot = await (await this.collection()).get();
+    return snapshot.docs.map(toTeam).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<Team | null> {
+    const snap = await (await this.collection()).doc(id).get();
+    return snap.exists ? toTeam(snap) : null;
+  }
+}
@@ -0,0 +1,118 @@
+import path from 'path';
+
+import { DEFAULT_RUBRIC } from '@/lib/simulation/rubrics';
+import { DEFAULT_SKILL_FRAMEWORK } from '@/lib/simulation/skills';
+import { Rubric, SkillFramework } from '@/lib/types';
+import {
+  FirestoreRubricRepository,
+  FirestoreScenarioRepository,
+  FirestoreSimulationRepository,
+  FirestoreSkillFrameworkRepository,
+  FirestoreTeamRepository,
+} from './firestore';
+import {
+  LocalRubricRepository,
+  LocalScenarioRepository,
+  LocalSimulationRepository,
+  LocalSkillFrameworkRepository,
+  LocalTeamRepository,
+} from './local';
+import {
+  RubricRepository,
+  ScenarioRepository,
+  SimulationRepository,
+  SkillFrameworkRepository,
+  TeamRepository,
+} from './types';
+
+export * from './types';
+
+type Backend = 'firestore' | 'local';
+
+let simulations: SimulationRepository | null = null;
+let scenarios: ScenarioRepository | null = null;
+let rubrics: RubricRepository | null = null;
+let teams: TeamRepository | null = null;
+let skillFrameworks: SkillFrameworkRepository | null = null;
+
+/** `STORAGE_BACKEND`: "firestore" (default) or "local". */
+function getBackend(): Backend {
+  const name = (process.env.STORAGE_BACKEND ?? 'firestore').toLowerCase();
+  if (name !== 'firestore' && name !== 'local') {
+    throw new Error(`Unknown STORAGE_BACKEND "${name}". Use "firestore" or "local".`);
+  }
+  return name;
+}
+
+/** Where the local backend keeps its SQLite database (`LOCAL_DATA_DIR`, default `.data`). */
+export function getLocalDataDir(): string {
+  return path.resolve(process.env.LOCAL_DATA_DIR ?? '.data');
+}
+
+export function getSimulationRepository(): SimulationRepository {
+  if (!simulations) {
+    simulations =
+      getBackend() === 'local'
+        ? new LocalSimulationRepository(getLocalDataDir())
+        : new FirestoreSimulationRepository();
+  }
+  return simulations;
+}
+
+export function getScenarioRepository(): ScenarioRepository {
+  if (!scenarios) {
+    scenarios =
+      getBackend() === 'local'
+        ? new LocalScenarioRepository(getLocalDataDir())
+        : new FirestoreScenarioRepository();
+  }
+  return scenarios;
+}
+
+export function getRubricRepository(): RubricRepository {
+  if (!rubrics) {
+    rubrics =
+      getBackend() === 'local'
+        ? new LocalRubricRepository(getLocalDataDir())
+        : new FirestoreRubricRepository();
+  }
+  return rubrics;
+}
+
+export function getTeamRepository(): TeamRepository {
+  if (!teams) {
+    teams =
+      getBackend() === 'local'
+        ? new LocalTeamRepository(getLocalDataDir())
+        : new FirestoreTeamRepository();
+  }
+  return teams;
+}
+
+export function getSkillFrameworkRepository(): SkillFrameworkRepository {
+  if (!skillFrameworks) {
+    skillFrameworks =
+      getBackend() === 'local'
+        ? new LocalSkillFrameworkRepository(getLocalDataDir())
+        : new FirestoreSkillFrameworkRepository();
+  }
+  return skillFrameworks;
+}
+
+/**
+ * The rubric with this id, including the built-in default, which is not
+ * stored. Without an id, the default.
+ */
+export async function findRubric(id?: string): Promise<Rubric | null> {
+  if (!id || id === DEFAULT_RUBRIC.id) return DEFAULT_RUBRIC;
+  return getRubricRepository().get(id);
+}
+
+/**
+ * The skill framework with this id, including the built-in default, which
+ * is not stored. Without an id, the default.
+ */
+export async function findSkillFramework(id?: string): Promise<SkillFramework | null> {
+  if (!id || id === DEFAULT_SKILL_FRAMEWORK.id) return DEFAULT_SKILL_FRAMEWORK;
+  return getSkillFrameworkRepository().get(id);
+}
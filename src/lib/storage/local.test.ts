@@ -0,0 +1,159 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { NewAnalysisVersion, NewSimulation, TranscriptEntry } from '@/lib/types';
+import { LocalSimulationRepository, LocalSkillFrameworkRepository, LocalTeamRepository } from './local';
+import { ConflictError, NotFoundError } from './types';
+
+const input: NewSimulation = {
+  teamSize: 3,
+  domain: 'Healthcare',
+  scenario: { title: 'Ward closure', description: 'A ward must close.', keyDecision: 'Which one?' },
+  teamId: 'team-1',
+  joinCode: 'ABC123',
+};
+
+const entry = (role: TranscriptEntry['role'], content: string): TranscriptEntry => ({
+  role,
+  content,
+  timestamp: new Date().toISOString(),
+});
+
+const run: NewAnalysisVersion = {
+  model: 'mock',
+  promptVersion: 'test',
+  rubricId: 'default',
+  temperature: 0,
+  biases: [],
+  analysis: {
+    overallScore: 70,
+    keyStrengths: ['Clear plan'],
+    growthAreas: ['Slow start'],
+    actionableFeedback: 'Decide sooner.',
+    heatmapData: { Decisiveness: 7 },
+  },
+};
+
+describe('local SQLite backend', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), 'workdna-'));
+  });
+
+  afterEach(() => {
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('stores a simulation through its lifecycle', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input, [entry('host', 'Welcome')]);
+    expect(sim.status).toBe('pending');
+
+    await repo.appendTranscriptEntries(sim.id, [entry('team', 'Close B'), entry('host', 'Why?')]);
+    await repo.setStatus(sim.id, 'completed');
+    const saved = await repo.saveAnalysis(sim.id, run);
+    expect(saved.version).toBe(1);
+    expect((await repo.saveAnalysis(sim.id, run)).version).toBe(2);
+
+    const stored = await repo.get(sim.id);
+    expect(stored?.transcript.map((e) => e.content)).toEqual(['Welcome', 'Close B', 'Why?']);
+    expect(stored?.statusHistory.map((s) => s.status)).toEqual(['pending', 'completed', 'analyzed', 'analyzed']);
+    expect((await repo.listAnalyses(sim.id)).map((a) => a.version)).toEqual([2, 1]);
+    expect((await repo.findByJoinCode('ABC123'))?.id).toBe(sim.id);
+    expect(await repo.listByTeam('team-1')).toHaveLength(1);
+    expect(await repo.listByTeam('team-2')).toHaveLength(0);
+  });
+
+  it('persists across repository instances', async () => {
+    const sim = await new LocalSimulationRepository(dataDir).create(input);
+    expect((await new LocalSimulationRepository(dataDir).list()).map((s) => s.id)).toEqual([sim.id]);
+  });
+
+  it('rolls back a reply to a host turn that was already answered', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input, [entry('host', 'Welcome')]);
+    await repo.appendTranscriptEntries(sim.id, [entry('team', 'A'), entry('host', 'Reply')], { since: 1 });
+    await expect(
+      repo.appendTranscriptEntries(sim.id, [entry('team', 'B'), entry('host', 'Reply again')], { since: 1 })
+    ).rejects.toBeInstanceOf(ConflictError);
+    expect((await repo.get(sim.id))?.transcript).toHaveLength(3);
+  });
+
+  it("keeps members' messages posted while a reply was written", async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input, [entry('host', 'Welcome'), entry('team', 'First')]);
+    await repo.appendTranscriptEntry(sim.id, entry('team', 'Meanwhile'));
+    await repo.appendTranscriptEntries(sim.id, [entry('host', 'Reply')], { since: 2 });
+    expect((await repo.get(sim.id))?.transcript.map((e) => e.content)).toEqual([
+      'Welcome',
+      'First',
+      'Meanwhile',
+      'Reply',
+    ]);
+  });
+
+  it('rejects appends once the session is no longer pending', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input);
+    await repo.setStatus(sim.id, 'completed');
+    await expect(repo.appendTranscriptEntry(sim.id, entry('team', 'Late'))).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('ends a session only once', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input);
+    const ending = { reason: 'time' as const, narrative: 'Over.', questions: [], at: new Date().toISOString() };
+    const results = await Promise.allSettled([repo.saveEnding(sim.id, ending), repo.saveEnding(sim.id, ending)]);
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await repo.get(sim.id))?.statusHistory.map((s) => s.status)).toEqual(['pending', 'debriefing']);
+  });
+
+  it('keeps member tokens out of the simulation', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input);
+    const ann = { id: 'p1', name: 'Ann', joinedAt: new Date().toISOString() };
+    const joined = await repo.addParticipant(sim.id, ann, 'secret');
+    expect(joined.participants).toEqual([ann]);
+    expect(JSON.stringify(await repo.get(sim.id))).not.toContain('secret');
+    expect(await repo.findParticipantByToken(sim.id, 'secret')).toEqual(ann);
+    expect(await repo.findParticipantByToken(sim.id, 'guess')).toBeNull();
+  });
+
+  it('lets only one of two members with the same name join', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input);
+    const join = (id: string, name: string) => repo.addParticipant(sim.id, { id, name, joinedAt: '' });
+    const results = await Promise.allSettled([join('p1', 'Ann'), join('p2', 'ann')]);
+    expect(results.map((r) => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await repo.get(sim.id))?.participants).toHaveLength(1);
+  });
+
+  it('keeps every concurrent append', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    const sim = await repo.create(input);
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => repo.appendTranscriptEntry(sim.id, entry('team', `${i}`)))
+    );
+    expect((await repo.get(sim.id))?.transcript).toHaveLength(10);
+  });
+
+  it('deletes skill frameworks', async () => {
+    const repo = new LocalSkillFrameworkRepository(dataDir);
+    const framework = await repo.create({ name: 'Sales', description: '', categories: [], skills: [] });
+    await repo.remove(framework.id);
+    expect(await repo.get(framework.id)).toBeNull();
+    await expect(repo.remove(framework.id)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('reports missing records', async () => {
+    const repo = new LocalSimulationRepository(dataDir);
+    expect(await repo.get('missing')).toBeNull();
+    await expect(repo.setStatus('missing', 'completed')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(new LocalTeamRepository(dataDir).update('missing', { name: 'X' })).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
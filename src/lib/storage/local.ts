@@ -0,0 +1,445 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import Database from 'better-sqlite3';
+
+import {
+  AnalysisVersion,
+  DebriefAnswer,
+  LibraryScenario,
+  NewAnalysisVersion,
+  NewSimulation,
+  Participant,
+  Rubric,
+  RubricDraft,
+  ScenarioDraft,
+  Simulation,
+  SimulationEnding,
+  SimulationStatus,
+  SkillFramework,
+  SkillFrameworkDraft,
+  Team,
+  TeamDraft,
+  TranscriptEntry,
+} from '@/lib/types';
+import {
+  AppendOptions,
+  ConflictError,
+  NotFoundError,
+  requireJoinable,
+  requireNoReplySince,
+  RubricRepository,
+  ScenarioListOptions,
+  ScenarioRepository,
+  SimulationRepository,
+  SkillFrameworkRepository,
+  TeamRepository,
+} from './types';
+
+// One connection per database file, shared by every collection in the process.
+const databases = new Map<string, Database.Database>();
+
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/** A Firestore-style 20 character document id. */
+export function newId(): string {
+  return Array.from(randomBytes(20), (byte) => ID_ALPHABET[byte % ID_ALPHABET.length]).join('');
+}
+
+/** The SQLite database in `<dataDir>/workdna.db`, created on first use. */
+function openDatabase(dataDir: string): Database.Database {
+  const file = path.join(dataDir, 'workdna.db');
+  let db = databases.get(file);
+  if (!db) {
+    mkdirSync(dataDir, { recursive: true });
+    db = new Database(file);
+    // WAL lets readers carry on while another process writes; writers wait
+    // for each other instead of failing straight away
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    databases.set(file, db);
+  }
+  return db;
+}
+
+/**
+ * A collection of records stored as JSON documents in one table of the
+ * local SQLite database. Updates read and write the record inside an
+ * immediate transaction, so concurrent writers, in this process or
+ * another, never lose each other's changes.
+ */
+export class SqliteCollection<T extends { id: string }> {
+  readonly name: string;
+  private db: Database.Database;
+  private table: string;
+
+  constructor(dataDir: string, name: string) {
+    this.name = name;
+    this.db = openDatabase(dataDir);
+    this.table = `"${name}"`;
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+  }
+
+  async all(): Promise<T[]> {
+    const rows = this.db.prepare(`SELECT data FROM ${this.table}`).all() as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  /** Records whose top-level `field` equals `value`. */
+  async where(field: keyof T & string, value: string): Promise<T[]> {
+    const rows = this.db
+      .prepare(`SELECT data FROM ${this.table} WHERE json_extract(data, ?) = ?`)
+      .all(`$.${field}`, value) as { data: string }[];
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async find(id: string): Promise<T | null> {
+    return this.read(id);
+  }
+
+  async insert(record: T): Promise<T> {
+    this.db
+      .prepare(`INSERT INTO ${this.table} (id, data) VALUES (?, ?)`)
+      .run(record.id, JSON.stringify(record));
+    return record;
+  }
+
+  /** Applies `change` to the stored record inside a write transaction. */
+  async update(id: string, change: (current: T) => T): Promise<T> {
+    const apply = this.db.transaction(() => {
+      const current = this.read(id);
+      if (!current) throw new NotFoundError(this.name, id);
+      const next = change(current);
+      this.db.prepare(`UPDATE ${this.table} SET data = ? WHERE id = ?`).run(JSON.stringify(next), id);
+      return next;
+    });
+    return apply.immediate();
+  }
+
+  async remove(id: string): Promise<void> {
+    const { changes } = this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+    if (changes === 0) throw new NotFoundError(this.name, id);
+  }
+
+  private read(id: string): T | null {
+    const row = this.db.prepare(`SELECT data FROM ${this.table} WHERE id = ?`).get(id) as
+      | { data: string }
+      | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+}
+
+function withStatus(sim: Simulation, status: SimulationStatus): Simulation {
+  return {
+    ...sim,
+    status,
+    statusHistory: [...(sim.statusHistory ?? []), { status, at: new Date().toISOString() }],
+  };
+}
+
+// Room members' tokens are stored with the simulation (token to
+// participant id) but never returned with it.
+type StoredSimulation = Simulation & { memberTokens?: Record<string, string> };
+
+// Simulations saved before live rooms have no participants, and those
+// saved before status history have no statusHistory.
+function toSimulation({ memberTokens, ...sim }: StoredSimulation): Simulation {
+  return { ...sim, participants: sim.participants ?? [], statusHistory: sim.statusHistory ?? [] };
+}
+
+// Versions of every simulation share one table, so each records its owner.
+type StoredAnalysisVersion = AnalysisVersion & { simulationId: string };
+
+function withoutOwner({ simulationId, ...version }: StoredAnalysisVersion): AnalysisVersion {
+  return version;
+}
+
+/**
+ * Self-hosted backend: simulations live in the `simulations` table of
+ * `<dataDir>/workdna.db`, their analysis history in `analyses`.
+ * Point `dataDir` at a temp directory for a throwaway store.
+ */
+export class LocalSimulationRepository implements SimulationRepository {
+  private simulations: SqliteCollection<StoredSimulation>;
+  private analyses: SqliteCollection<StoredAnalysisVersion>;
+
+  constructor(dataDir: string) {
+    this.simulations = new SqliteCollection<StoredSimulation>(dataDir, 'simulations');
+    this.analyses = new SqliteCollection<StoredAnalysisVersion>(dataDir, 'analyses');
+  }
+
+  async create(input: NewSimulation, transcript: TranscriptEntry[] = []): Promise<Simulation> {
+    const createdAt = new Date().toISOString();
+    return this.simulations.insert({
+      id: newId(),
+      teamSize: input.teamSize,
+      domain: input.domain,
+      scenario: input.scenario,
+      scenarioId: input.scenarioId,
+      teamId: input.teamId,
+      joinCode: input.joinCode,
+      world: input.world,
+      participants: [],
+      status: 'pending',
+      statusHistory: [{ status: 'pending', at: createdAt }],
+      transcript,
+      createdAt,
+    });
+  }
+
+  async appendTranscriptEntry(id: string, entry: TranscriptEntry): Promise<Simulation> {
+    return this.appendTranscriptEntries(id, [entry]);
+  }
+
+  async appendTranscriptEntries(
+    id: string,
+    entries: TranscriptEntry[],
+    { since, world }: AppendOptions = {}
+  ): Promise<Simulation> {
+    const sim = await this.simulations.update(id, (sim) => {
+      if (sim.status !== 'pending') throw new ConflictError(`Simulation is already ${sim.status}`);
+      requireNoReplySince(sim.transcript, since);
+      return {
+        ...sim,
+        transcript: [...sim.transcript, ...entries],
+        ...(world && { world }),
+      };
+    });
+    return toSimulation(sim);
+  }
+
+  async addParticipant(id: string, participant: Participant, token?: string): Promise<Simulation> {
+    const sim = await this.simulations.update(id, (sim) => {
+      requireJoinable(toSimulation(sim), participant.name);
+      return {
+        ...sim,
+        participants: [...(sim.participants ?? []), participant],
+        ...(token && { memberTokens: { ...sim.memberTokens, [token]: participant.id } }),
+      };
+    });
+    return toSimulation(sim);
+  }
+
+  async findParticipantByToken(id: string, token: string): Promise<Participant | null> {
+    const sim = await this.simulations.find(id);
+    const participantId = sim?.memberTokens?.[token];
+    if (!sim || !participantId) return null;
+    return toSimulation(sim).participants.find((p) => p.id === participantId) ?? null;
+  }
+
+  async findByJoinCode(code: string): Promise<Simulation | null> {
+    const [sim] = await this.simulations.where('joinCode', code);
+    return sim ? toSimulation(sim) : null;
+  }
+
+  async setStatus(id: string, status: SimulationStatus): Promise<void> {
+    await this.simulations.update(id, (sim) => withStatus(sim, status));
+  }
+
+  async saveEnding(id: string, ending: SimulationEnding): Promise<Simulation> {
+    const sim = await this.simulations.update(id, (sim) => {
+      if (sim.status !== 'pending') throw new ConflictError(`Simulation is already ${sim.status}`);
+      return { ...withStatus(sim, 'debriefing'), ending };
+    });
+    return toSimulation(sim);
+  }
+
+  async saveDebrief(id: string, debrief: DebriefAnswer[]): Promise<Simulation> {
+    const sim = await this.simulations.update(id, (sim) => ({ ...withStatus(sim, 'completed'), debrief }));
+    return toSimulation(sim);
+  }
+
+  async saveAnalysis(id: string, input: NewAnalysisVersion): Promise<AnalysisVersion> {
+    // The version number is claimed inside the simulation's lock, so two
+    // runs finishing together never share one
+    let version = 0;
+    await this.simulations.update(id, (sim) => {
+      version = (sim.analysisVersion ?? 0) + 1;
+      return {
+        ...withStatus(sim, 'analyzed'),
+        analysis: input.analysis,
+        biases: input.biases,
+        analysisVersion: version,
+      };
+    });
+    const saved = await this.analyses.insert({
+      ...input,
+      id: newId(),
+      simulationId: id,
+      version,
+      createdAt: new Date().toISOString(),
+    });
+    return withoutOwner(saved);
+  }
+
+  async listAnalyses(id: string): Promise<AnalysisVersion[]> {
+    const analyses = await this.analyses.where('simulationId', id);
+    return analyses
+      .map(withoutOwner)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async list(): Promise<Simulation[]> {
+    const simulations = await this.simulations.all();
+    return simulations
+      .map(toSimulation)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async listByTeam(teamId: string): Promise<Simulation[]> {
+    const simulations = await this.simulations.where('teamId', teamId);
+    return simulations
+      .map(toSimulation)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<Simulation | null> {
+    const sim = await this.simulations.find(id);
+    return sim && toSimulation(sim);
+  }
+}
+
+/** Self-hosted scenario library in the `scenarios` table. */
+export class LocalScenarioRepository implements ScenarioRepository {
+  private scenarios: SqliteCollection<LibraryScenario>;
+
+  constructor(dataDir: string) {
+    this.scenarios = new SqliteCollection<LibraryScenario>(dataDir, 'scenarios');
+  }
+
+  async create(draft: ScenarioDraft, clonedFrom?: string): Promise<LibraryScenario> {
+    const now = new Date().toISOString();
+    return this.scenarios.insert({
+      ...draft,
+      id: newId(),
+      archived: false,
+      clonedFrom,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async update(id: string, changes: Partial<ScenarioDraft>): Promise<LibraryScenario> {
+    return this.scenarios.update(id, (scenario) => ({
+      ...scenario,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async setArchived(id: string, archived: boolean): Promise<LibraryScenario> {
+    return this.scenarios.update(id, (scenario) => ({
+      ...scenario,
+      archived,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async list({ includeArchived = false }: ScenarioListOptions = {}): Promise<LibraryScenario[]> {
+    const scenarios = await this.scenarios.all();
+    return scenarios
+      .filter((scenario) => includeArchived || !scenario.archived)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<LibraryScenario | null> {
+    return this.scenarios.find(id);
+  }
+}
+
+/** Self-hosted rubrics in the `rubrics` table. */
+export class LocalRubricRepository implements RubricRepository {
+  private rubrics: SqliteCollection<Rubric>;
+
+  constructor(dataDir: string) {
+    this.rubrics = new SqliteCollection<Rubric>(dataDir, 'rubrics');
+  }
+
+  async create(draft: RubricDraft): Promise<Rubric> {
+    const now = new Date().toISOString();
+    return this.rubrics.insert({ ...draft, id: newId(), createdAt: now, updatedAt: now });
+  }
+
+  async update(id: string, changes: Partial<RubricDraft>): Promise<Rubric> {
+    return this.rubrics.update(id, (rubric) => ({
+      ...rubric,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async list(): Promise<Rubric[]> {
+    const rubrics = await this.rubrics.all();
+    return rubrics.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<Rubric | null> {
+    return this.rubrics.find(id);
+  }
+}
+
+/** Self-hosted skill frameworks in the `skillFrameworks` table. */
+export class LocalSkillFrameworkRepository implements SkillFrameworkRepository {
+  private frameworks: SqliteCollection<SkillFramework>;
+
+  constructor(dataDir: string) {
+    this.frameworks = new SqliteCollection<SkillFramework>(dataDir, 'skillFrameworks');
+  }
+
+  async create(draft: SkillFrameworkDraft): Promise<SkillFramework> {
+    const now = new Date().toISOString();
+    return this.frameworks.insert({ ...draft, id: newId(), createdAt: now, updatedAt: now });
+  }
+
+  async update(id: string, changes: Partial<SkillFrameworkDraft>): Promise<SkillFramework> {
+    return this.frameworks.update(id, (framework) => ({
+      ...framework,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async remove(id: string): Promise<void> {
+    return this.frameworks.remove(id);
+  }
+
+  async list(): Promise<SkillFramework[]> {
+    const frameworks = await this.frameworks.all();
+    return frameworks.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<SkillFramework | null> {
+    return this.frameworks.find(id);
+  }
+}
+
+/** Self-hosted teams in the `teams` table. */
+export class LocalTeamRepository implements TeamRepository {
+  private teams: SqliteCollection<Team>;
+
+  constructor(dataDir: string) {
+    this.teams = new SqliteCollection<Team>(dataDir, 'teams');
+  }
+
+  async create(draft: TeamDraft): Promise<Team> {
+    const now = new Date().toISOString();
+    return this.teams.insert({ ...draft, id: newId(), createdAt: now, updatedAt: now });
+  }
+
+  async update(id: string, changes: Partial<TeamDraft>): Promise<Team> {
+    return this.teams.update(id, (team) => ({
+      ...team,
+      ...changes,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async list(): Promise<Team[]> {
+    const teams = await this.teams.all();
+    return teams.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<Team | null> {
+    return this.teams.find(id);
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  AnalysisVersion,
+  DebriefAnswer,
+  LibraryScenario,
+  NewAnalysisVersion,
+  NewSimulation,
+  Participant,
+  Rubric,
+  RubricDraft,
+  ScenarioDraft,
+  Simulation,
+  SimulationEnding,
+  SimulationStatus,
+  SkillFramework,
+  SkillFrameworkDraft,
+  Team,
+  TeamDraft,
+  TranscriptEntry,
+  WorldState,
+} from '@/lib/types';
+
+export interface AppendOptions {
+  /**
+   * The transcript length the entries were written against. Rejects with a
+   * `ConflictError` if the host (or a persona) has spoken since, so two
+   * clients can't both answer the same host turn. Members' messages posted
+   * in the meantime are kept, ahead of the new entries.
+   */
+  since?: number;
+  /** Replaces the world state in the same write as the entries. */
+  world?: WorldState;
+}
+
+/**
+ * Persistence for `simulations`. Routes only talk to this interface, so the
+ * backend (Firestore or the local SQLite store) is a deployment choice.
+ */
+export interface SimulationRepository {
+  /** Creates a pending simulation, optionally seeded with its first entries. */
+  create(input: NewSimulation, transcript?: TranscriptEntry[]): Promise<Simulation>;
+  /**
+   * Appends atomically; concurrent appends never overwrite each other.
+   * Rejects with a `ConflictError` once the simulation is no longer pending.
+   */
+  appendTranscriptEntry(id: string, entry: TranscriptEntry): Promise<Simulation>;
+  /** Appends several entries in one atomic write (e.g. a team turn and the host reply). */
+  appendTranscriptEntries(
+    id: string,
+    entries: TranscriptEntry[],
+    options?: AppendOptions
+  ): Promise<Simulation>;
+  /**
+   * Adds a room member; their messages then carry their id and name. Rejects
+   * with a `ConflictError` unless the session is pending and the name is
+   * free. With `token`, the member's device can post as them: tokens are
+   * stored apart from `participants` and never returned with the simulation.
+   */
+  addParticipant(id: string, participant: Participant, token?: string): Promise<Simulation>;
+  /** The room member whose device was given this token when they joined. */
+  findParticipantByToken(id: string, token: string): Promise<Participant | null>;
+  /** The pending or finished simulation whose room uses this code. */
+  findByJoinCode(code: string): Promise<Simulation | null>;
+  setStatus(id: string, status: SimulationStatus): Promise<void>;
+  /**
+   * Stores how the session ended and moves it on to the debrief. Rejects
+   * with a ConflictError unless the session is still pending, checked in
+   * the same write, so it only ends once.
+   */
+  saveEnding(id: string, ending: SimulationEnding): Promise<Simulation>;
+  /** Stores the team's debrief answers and marks the simulation as completed. */
+  saveDebrief(id: string, debrief: DebriefAnswer[]): Promise<Simulation>;
+  /**
+   * Records a new version in the simulation's analysis history, makes it the
+   * current analysis and marks the simulation as analyzed.
+   */
+  saveAnalysis(id: string, version: NewAnalysisVersion): Promise<AnalysisVersion>;
+  /** The analysis history, newest first. */
+  listAnalyses(id: string): Promise<AnalysisVersion[]>;
+  /** Newest first. */
+  list(): Promise<Simulation[]>;
+  /** The team's simulations, newest first. */
+  listByTeam(teamId: string): Promise<Simulation[]>;
+  get(id: string): Promise<Simulation | null>;
+}
+
+export interface ScenarioListOptions {
+  includeArchived?: boolean;
+}
+
+/** Persistence for the `scenarios` library. */
+export interface ScenarioRepository {
+  create(draft: ScenarioDraft, clonedFrom?: string): Promise<LibraryScenario>;
+  /** Applies the given fields and bumps `updatedAt`. Fields set to `undefined` are removed. */
+  update(id: string, changes: Partial<ScenarioDraft>): Promise<LibraryScenario>;
+  /** Archived scenarios are hidden from the picker but kept for old simulations. */
+  setArchived(id: string, archived: boolean): Promise<LibraryScenario>;
+  /** Most recently updated first; archived scenarios only on request. */
+  list(options?: ScenarioListOptions): Promise<LibraryScenario[]>;
+  get(id: string): Promise<LibraryScenario | null>;
+}
+
+/** Persistence for the saved analysis `rubrics`. The built-in default is not stored. */
+export interface RubricRepository {
+  create(draft: RubricDraft): Promise<Rubric>;
+  /** Applies the given fields and bumps `updatedAt`. */
+  update(id: string, changes: Partial<RubricDraft>): Promise<Rubric>;
+  /** Most recently updated first. */
+  list(): Promise<Rubric[]>;
+  get(id: string): Promise<Rubric | null>;
+}
+
+/** Persistence for the saved `skillFrameworks`. The built-in default is not stored. */
+export interface SkillFrameworkRepository {
+  create(draft: SkillFrameworkDraft): Promise<SkillFramework>;
+  /** Applies the given fields and bumps `updatedAt`. */
+  update(id: string, changes: Partial<SkillFrameworkDraft>): Promise<SkillFramework>;
+  /** Deletes it for good; nothing else keeps a framework's id. */
+  remove(id: string): Promise<void>;
+  /** Most recently updated first. */
+  list(): Promise<SkillFramework[]>;
+  get(id: string): Promise<SkillFramework | null>;
+}
+
+/** Persistence for `teams`. */
+export interface TeamRepository {
+  create(draft: TeamDraft): Promise<Team>;
+  /** Applies the given fields and bumps `updatedAt`. */
+  update(id: string, changes: Partial<TeamDraft>): Promise<Team>;
+  /** Alphabetical by name. */
+  list(): Promise<Team[]>;
+  get(id: string): Promise<Team | null>;
+}
+
+/**
+ * Thrown when a mutation targets a document that does not exist.
+ * Routes map it to a 404.
+ */
+export class NotFoundError extends Error {
+  readonly collection: string;
+
+  constructor(collection: string, id: string) {
+    super(`No document "${id}" in ${collection}`);
+    this.name = 'NotFoundError';
+    this.collection = collection;
+  }
+}
+
+/**
+ * Thrown when a write loses a race with another writer.
+ * Routes map it to a 409.
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * What both backends check inside the write that adds a room member: the
+ * session is still running and nobody in the room has the name yet.
+ */
+export function requireJoinable(simulation: Simulation, name: string): void {
+  if (simulation.status !== 'pending') {
+    throw new ConflictError(`Simulation is already ${simulation.status}`);
+  }
+  if (simulation.participants.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+    throw new ConflictError(`Someone called "${name}" has already joined`);
+  }
+}
+
+/** The check behind `AppendOptions.since`, made inside the append's write. */
+export function requireNoReplySince(transcript: TranscriptEntry[], since?: number): void {
+  if (since !== undefined && transcript.slice(since).some((entry) => entry.role !== 'team')) {
+    throw new ConflictError('The host replied while this turn was being processed');
+  }
+}
@@ -1,18 +1,531 @@
+// --- WorkDNA skills ---
+// Competencies levelled up by the metrics of analyzed simulations.
+
+// A group of related skills in the framework, e.g. 'Judgement'
+export interface SkillCategory {
+  id: string;
+  name: string;
+}
+
 // Represents a single skill in the blueprint
-export interface Skill {
-  id: string;          // e.g., 'react'
-  name: string;        // e.g., 'React'
-  level: number;       // 0-100 scale for progress
-  category: 'frontend' | 'backend' | 'devops' | 'soft-skill';
+export interface SkillDefinition {
+  id: string;          // e.g., 'evidence'
+  name: string;        // e.g., 'Evidence Use'
+  category: string;    // a SkillCategory id
+  description: string;
   dependencies: string[]; // List of skill IDs required for this one
+  // The rubric metrics (or derived scores) that build this skill
+  metrics: string[];
+}
+
+// The competencies skills are worked out against, stored as data so an
+// organisation can define its own.
+export interface SkillFramework {
+  id: string;
+  name: string;
+  description: string;
+  categories: SkillCategory[];
+  skills: SkillDefinition[];
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+// The editable part of a skill framework; also its JSON export format.
+export type SkillFrameworkDraft = Pick<SkillFramework, 'name' | 'description' | 'categories' | 'skills'>;
+
+// What one simulation added to a skill.
+export interface SkillContribution {
+  simulationId: string;
+  scenarioTitle: string;
+  createdAt: string; // ISO 8601
+  score: number; // 1-10, the mean of the skill's metrics in that session
+}
+
+// A skill as earned by a team or member.
+export interface Skill extends SkillDefinition {
+  level: number;       // 0-100 scale for progress
+  // Reached the unlock level with every dependency unlocked
+  unlocked: boolean;
+  contributions: SkillContribution[]; // oldest first
 }
 
-// Represents the user's entire profile
+// Represents a team's or member's entire profile
 export interface WorkDNA {
-  userId: string;
+  teamId: string;
+  frameworkId: string;
+  member?: string; // the member's name, for an individual profile
+  name: string;
+  categories: SkillCategory[];
   skills: Skill[];
-  // Behavioral data captured from self-assessment
-  selfAssessment: string; 
-  // Technical data (e.g., from Git commits, not implemented here)
-  projectContributions: string[]; 
-}
\ No newline at end of file
+  // The analyzed simulations the levels come from
+  simulationCount: number;
+}
+
+// --- Simulation domain types ---
+// Shared by the API routes, the storage layer and the pages.
+
+export interface Scenario {
+  title: string;
+  description: string;
+  keyDecision: string;
+  // Authored scenarios are walked node by node instead of improvised.
+  graph?: ScenarioGraph;
+  timing?: ScenarioTiming;
+  personas?: Persona[];
+  endConditions?: EndConditions;
+  // Asked in the debrief instead of the ones the host writes
+  debriefQuestions?: string[];
+  // The rubric the analysis scores against; the default rubric when absent
+  rubricId?: string;
+}
+
+// --- Stakeholder personas ---
+// Characters the engine brings into an improvised session as speakers of
+// their own, each pushing their goals in their own tone.
+
+export interface Persona {
+  id: string;
+  name: string; // e.g. 'Dana Whitfield'
+  role: string; // e.g. 'General Counsel'
+  goals: string;
+  tone: string; // e.g. 'measured, risk-averse'
+}
+
+// --- Timers ---
+// Either clock may be left off. The turn clock runs from the host's last
+// prompt until the host speaks again; the session clock from the start.
+
+export type TimeoutAction = 'escalate' | 'no-decision';
+
+export interface ScenarioTiming {
+  turnSeconds?: number;
+  sessionSeconds?: number;
+  // What happens when the turn clock runs out
+  onTimeout: TimeoutAction;
+}
+
+// --- Ending ---
+// A session ends when the facilitator ends it, the session clock runs out,
+// an authored scenario reaches a terminal node, or one of these is met.
+// The host then narrates the outcome and the team answers the debrief.
+
+export interface EndConditions {
+  maxTurns?: number; // host replies after the opening
+  finalDecision?: boolean; // end once the team commits to a final decision
+}
+
+export type EndReason = 'max-turns' | 'time' | 'terminal-node' | 'final-decision' | 'facilitator';
+
+export interface SimulationEnding {
+  reason: EndReason;
+  narrative: string; // the host's closing account of what their choices led to
+  questions: string[]; // for the debrief
+  at: string; // ISO 8601
+}
+
+export interface DebriefAnswer {
+  question: string;
+  answer: string;
+}
+
+// --- Scenario graphs ---
+// A 'choice' node offers options whose edges lead to consequence nodes,
+// a 'free-text' node takes an open answer and moves on to `next`, and a
+// 'terminal' node ends the scenario.
+
+export interface ScenarioOption {
+  id: string;
+  label: string;
+  next: string; // node id
+}
+
+export interface ScenarioNode {
+  id: string;
+  kind: 'choice' | 'free-text' | 'terminal';
+  narrative: string;
+  options?: ScenarioOption[]; // 'choice' only
+  next?: string;              // 'free-text' only
+}
+
+export interface ScenarioGraph {
+  start: string; // node id
+  nodes: ScenarioNode[];
+}
+
+// One decision the team made while walking a graph.
+export interface PathStep {
+  nodeId: string;
+  optionId?: string; // absent for free-text answers
+}
+
+// --- World model ---
+// The consequences of the team's decisions so far. The host updates it after
+// every reply in improvised sessions and reads it back on the next turn, so
+// earlier consequences stay consistent.
+
+export interface StakeholderTrust {
+  stakeholder: string;
+  trust: number; // 0-100
+}
+
+export interface WorldState {
+  budget: number; // % of the starting budget left, 0-100
+  reputation: number; // 0-100
+  stakeholderTrust: StakeholderTrust[];
+  openRisks: string[];
+  decisions: string[]; // in the order they were made
+}
+
+// Someone in a live room: either joined from their own device, or added by
+// the facilitator because they speak in person.
+export interface Participant {
+  id: string;
+  name: string;
+  joinedAt: string; // ISO 8601
+  inPerson?: boolean; // added by the facilitator; has no device token
+}
+
+export interface TranscriptEntry {
+  role: 'host' | 'team' | 'persona';
+  content: string;
+  timestamp: string; // ISO 8601
+  // Who said it: the room member for team entries, the persona for theirs.
+  participantId?: string;
+  personaId?: string;
+  speaker?: string; // display name at the time
+  // Team entries: ms since the host's last prompt
+  latencyMs?: number;
+  // Written by the server when a clock ran out instead of by the team
+  timedOut?: boolean;
+
+  // Graph scenarios only: host entries carry the node they narrate,
+  // team entries the node they answered and the option they picked.
+  nodeId?: string;
+  optionId?: string;
+}
+
+// --- Scenario library ---
+
+export type ScenarioDifficulty = 'easy' | 'medium' | 'hard';
+
+// A saved scenario that facilitators can rerun with any number of teams.
+export interface LibraryScenario extends Scenario {
+  id: string;
+  domain: string;
+  difficulty: ScenarioDifficulty;
+  tags: string[];
+  archived: boolean;
+  clonedFrom?: string; // library id
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+// The editable part of a library scenario.
+export type ScenarioDraft = Pick<
+  LibraryScenario,
+  | 'title'
+  | 'description'
+  | 'keyDecision'
+  | 'graph'
+  | 'timing'
+  | 'personas'
+  | 'endConditions'
+  | 'debriefQuestions'
+  | 'rubricId'
+  | 'domain'
+  | 'difficulty'
+  | 'tags'
+>;
+
+// --- Scenario generation (/api/gen) ---
+
+export type ScenarioType = 'ethical' | 'strategic' | 'crisis' | 'resource-allocation';
+
+// How far ahead the decision's consequences play out.
+export type TimeHorizon = 'immediate' | 'short-term' | 'long-term';
+
+export interface GenerationOptions {
+  count: number;
+  difficulty: ScenarioDifficulty;
+  scenarioTypes: ScenarioType[]; // empty = any
+  timeHorizon?: TimeHorizon;
+  stakeholders: string[];
+  companyContext?: string;
+  excludedTopics: string[];
+}
+
+export interface GeneratedScenario extends Scenario {
+  scenarioType: ScenarioType;
+  difficulty: ScenarioDifficulty;
+  stakeholders: string[];
+}
+
+// --- Analysis rubrics ---
+// The metrics an analysis scores, stored as data so an organisation can
+// assess against its own competency framework.
+
+export interface RubricMetric {
+  name: string; // the key in heatmapData, e.g. 'Decisiveness'
+  description: string;
+  low: string; // what a 1 looks like
+  high: string; // what a 10 looks like
+  weight: number; // relative share of the overall score
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  description: string;
+  metrics: RubricMetric[];
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+// The editable part of a rubric.
+export type RubricDraft = Pick<Rubric, 'name' | 'description' | 'metrics'>;
+
+// --- Teams ---
+// A persistent team, so its simulations can be followed over time.
+
+export interface TeamMember {
+  name: string;
+  role?: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  domain: string;
+  members: TeamMember[];
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+// The editable part of a team.
+export type TeamDraft = Pick<Team, 'name' | 'domain' | 'members'>;
+
+// 'debriefing' sits between the ending and the team's debrief answers.
+export type SimulationStatus = 'pending' | 'debriefing' | 'completed' | 'analyzed' | 'error';
+
+export interface StatusChange {
+  status: SimulationStatus;
+  at: string; // ISO 8601
+}
+
+// e.g. { "Decisiveness": 8 }
+export type HeatmapData = Record<string, number>;
+
+// How one team member took part. Shares and counts are measured from the
+// transcript; influence and notes come from the analyst, and influence is
+// missing for a member the analyst did not assess.
+export interface ParticipantInsight {
+  name: string;
+  participantId?: string;
+  messageCount: number;
+  contributionShare: number; // % of the team's words, 0-100
+  influence?: number; // 1-10
+  notes: string;
+}
+
+// How the team dealt with one persona, from the analyst.
+export interface PersonaHandling {
+  personaId: string;
+  name: string;
+  role: string;
+  score: number; // 1-10
+  notes: string;
+}
+
+// A transcript entry the analyst cites, by its index in `transcript`.
+export interface Evidence {
+  entryIndex: number;
+  quote: string; // an excerpt of that entry's content
+}
+
+// The citations behind each finding, parallel to the finding lists:
+// `keyStrengths[i]` backs `Analysis.keyStrengths[i]`, and so on. Each list
+// is wrapped in an object because Firestore can't store nested arrays.
+export interface AnalysisEvidence {
+  keyStrengths: { evidence: Evidence[] }[];
+  growthAreas: { evidence: Evidence[] }[];
+  heatmapData: Record<string, Evidence[]>;
+}
+
+// --- Cognitive biases ---
+// Found by a pass of their own, separate from the main analysis.
+
+export type BiasType =
+  | 'anchoring'
+  | 'sunk-cost'
+  | 'confirmation'
+  | 'authority'
+  | 'groupthink'
+  | 'escalation-of-commitment';
+
+export interface BiasFinding {
+  type: BiasType;
+  confidence: number; // 0-100
+  explanation: string;
+  evidence: Evidence[]; // the supporting quotes
+}
+
+export interface Analysis {
+  // The rubric's weighted average of heatmapData, scaled to 1-100
+  overallScore: number;
+  keyStrengths: string[];
+  growthAreas: string[];
+  actionableFeedback: string;
+  heatmapData: HeatmapData; // one score (1-10) per rubric metric
+  // Absent on analyses made before rubrics, which used the default metrics
+  rubricId?: string;
+  // Absent on analyses made before findings cited the transcript
+  evidence?: AnalysisEvidence;
+  // Only when team entries were attributed to speakers
+  participants?: ParticipantInsight[];
+  // Only for personas that spoke during the session and were assessed
+  personas?: PersonaHandling[];
+}
+
+// What produced an analysis, so versions can be told apart and compared.
+export interface AnalysisRunInfo {
+  model: string;
+  promptVersion: string; // bumped whenever the analyst's prompts change
+  rubricId: string;
+  temperature: number;
+}
+
+// One run of the analyst, kept in the simulation's `analyses` history.
+export interface AnalysisVersion extends AnalysisRunInfo {
+  id: string;
+  version: number; // 1 for the first run
+  analysis: Analysis;
+  biases: BiasFinding[];
+  createdAt: string; // ISO 8601
+}
+
+export type NewAnalysisVersion = Omit<AnalysisVersion, 'id' | 'version' | 'createdAt'>;
+
+export interface Simulation {
+  id: string;
+  teamSize: number;
+  domain: string;
+  scenario: Scenario;
+  // Set when the scenario came from the library. `scenario` is still a copy,
+  // so later edits to the library don't change past simulations.
+  scenarioId?: string;
+  // Absent for one-off sessions run without a team
+  teamId?: string;
+  status: SimulationStatus;
+  // Members join a pending session's live room with this code.
+  joinCode?: string;
+  participants: Participant[];
+  // Every status the simulation has been in, oldest first.
+  statusHistory: StatusChange[];
+  transcript: TranscriptEntry[];
+  // Improvised sessions only; authored graphs carry their own consequences.
+  world?: WorldState;
+  // Set once the session has ended
+  ending?: SimulationEnding;
+  // Questions the team answered; skipped ones are left out
+  debrief?: DebriefAnswer[];
+  // The latest analysis version, copied here so lists don't read the history
+  analysis?: Analysis;
+  // Set with the analysis; empty when none were observed
+  biases?: BiasFinding[];
+  // Absent on analyses made before versioning
+  analysisVersion?: number;
+  createdAt: string; // ISO 8601
+}
+
+// What a caller supplies to start a new simulation.
+export type NewSimulation = Pick<
+  Simulation,
+  'teamSize' | 'domain' | 'scenario' | 'scenarioId' | 'teamId' | 'joinCode' | 'world'
+>;
+
+// --- /api/details response ---
+// The detail page shows the team as 'user', so the route maps 'team' to 'user'.
+
+export interface SimulationDetailEntry extends Omit<TranscriptEntry, 'role'> {
+  role: 'user' | 'host' | 'persona';
+}
+
+export interface SimulationDetail extends Omit<Simulation, 'transcript'> {
+  transcript: SimulationDetailEntry[];
+  path: PathStep[]; // empty unless the scenario is authored
+}
+
+// --- /api/compare response ---
+
+// One simulation as the compare page shows it; `label` (A, B, ...) names it
+// in the charts and the narrative.
+export interface ComparedSimulation {
+  id: string;
+  label: string;
+  scenarioTitle: string;
+  domain: string;
+  teamSize: number;
+  createdAt: string;
+  rubricId: string;
+  overallScore: number;
+  heatmapData: HeatmapData;
+}
+
+// A point where the simulations went different ways.
+export interface DivergentDecision {
+  point: string;
+  choices: { simulationId: string; choice: string }[];
+}
+
+export interface SimulationComparison {
+  simulations: ComparedSimulation[];
+  // Every metric any of them was scored on, in first-seen order
+  metrics: string[];
+  decisions: DivergentDecision[];
+  narrative: string;
+}
+
+// --- /api/teams/:id/profile response ---
+
+export type Trend = 'up' | 'down' | 'flat';
+
+// The latest score against the sessions before it.
+export interface MetricTrend {
+  metric: string;
+  latest: number;
+  previous?: number; // the mean of up to three earlier sessions; absent after one
+  trend: Trend;
+}
+
+// One analyzed simulation on the team's timeline.
+export interface TeamProfilePoint {
+  simulationId: string;
+  scenarioTitle: string;
+  scenarioId?: string;
+  createdAt: string;
+  overallScore: number;
+  heatmapData: HeatmapData;
+}
+
+// Growth areas worded alike in more than one session.
+export interface RecurringGrowthArea {
+  text: string; // as first written
+  simulationIds: string[];
+}
+
+export interface ScenarioRecommendation {
+  metric: string; // the team's weakest
+  reason: string;
+  // A library scenario the team hasn't played; absent when none fits
+  scenario?: { id: string; title: string };
+}
+
+export interface TeamProfile {
+  team: Team;
+  history: TeamProfilePoint[]; // oldest first
+  metrics: string[];
+  overall?: MetricTrend;
+  trends: MetricTrend[];
+  recurringGrowthAreas: RecurringGrowthArea[];
+  recommendation?: ScenarioRecommendation;
+}